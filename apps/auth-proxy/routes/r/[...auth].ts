@@ -1,12 +1,47 @@
+import type { Provider } from "@auth/core/providers";
 import { Auth } from "@auth/core";
+import Discord from "@auth/core/providers/discord";
+import GitHub from "@auth/core/providers/github";
+import Google from "@auth/core/providers/google";
 import { eventHandler, toWebRequest } from "h3";
 
+/**
+ * Mirrors the OAuth providers of the app, registered when their credentials
+ * are set. Email sign-in never goes through the proxy.
+ */
+const providers: Provider[] = [
+  ...(process.env.AUTH_DISCORD_ID && process.env.AUTH_DISCORD_SECRET
+    ? [
+        Discord({
+          clientId: process.env.AUTH_DISCORD_ID,
+          clientSecret: process.env.AUTH_DISCORD_SECRET,
+        }),
+      ]
+    : []),
+  ...(process.env.AUTH_GITHUB_ID && process.env.AUTH_GITHUB_SECRET
+    ? [
+        GitHub({
+          clientId: process.env.AUTH_GITHUB_ID,
+          clientSecret: process.env.AUTH_GITHUB_SECRET,
+        }),
+      ]
+    : []),
+  ...(process.env.AUTH_GOOGLE_ID && process.env.AUTH_GOOGLE_SECRET
+    ? [
+        Google({
+          clientId: process.env.AUTH_GOOGLE_ID,
+          clientSecret: process.env.AUTH_GOOGLE_SECRET,
+        }),
+      ]
+    : []),
+];
+
 export default eventHandler(async (event) =>
   Auth(toWebRequest(event), {
     basePath: "/r",
     secret: process.env.AUTH_SECRET,
     trustHost: !!process.env.VERCEL,
     redirectProxyUrl: process.env.AUTH_REDIRECT_PROXY_URL,
-    providers: [],
+    providers,
   }),
 );
@@ -12,6 +12,15 @@ import { useAudioRecordingManager } from "./audio/use-audio-recording-manager";
 import { WaveForm2 } from "./audio/wave-form-2";
 import { WaveFormPlayback } from "./audio/wave-form-playback";
 
+// Metering drives both the live waveform and voice-triggered recording
+const RECORDING_OPTIONS = {
+  ...RecordingPresets.HIGH_QUALITY!,
+  isMeteringEnabled: true,
+};
+
+// Silence timeouts offered for voice-triggered recording
+const SILENCE_TIMEOUTS_MS = [1000, 2000, 4000];
+
 export default function AudioRecording() {
   const {
     isRecording,
@@ -35,7 +44,13 @@ export default function AudioRecording() {
     resetRecording,
     seekToPosition,
     requestPermission,
-  } = useAudioRecordingManager(RecordingPresets.HIGH_QUALITY);
+
+    recordingMode,
+    setRecordingMode,
+    isArmed,
+    voiceTriggerConfig,
+    updateVoiceTriggerConfig,
+  } = useAudioRecordingManager(RECORDING_OPTIONS);
 
   // Handle seeking when user interacts with the waveform
   const handleSeek = useCallback(
@@ -152,6 +167,7 @@ export default function AudioRecording() {
   const getStatusText = () => {
     if (permissionError) return permissionError;
     if (!hasPermission) return "Microphone permission required";
+    if (isArmed) return "Listening for speech...";
     if (isRecording) return "Recording in progress...";
     if (isPaused) return "Recording paused";
     if (isPlaying) return "Playing recording...";
@@ -290,6 +306,14 @@ export default function AudioRecording() {
           >
             <Text className="text-sm font-medium text-white">Allow Mic</Text>
           </Pressable>
+        ) : isArmed ? (
+          /* Armed, waiting for speech: cancel */
+          <Pressable
+            className="h-14 w-32 items-center justify-center rounded-full bg-gray-500"
+            onPress={stopRecording}
+          >
+            <Text className="text-sm font-medium text-white">Cancel</Text>
+          </Pressable>
         ) : !isRecording && !isPaused && !isPlaying && !recordingData ? (
           /* Start recording */
           <Pressable
@@ -377,6 +401,61 @@ export default function AudioRecording() {
         )}
       </View>
 
+      {/* Recording mode, only changeable between takes */}
+      {hasPermission && !isArmed && !isRecording && !isPaused && (
+        <View className="mt-2 w-full items-center">
+          <View className="flex-row space-x-2">
+            {(["manual", "voice-triggered"] as const).map((mode) => (
+              <Pressable
+                key={mode}
+                className={`rounded-full px-4 py-2 ${
+                  recordingMode === mode ? "bg-primary" : "bg-gray-200"
+                }`}
+                onPress={() => setRecordingMode(mode)}
+              >
+                <Text
+                  className={`text-xs font-medium ${
+                    recordingMode === mode ? "text-white" : "text-gray-700"
+                  }`}
+                >
+                  {mode === "manual" ? "Manual" : "Voice-triggered"}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+
+          {recordingMode === "voice-triggered" && (
+            <View className="mt-2 flex-row items-center space-x-2">
+              <Text className="text-xs text-gray-500">Stop after</Text>
+              {SILENCE_TIMEOUTS_MS.map((timeoutMs) => (
+                <Pressable
+                  key={timeoutMs}
+                  className={`rounded-full px-3 py-1 ${
+                    voiceTriggerConfig.silenceTimeoutMs === timeoutMs
+                      ? "bg-primary"
+                      : "bg-gray-200"
+                  }`}
+                  onPress={() =>
+                    updateVoiceTriggerConfig({ silenceTimeoutMs: timeoutMs })
+                  }
+                >
+                  <Text
+                    className={`text-xs ${
+                      voiceTriggerConfig.silenceTimeoutMs === timeoutMs
+                        ? "text-white"
+                        : "text-gray-700"
+                    }`}
+                  >
+                    {timeoutMs / 1000}s
+                  </Text>
+                </Pressable>
+              ))}
+              <Text className="text-xs text-gray-500">of silence</Text>
+            </View>
+          )}
+        </View>
+      )}
+
       {/* Recording file info */}
       {recordingData && (
         <View className="mt-4 w-full rounded-md bg-gray-50 px-4 py-2">
@@ -0,0 +1,78 @@
+import React, { useMemo } from "react";
+import { ScrollView, Text, View } from "react-native";
+
+import type { TranscriptSegment } from "@vibespeak/audio";
+import { findWordAt } from "@vibespeak/audio";
+
+import { cn } from "~/utils/cn";
+
+export interface TranscriptViewProps {
+  segments: TranscriptSegment[];
+  positionMs: number;
+  onSeek: (positionMs: number) => void;
+}
+
+// Words below this confidence are underlined so they can be double-checked
+const LOW_CONFIDENCE = 0.6;
+
+const formatTimestamp = (milliseconds: number) => {
+  const totalSeconds = Math.floor(milliseconds / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+};
+
+/**
+ * Transcript with the word under the playhead highlighted.
+ * Tapping a word seeks the player to it.
+ */
+export function TranscriptView({
+  segments,
+  positionMs,
+  onSeek,
+}: TranscriptViewProps) {
+  const active = useMemo(
+    () => findWordAt(segments, positionMs),
+    [segments, positionMs],
+  );
+
+  return (
+    <ScrollView className="max-h-48 w-full" nestedScrollEnabled>
+      {segments.map((segment, segmentIndex) => (
+        <View
+          key={`${segment.startMs}-${segmentIndex}`}
+          className="mb-2 flex-row"
+        >
+          <Text
+            className="mr-2 pt-0.5 font-mono text-xs text-gray-400"
+            onPress={() => onSeek(segment.startMs)}
+          >
+            {formatTimestamp(segment.startMs)}
+          </Text>
+          {/* Nested Text keeps the words wrapping like a paragraph */}
+          <Text className="flex-1 text-sm leading-6 text-gray-700">
+            {segment.words.map((word, wordIndex) => {
+              const isActive =
+                active?.segmentIndex === segmentIndex &&
+                active.wordIndex === wordIndex;
+              return (
+                <Text key={wordIndex}>
+                  <Text
+                    onPress={() => onSeek(word.startMs)}
+                    className={cn(
+                      word.confidence < LOW_CONFIDENCE &&
+                        "text-gray-400 underline",
+                      isActive && "bg-primary text-white",
+                    )}
+                  >
+                    {word.text}
+                  </Text>{" "}
+                </Text>
+              );
+            })}
+          </Text>
+        </View>
+      ))}
+    </ScrollView>
+  );
+}
@@ -9,9 +9,28 @@ import {
   useAudioRecorderState,
 } from "expo-audio";
 
+import type {
+  VadEvent,
+  VoiceTrigger,
+  VoiceTriggerOptions,
+} from "@vibespeak/audio";
+import {
+  createVoiceActivityDetector,
+  createVoiceTrigger,
+  DEFAULT_VOICE_TRIGGER_OPTIONS,
+} from "@vibespeak/audio";
+
+export type RecordingMode = "manual" | "voice-triggered";
+
+// Meter readings are sampled on this interval while recording
+const METER_INTERVAL_MS = 100;
+
 export interface AudioRecordingData {
   uri: string;
   waveformData: number[];
+  // Voice-triggered takes record from the moment they are armed; the take
+  // itself (including pre-roll) starts this far into the file
+  startOffsetMs: number;
 }
 
 export interface UseAudioRecordingManagerResult {
@@ -22,6 +41,17 @@ export interface UseAudioRecordingManagerResult {
   recordingData: AudioRecordingData | null;
   waveformData: number[];
 
+  // Voice activity, timestamps are ms into the recording
+  isSpeaking: boolean;
+  speechEvents: VadEvent[];
+
+  // Voice-triggered recording, armed = listening for speech before the take
+  recordingMode: RecordingMode;
+  setRecordingMode: (mode: RecordingMode) => void;
+  isArmed: boolean;
+  voiceTriggerConfig: Required<VoiceTriggerOptions>;
+  updateVoiceTriggerConfig: (update: VoiceTriggerOptions) => void;
+
   // Playback states
   isPlaying: boolean;
   playbackPosition: number;
@@ -61,6 +91,24 @@ export function useAudioRecordingManager(
 
   // Waveform data collection
   const [waveformData, setWaveformData] = useState<number[]>([]);
+  // Every meter reading of the current take, the live view only keeps the tail
+  const meterHistoryRef = useRef<number[]>([]);
+
+  // Voice activity detection from the meter readings (energy only)
+  const vadRef = useRef(createVoiceActivityDetector());
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  const [speechEvents, setSpeechEvents] = useState<VadEvent[]>([]);
+
+  // Voice-triggered recording
+  const [recordingMode, setRecordingMode] = useState<RecordingMode>("manual");
+  const [isArmed, setIsArmed] = useState(false);
+  const [voiceTriggerConfig, setVoiceTriggerConfig] = useState<
+    Required<VoiceTriggerOptions>
+  >(DEFAULT_VOICE_TRIGGER_OPTIONS);
+  const voiceTriggerRef = useRef<VoiceTrigger | null>(null);
+  const startOffsetRef = useRef(0);
+  // Lets the meter loop end a take; stopRecording is declared further down
+  const stopRecordingRef = useRef<() => Promise<void>>(() => Promise.resolve());
 
   // Manual duration tracking (in case native durationMillis isn't working)
   const [manualDuration, setManualDuration] = useState(0);
@@ -100,38 +148,58 @@ export function useAudioRecordingManager(
     if (recorderState.isRecording) {
       const timer = setInterval(() => {
         // Update manual duration
+        let recordingTime = pausedDurationRef.current;
         if (recordingStartTimeRef.current !== null && !isPausedState) {
           const elapsedTime = Date.now() - recordingStartTimeRef.current;
-          setManualDuration(pausedDurationRef.current + elapsedTime);
+          recordingTime += elapsedTime;
+          setManualDuration(recordingTime);
         }
 
-        // If metering is available, use it (convert from dB to 0-1 range)
+        // Only real meter readings are drawn (convert from dB to 0-1 range)
         if (typeof recorderState.metering === "number") {
           const dbValue = recorderState.metering;
           // dB values are typically negative (-60 to 0), normalize to 0-1
           const normalizedValue = Math.max(0, 1.0 + dbValue / 60);
+          meterHistoryRef.current.push(normalizedValue);
           setWaveformData((prev) => {
             const newData = [...prev, normalizedValue];
             return newData.slice(-100); // Keep max 100 points
           });
-        } else {
-          // If metering not available, generate synthetic waveform based on audio activity
-          // Simple oscillating pattern to look like speech
-          const baseValue = 0.3;
-          const randomAmplitude = Math.random() * 0.5;
-          setWaveformData((prev) => {
-            const newData = [...prev, baseValue + randomAmplitude];
-            return newData.slice(-100);
-          });
+
+          if (!isPausedState) {
+            const decision = vadRef.current.process(
+              { energyDb: dbValue },
+              recordingTime,
+            );
+            setIsSpeaking(decision.isSpeech);
+            const { event } = decision;
+            if (event) setSpeechEvents((prev) => [...prev, event]);
+
+            const action = voiceTriggerRef.current?.process(
+              decision,
+              recordingTime,
+            );
+            if (action?.type === "start") {
+              startOffsetRef.current = action.timeMs;
+              setIsArmed(false);
+              // Drop the readings from before the take
+              const keep = Math.ceil(
+                (recordingTime - action.timeMs) / METER_INTERVAL_MS,
+              );
+              meterHistoryRef.current = meterHistoryRef.current.slice(-keep);
+            } else if (action?.type === "stop") {
+              void stopRecordingRef.current();
+            }
+          }
         }
-      }, 100); // Update 10 times per second for smoother visualization
+      }, METER_INTERVAL_MS); // Update 10 times per second for smoother visualization
 
       return () => clearInterval(timer);
     }
   }, [recorderState.isRecording, recorderState.metering, isPausedState]);
 
-  // Derived states
-  const isRecording = Boolean(recorderState.isRecording);
+  // Derived states, an armed recorder is running but not yet part of a take
+  const isRecording = Boolean(recorderState.isRecording) && !isArmed;
   const isPaused = isPausedState;
   const isPlaying = Boolean(playerStatus.playing);
 
@@ -188,9 +256,22 @@ export function useAudioRecordingManager(
       setRecordingData(null);
       setIsPausedState(false);
       setWaveformData([]);
+      meterHistoryRef.current = [];
+      vadRef.current.reset();
+      setIsSpeaking(false);
+      setSpeechEvents([]);
       setManualDuration(0);
       recordingStartTimeRef.current = Date.now();
       pausedDurationRef.current = 0;
+      startOffsetRef.current = 0;
+
+      // Voice-triggered: record from now but only commit once speech starts
+      if (recordingMode === "voice-triggered") {
+        voiceTriggerRef.current = createVoiceTrigger(voiceTriggerConfig);
+        setIsArmed(true);
+      } else {
+        voiceTriggerRef.current = null;
+      }
 
       // Using actual recorder methods from AudioModule.types.ts
       // First prepare to record with options
@@ -203,7 +284,14 @@ export function useAudioRecordingManager(
         setPermissionError(error.message);
       }
     }
-  }, [recorder, options, hasPermission, requestPermission]);
+  }, [
+    recorder,
+    options,
+    hasPermission,
+    requestPermission,
+    recordingMode,
+    voiceTriggerConfig,
+  ]);
 
   const pauseRecording = useCallback(() => {
     if (isRecording) {
@@ -232,43 +320,46 @@ export function useAudioRecordingManager(
   }, [recorder, isPaused]);
 
   const stopRecording = useCallback(async () => {
-    if (isRecording || isPaused) {
+    if (isRecording || isPaused || isArmed) {
       try {
         await recorder.stop();
         const uri = recorder.uri;
         setIsPausedState(false);
+        setIsSpeaking(false);
+        setIsArmed(false);
+        voiceTriggerRef.current = null;
         // Finalize the manual duration
         pausedDurationRef.current = manualDuration;
         recordingStartTimeRef.current = null;
 
-        if (uri) {
-          // Ensure we have at least some waveform data for playback visualization
-          let finalWaveformData = [...waveformData];
-          if (finalWaveformData.length < 50) {
-            // Generate some waveform data if we don't have enough
-            finalWaveformData = Array(50)
-              .fill(0)
-              .map(() => 0.3 + Math.random() * 0.5);
-          }
-
+        // Stopping while still armed cancels: no speech, no take
+        if (uri && !isArmed) {
+          // Playback draws the whole take from the meter levels sampled
+          // while recording
           setRecordingData({
             uri,
-            waveformData: finalWaveformData,
+            waveformData: [...meterHistoryRef.current],
+            startOffsetMs: startOffsetRef.current,
           });
         }
       } catch (error) {
         console.error("Failed to stop recording:", error);
       }
     }
-  }, [recorder, waveformData, isRecording, isPaused, manualDuration]);
+  }, [recorder, isRecording, isPaused, isArmed, manualDuration]);
+  stopRecordingRef.current = stopRecording;
 
   // Playback actions
   const playRecording = useCallback(async () => {
     if (recordingData) {
       try {
-        // If playback finished, seek back to start
-        if (playerStatus.currentTime >= playerStatus.duration) {
-          await player.seekTo(0);
+        // If playback finished (or never started), seek to the take's start
+        const startSec = recordingData.startOffsetMs / 1000;
+        if (
+          playerStatus.currentTime >= playerStatus.duration ||
+          playerStatus.currentTime < startSec
+        ) {
+          await player.seekTo(startSec);
         }
         player.play();
       } catch (error) {
@@ -299,17 +390,31 @@ export function useAudioRecordingManager(
   const resetRecording = useCallback(() => {
     setRecordingData(null);
     setWaveformData([]);
+    meterHistoryRef.current = [];
+    vadRef.current.reset();
+    setIsSpeaking(false);
+    setSpeechEvents([]);
     setManualDuration(0);
     pausedDurationRef.current = 0;
+    startOffsetRef.current = 0;
     recordingStartTimeRef.current = null;
   }, []);
 
+  // Voice trigger settings apply the next time recording is armed
+  const updateVoiceTriggerConfig = useCallback(
+    (update: VoiceTriggerOptions) => {
+      setVoiceTriggerConfig((prev) => ({ ...prev, ...update }));
+    },
+    [],
+  );
+
   // Add seekToPosition function
   const seekToPosition = useCallback(
     async (positionMs: number) => {
       try {
-        // Convert ms to seconds for the player API
-        const positionSec = positionMs / 1000;
+        // Positions are relative to the take, convert to seconds into the file
+        const positionSec =
+          (positionMs + (recordingData?.startOffsetMs ?? 0)) / 1000;
         // Ensure position is within valid range
         const boundedPosition = Math.max(
           0,
@@ -317,42 +422,72 @@ export function useAudioRecordingManager(
         );
 
         await player.seekTo(boundedPosition);
-        setManualPlaybackPosition(positionMs);
+        setManualPlaybackPosition(boundedPosition * 1000);
       } catch (error) {
         console.error("Failed to seek playback:", error);
       }
     },
-    [player, playerStatus.duration],
+    [player, playerStatus.duration, recordingData],
   );
 
-  // Cleanup
+  // Cleanup on unmount only. It reads refs: with state in its deps it would
+  // also run, and stop the take, when the voice trigger clears `isArmed`
+  const recorderRef = useRef(recorder);
+  recorderRef.current = recorder;
+  const isCapturingRef = useRef(false);
+  isCapturingRef.current = isRecording || isPaused || isArmed;
+
   useEffect(() => {
     return () => {
       void (async () => {
-        if (isRecording || isPaused) {
+        if (isCapturingRef.current) {
           try {
-            await recorder.stop();
+            await recorderRef.current.stop();
           } catch (e) {
             console.error("Error cleaning up recorder:", e);
           }
         }
       })();
     };
-  }, [recorder, player, isRecording, isPaused]);
+  }, []);
+
+  const takeOffsetMs = recordingData?.startOffsetMs ?? 0;
 
   return {
     // Recording states
     isRecording,
     isPaused,
-    recordingDuration: recorderState.durationMillis || manualDuration || 0,
+    recordingDuration: Math.max(
+      0,
+      (recorderState.durationMillis || manualDuration || 0) -
+        startOffsetRef.current,
+    ),
     recordingData,
     waveformData,
 
+    // Voice activity
+    isSpeaking,
+    speechEvents,
+
+    // Voice-triggered recording
+    recordingMode,
+    setRecordingMode,
+    isArmed,
+    voiceTriggerConfig,
+    updateVoiceTriggerConfig,
+
     // Playback states
     isPlaying,
-    playbackPosition:
-      manualPlaybackPosition || playerStatus.currentTime * 1000 || 0,
-    playbackDuration: playerStatus.duration * 1000 || 0, // Convert to ms
+    // Playback times are relative to the take, skipping any armed lead-in
+    playbackPosition: Math.max(
+      0,
+      (manualPlaybackPosition || playerStatus.currentTime * 1000 || 0) -
+        takeOffsetMs,
+    ),
+    playbackDuration: Math.max(
+      0,
+      (playerStatus.duration * 1000 || 0) - takeOffsetMs, // Convert to ms
+    ),
 
     // Permission states
     hasPermission,
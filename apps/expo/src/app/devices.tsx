@@ -0,0 +1,121 @@
+import React from "react";
+import { FlatList, Pressable, Text, View } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Stack, useRouter } from "expo-router";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import type { RouterOutputs } from "~/utils/api";
+import { trpc } from "~/utils/api";
+import { deleteToken } from "~/utils/session-store";
+
+type Device = RouterOutputs["device"]["list"][number];
+
+function DeviceRow(props: {
+  device: Device;
+  onRevoke: () => void;
+  isRevoking: boolean;
+}) {
+  const { device } = props;
+  return (
+    <View className="mb-2 flex-row items-center rounded-lg bg-muted p-4">
+      <View className="flex-1">
+        <View className="flex-row items-center">
+          <Text className="font-semibold text-foreground">{device.name}</Text>
+          {device.isCurrent && (
+            <Text className="ml-2 rounded bg-primary px-1.5 text-xs text-white">
+              This device
+            </Text>
+          )}
+        </View>
+        <Text className="mt-1 text-xs text-gray-500">
+          {[
+            device.ipAddress,
+            device.lastSeenAt &&
+              `Last active ${device.lastSeenAt.toLocaleString()}`,
+          ]
+            .filter(Boolean)
+            .join(" · ")}
+        </Text>
+      </View>
+      <Pressable
+        onPress={props.onRevoke}
+        disabled={props.isRevoking}
+        className="rounded-md px-3 py-2"
+      >
+        <Text className="text-sm font-medium text-red-500">Sign out</Text>
+      </Pressable>
+    </View>
+  );
+}
+
+/**
+ * Every session signed in to the account, with a way to sign any of them
+ * out. Signing out this device returns to the home screen signed out.
+ */
+export default function Devices() {
+  const queryClient = useQueryClient();
+  const router = useRouter();
+  const { data: devices, isPending } = useQuery(
+    trpc.device.list.queryOptions(),
+  );
+
+  const revoke = useMutation(
+    trpc.device.revoke.mutationOptions({
+      onSuccess: async (_, { id }) => {
+        if (devices?.find((device) => device.id === id)?.isCurrent) {
+          await deleteToken();
+          await queryClient.invalidateQueries(trpc.pathFilter());
+          router.replace("/");
+          return;
+        }
+        await queryClient.invalidateQueries(trpc.device.pathFilter());
+      },
+    }),
+  );
+  const revokeOthers = useMutation(
+    trpc.device.revokeOthers.mutationOptions({
+      onSuccess: () => queryClient.invalidateQueries(trpc.device.pathFilter()),
+    }),
+  );
+
+  return (
+    <SafeAreaView className="bg-background">
+      <Stack.Screen options={{ title: "Devices" }} />
+      <View className="h-full w-full bg-background p-4">
+        {isPending ? (
+          <Text className="text-center text-gray-500">Loading devices...</Text>
+        ) : (
+          <FlatList
+            data={devices ?? []}
+            keyExtractor={(device) => device.id}
+            renderItem={({ item }) => (
+              <DeviceRow
+                device={item}
+                isRevoking={revoke.isPending}
+                onRevoke={() => revoke.mutate({ id: item.id })}
+              />
+            )}
+            ListEmptyComponent={
+              <Text className="text-center text-gray-500">
+                Sign in to see your devices.
+              </Text>
+            }
+            ListFooterComponent={
+              devices?.some((device) => !device.isCurrent) ? (
+                <Pressable
+                  onPress={() => revokeOthers.mutate()}
+                  disabled={revokeOthers.isPending}
+                  className="mt-2 items-center rounded-md bg-gray-500 py-3"
+                >
+                  <Text className="font-medium text-white">
+                    Sign out all other devices
+                  </Text>
+                </Pressable>
+              ) : null
+            }
+          />
+        )}
+      </View>
+    </SafeAreaView>
+  );
+}
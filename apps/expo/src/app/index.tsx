@@ -1,7 +1,7 @@
 import React from "react";
 import { Text, View } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
-import { Stack } from "expo-router";
+import { Link, Stack } from "expo-router";
 
 import AudioRecording from "./_components/audio-recording";
 
@@ -15,6 +15,12 @@ export default function Index() {
           <Text className="text-primary">LFG</Text>
         </Text>
         <AudioRecording />
+        <Link href="/recordings" className="mt-4 text-center text-primary">
+          Uploaded recordings
+        </Link>
+        <Link href="/devices" className="mt-4 text-center text-primary">
+          Manage devices
+        </Link>
       </View>
     </SafeAreaView>
   );
@@ -0,0 +1,95 @@
+import React, { useCallback } from "react";
+import { Pressable, Text, View } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { useAudioPlayer, useAudioPlayerStatus } from "expo-audio";
+import { Stack, useLocalSearchParams } from "expo-router";
+import { useQuery } from "@tanstack/react-query";
+
+import { TranscriptView } from "~/app/_components/audio/transcript-view";
+import { trpc } from "~/utils/api";
+import { getBaseUrl } from "~/utils/base-url";
+import { formatDuration } from "~/utils/format";
+import { getToken } from "~/utils/session-store";
+
+// Often enough for the highlighted word to keep up with playback
+const STATUS_INTERVAL_MS = 100;
+
+/**
+ * Plays an uploaded recording with its transcript. The word being spoken is
+ * highlighted and tapping a word plays from it.
+ */
+export default function RecordingScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { data: recording } = useQuery(trpc.recording.get.queryOptions({ id }));
+  const { data: transcript, isPending: isTranscriptPending } = useQuery(
+    trpc.transcription.get.queryOptions({ recordingId: id }),
+  );
+
+  // The audio route takes the same Bearer token as the API
+  const token = getToken();
+  const player = useAudioPlayer(
+    {
+      uri: `${getBaseUrl()}/api/recordings/${id}/audio`,
+      headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+    },
+    STATUS_INTERVAL_MS,
+  );
+  const status = useAudioPlayerStatus(player);
+  const positionMs = status.currentTime * 1000;
+
+  const togglePlayback = useCallback(() => {
+    if (status.playing) {
+      player.pause();
+      return;
+    }
+    if (status.didJustFinish || status.currentTime >= status.duration) {
+      void player.seekTo(0);
+    }
+    player.play();
+  }, [player, status]);
+
+  const seekTo = useCallback(
+    async (milliseconds: number) => {
+      await player.seekTo(milliseconds / 1000);
+      if (!status.playing) player.play();
+    },
+    [player, status.playing],
+  );
+
+  return (
+    <SafeAreaView className="bg-background">
+      <Stack.Screen options={{ title: recording?.title ?? "Recording" }} />
+      <View className="h-full w-full bg-background p-4">
+        <View className="mb-4 flex-row items-center justify-between">
+          <Pressable
+            className="h-14 w-24 items-center justify-center rounded-full bg-primary"
+            onPress={togglePlayback}
+            disabled={!status.isLoaded}
+          >
+            <Text className="font-medium text-white">
+              {status.playing ? "Pause" : "Play"}
+            </Text>
+          </Pressable>
+          <Text className="font-mono text-gray-700">
+            {formatDuration(positionMs)} /{" "}
+            {formatDuration(recording?.durationMs ?? status.duration * 1000)}
+          </Text>
+        </View>
+
+        {transcript ? (
+          <TranscriptView
+            segments={transcript.segments}
+            positionMs={positionMs}
+            onSeek={(milliseconds) => void seekTo(milliseconds)}
+          />
+        ) : (
+          <Text className="text-center text-gray-500">
+            {isTranscriptPending
+              ? "Loading transcript..."
+              : "This recording hasn't been transcribed yet."}
+          </Text>
+        )}
+      </View>
+    </SafeAreaView>
+  );
+}
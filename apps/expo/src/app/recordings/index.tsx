@@ -0,0 +1,67 @@
+import React from "react";
+import { FlatList, Pressable, Text, View } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Link, Stack } from "expo-router";
+import { useInfiniteQuery } from "@tanstack/react-query";
+
+import type { RouterOutputs } from "~/utils/api";
+import { trpc } from "~/utils/api";
+import { formatDuration } from "~/utils/format";
+
+type Recording = RouterOutputs["recording"]["list"]["items"][number];
+
+function RecordingRow(props: { recording: Recording }) {
+  const { recording } = props;
+  return (
+    <Link href={`/recordings/${recording.id}`} asChild>
+      <Pressable className="mb-2 rounded-lg bg-muted p-4">
+        <Text className="font-semibold text-foreground">{recording.title}</Text>
+        <Text className="mt-1 text-xs text-gray-500">
+          {formatDuration(recording.durationMs)} ·{" "}
+          {recording.createdAt.toLocaleDateString()}
+        </Text>
+      </Pressable>
+    </Link>
+  );
+}
+
+/**
+ * The signed-in user's uploaded recordings, newest first
+ */
+export default function Recordings() {
+  const { data, isPending, hasNextPage, fetchNextPage, isFetchingNextPage } =
+    useInfiniteQuery(
+      trpc.recording.list.infiniteQueryOptions(
+        { limit: 20 },
+        { getNextPageParam: (page) => page.nextCursor },
+      ),
+    );
+  const recordings = data?.pages.flatMap((page) => page.items) ?? [];
+
+  return (
+    <SafeAreaView className="bg-background">
+      <Stack.Screen options={{ title: "Recordings" }} />
+      <View className="h-full w-full bg-background p-4">
+        {isPending ? (
+          <Text className="text-center text-gray-500">
+            Loading recordings...
+          </Text>
+        ) : (
+          <FlatList
+            data={recordings}
+            keyExtractor={(recording) => recording.id}
+            renderItem={({ item }) => <RecordingRow recording={item} />}
+            onEndReached={() => {
+              if (hasNextPage && !isFetchingNextPage) void fetchNextPage();
+            }}
+            ListEmptyComponent={
+              <Text className="text-center text-gray-500">
+                Sign in to see your recordings.
+              </Text>
+            }
+          />
+        )}
+      </View>
+    </SafeAreaView>
+  );
+}
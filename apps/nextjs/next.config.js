@@ -9,8 +9,11 @@ const config = {
   /** Enables hot reloading for local packages without a build step */
   transpilePackages: [
     "@vibespeak/api",
+    "@vibespeak/audio",
     "@vibespeak/auth",
     "@vibespeak/db",
+    "@vibespeak/logger",
+    "@vibespeak/mail",
     "@vibespeak/ui",
     "@vibespeak/validators",
   ],
@@ -0,0 +1,248 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import {
+  useMutation,
+  useQueryClient,
+  useSuspenseInfiniteQuery,
+} from "@tanstack/react-query";
+
+import type { RouterOutputs } from "@vibespeak/api";
+import { Button } from "@vibespeak/ui/button";
+import { Input } from "@vibespeak/ui/input";
+import { toast } from "@vibespeak/ui/toast";
+
+import { useTRPC } from "~/trpc/react";
+import { formatDuration, RECORDINGS_PAGE_SIZE } from "~/utils/recordings";
+
+type RecordingItem = RouterOutputs["recording"]["list"]["items"][number];
+
+/**
+ * The signed-in user's recordings, newest first. The next page loads when
+ * the end of the list scrolls into view.
+ */
+export function RecordingList() {
+  const trpc = useTRPC();
+  const { data, hasNextPage, isFetchingNextPage, fetchNextPage } =
+    useSuspenseInfiniteQuery(
+      trpc.recording.list.infiniteQueryOptions(
+        { limit: RECORDINGS_PAGE_SIZE },
+        { getNextPageParam: (lastPage) => lastPage.nextCursor },
+      ),
+    );
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasNextPage) return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (entry?.isIntersecting && !isFetchingNextPage) {
+          void fetchNextPage();
+        }
+      },
+      { rootMargin: "200px" },
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const recordings = data.pages.flatMap((page) => page.items);
+  if (recordings.length === 0) {
+    return (
+      <div className="flex flex-col items-center gap-2 py-16 text-center">
+        <p className="text-lg font-medium">No recordings yet</p>
+        <p className="text-sm text-muted-foreground">
+          Recordings made in the app show up here.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex w-full flex-col gap-4">
+      {recordings.map((recording) => (
+        <RecordingCard key={recording.id} recording={recording} />
+      ))}
+      <div ref={sentinelRef} />
+      {isFetchingNextPage && <RecordingCardSkeleton />}
+    </div>
+  );
+}
+
+function WaveformThumbnail(props: { bars: number[] }) {
+  return (
+    <div className="flex h-12 w-40 shrink-0 items-center gap-px">
+      {props.bars.length > 0 ? (
+        props.bars.map((amplitude, i) => (
+          <div
+            key={i}
+            className="flex-1 rounded-sm bg-primary/70"
+            style={{ height: `${Math.max(6, amplitude * 100)}%` }}
+          />
+        ))
+      ) : (
+        <div className="h-px w-full bg-muted-foreground/30" />
+      )}
+    </div>
+  );
+}
+
+function RecordingCard(props: { recording: RecordingItem }) {
+  const { recording } = props;
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+
+  const updateRecording = useMutation(
+    trpc.recording.update.mutationOptions({
+      onSuccess: async () => {
+        setIsRenaming(false);
+        await queryClient.invalidateQueries(trpc.recording.pathFilter());
+      },
+      onError: () => toast.error("Failed to rename recording"),
+    }),
+  );
+  const deleteRecording = useMutation(
+    trpc.recording.delete.mutationOptions({
+      onSuccess: async () => {
+        await queryClient.invalidateQueries(trpc.recording.pathFilter());
+      },
+      onError: () => {
+        setIsConfirmingDelete(false);
+        toast.error("Failed to delete recording");
+      },
+    }),
+  );
+
+  const rename = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const title = new FormData(event.currentTarget).get("title");
+    if (typeof title !== "string" || !title.trim()) return;
+    if (title.trim() === recording.title) {
+      setIsRenaming(false);
+      return;
+    }
+    updateRecording.mutate({ id: recording.id, title: title.trim() });
+  };
+
+  return (
+    <div className="flex flex-row items-center gap-4 rounded-lg bg-muted p-4">
+      <WaveformThumbnail bars={recording.thumbnail} />
+
+      <div className="flex min-w-0 flex-grow flex-col gap-1">
+        {isRenaming ? (
+          <form onSubmit={rename} className="flex gap-2">
+            <Input
+              name="title"
+              defaultValue={recording.title}
+              maxLength={255}
+              autoFocus
+              onKeyDown={(event) => {
+                if (event.key === "Escape") setIsRenaming(false);
+              }}
+            />
+            <Button
+              type="submit"
+              size="sm"
+              disabled={updateRecording.isPending}
+            >
+              Save
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              onClick={() => setIsRenaming(false)}
+            >
+              Cancel
+            </Button>
+          </form>
+        ) : (
+          <Link
+            href={`/recordings/${recording.id}`}
+            className="truncate text-lg font-semibold hover:underline"
+          >
+            {recording.title}
+          </Link>
+        )}
+        <p className="text-xs text-muted-foreground">
+          {formatDuration(recording.durationMs)} ·{" "}
+          {recording.createdAt.toLocaleDateString()}
+        </p>
+        {recording.transcriptPreview && (
+          <p className="line-clamp-2 text-sm text-muted-foreground">
+            {recording.transcriptPreview}
+          </p>
+        )}
+      </div>
+
+      <div className="flex shrink-0 gap-2">
+        {isConfirmingDelete ? (
+          <>
+            <Button
+              size="sm"
+              variant="destructive"
+              disabled={deleteRecording.isPending}
+              onClick={() => deleteRecording.mutate({ id: recording.id })}
+            >
+              Delete
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => setIsConfirmingDelete(false)}
+            >
+              Keep
+            </Button>
+          </>
+        ) : (
+          <>
+            <Button
+              size="sm"
+              variant="ghost"
+              disabled={isRenaming}
+              onClick={() => setIsRenaming(true)}
+            >
+              Rename
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="text-destructive"
+              onClick={() => setIsConfirmingDelete(true)}
+            >
+              Delete
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function RecordingCardSkeleton() {
+  return (
+    <div className="flex flex-row items-center gap-4 rounded-lg bg-muted p-4">
+      <div className="h-12 w-40 shrink-0 animate-pulse rounded bg-muted-foreground/20" />
+      <div className="flex flex-grow flex-col gap-2">
+        <div className="h-5 w-1/3 animate-pulse rounded bg-muted-foreground/20" />
+        <div className="h-3 w-1/5 animate-pulse rounded bg-muted-foreground/20" />
+        <div className="h-3 w-2/3 animate-pulse rounded bg-muted-foreground/20" />
+      </div>
+    </div>
+  );
+}
+
+export function RecordingListSkeleton() {
+  return (
+    <div className="flex w-full flex-col gap-4">
+      <RecordingCardSkeleton />
+      <RecordingCardSkeleton />
+      <RecordingCardSkeleton />
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+"use client";
+
+import { Fragment, useMemo } from "react";
+
+import type { TranscriptSegment } from "@vibespeak/audio";
+import { findWordAt } from "@vibespeak/audio";
+import { cn } from "@vibespeak/ui";
+
+import { formatDuration } from "~/utils/recordings";
+
+// Words below this confidence are underlined so they can be double-checked
+const LOW_CONFIDENCE = 0.6;
+
+/**
+ * Transcript with the word under the playhead highlighted. Clicking a word
+ * or a segment's timestamp seeks playback to it.
+ */
+export function TranscriptView(props: {
+  segments: TranscriptSegment[];
+  positionMs: number;
+  onSeek: (positionMs: number) => void;
+}) {
+  const { segments, positionMs, onSeek } = props;
+  const active = useMemo(
+    () => findWordAt(segments, positionMs),
+    [segments, positionMs],
+  );
+
+  return (
+    <div className="flex flex-col gap-2">
+      {segments.map((segment, segmentIndex) => (
+        <p key={`${segment.startMs}-${segmentIndex}`} className="text-sm">
+          <button
+            type="button"
+            onClick={() => onSeek(segment.startMs)}
+            className="mr-2 font-mono text-xs text-muted-foreground hover:underline"
+          >
+            {formatDuration(segment.startMs)}
+          </button>
+          {segment.words.map((word, wordIndex) => (
+            <Fragment key={wordIndex}>
+              <span
+                role="button"
+                tabIndex={0}
+                onClick={() => onSeek(word.startMs)}
+                onKeyDown={(event) => {
+                  if (event.key === "Enter") onSeek(word.startMs);
+                }}
+                className={cn(
+                  "cursor-pointer rounded px-0.5 hover:bg-muted",
+                  word.confidence < LOW_CONFIDENCE &&
+                    "underline decoration-dotted",
+                  active?.segmentIndex === segmentIndex &&
+                    active.wordIndex === wordIndex &&
+                    "bg-primary text-primary-foreground hover:bg-primary",
+                )}
+              >
+                {word.text}
+              </span>{" "}
+            </Fragment>
+          ))}
+        </p>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+
+import type { TranscriptSegment } from "@vibespeak/audio";
+import { cn } from "@vibespeak/ui";
+import { Button } from "@vibespeak/ui/button";
+
+import { TranscriptView } from "./transcript-view";
+
+const formatTime = (milliseconds: number) => {
+  const totalSeconds = Math.floor(milliseconds / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+};
+
+/**
+ * Plays a recording over its stored waveform; clicking the waveform seeks.
+ * `src` is an audio route that does its own access checks and serves the
+ * file as an attachment with `?download`. `compact` fits the player on one
+ * row for embeds. A `transcript` is shown below the player, following the
+ * playhead and seeking from its words.
+ */
+export function WaveformPlayer(props: {
+  src: string;
+  bars: number[];
+  durationMs: number;
+  allowDownload: boolean;
+  compact?: boolean;
+  transcript?: TranscriptSegment[];
+}) {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [positionMs, setPositionMs] = useState(0);
+
+  // Follow the playhead every frame while playing
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    let frame = 0;
+    const tick = () => {
+      const audio = audioRef.current;
+      if (audio) setPositionMs(audio.currentTime * 1000);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying]);
+
+  const progress =
+    props.durationMs > 0 ? Math.min(1, positionMs / props.durationMs) : 0;
+
+  const seekTo = (milliseconds: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = milliseconds / 1000;
+    setPositionMs(milliseconds);
+  };
+
+  const seek = (event: React.MouseEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const fraction = Math.max(
+      0,
+      Math.min(1, (event.clientX - rect.left) / rect.width),
+    );
+    seekTo(fraction * props.durationMs);
+  };
+
+  const togglePlayback = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) void audio.play();
+    else audio.pause();
+  };
+
+  const waveform = (
+    <div
+      role="slider"
+      aria-label="Seek"
+      aria-valuemin={0}
+      aria-valuemax={props.durationMs}
+      aria-valuenow={Math.round(positionMs)}
+      tabIndex={0}
+      onClick={seek}
+      className={cn(
+        "flex w-full cursor-pointer items-center gap-px",
+        props.compact ? "h-12" : "h-24",
+      )}
+    >
+      {props.bars.map((amplitude, i) => (
+        <div
+          key={i}
+          className={
+            i / props.bars.length < progress
+              ? "flex-1 rounded-sm bg-primary"
+              : "flex-1 rounded-sm bg-muted-foreground/30"
+          }
+          style={{ height: `${Math.max(4, amplitude * 100)}%` }}
+        />
+      ))}
+    </div>
+  );
+  const time = (
+    <span className="shrink-0 font-mono text-sm text-muted-foreground">
+      {formatTime(positionMs)} / {formatTime(props.durationMs)}
+    </span>
+  );
+
+  return (
+    <div
+      className={cn(
+        "flex w-full",
+        props.compact ? "flex-row items-center gap-3" : "flex-col gap-4",
+      )}
+    >
+      <audio
+        ref={audioRef}
+        src={props.src}
+        preload="metadata"
+        controlsList={props.allowDownload ? undefined : "nodownload"}
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => setIsPlaying(false)}
+        onEnded={() => {
+          setIsPlaying(false);
+          setPositionMs(0);
+        }}
+      />
+
+      {props.compact ? (
+        <>
+          <Button size="sm" onClick={togglePlayback}>
+            {isPlaying ? "Pause" : "Play"}
+          </Button>
+          {waveform}
+          {time}
+        </>
+      ) : (
+        <>
+          {waveform}
+          <div className="flex items-center justify-between">
+            <Button onClick={togglePlayback}>
+              {isPlaying ? "Pause" : "Play"}
+            </Button>
+            {time}
+            {props.allowDownload && (
+              <Button variant="outline" asChild>
+                <a href={`${props.src}?download`}>Download</a>
+              </Button>
+            )}
+          </div>
+          {props.transcript && (
+            <section className="flex flex-col gap-2">
+              <h2 className="text-lg font-semibold">Transcript</h2>
+              <TranscriptView
+                segments={props.transcript}
+                positionMs={positionMs}
+                onSeek={seekTo}
+              />
+            </section>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import type { NextRequest } from "next/server";
+import { TRPCError } from "@trpc/server";
+
+import { caller } from "~/trpc/server";
+import {
+  EMBED_HEIGHT,
+  EMBED_WIDTH,
+  embedIframeHtml,
+  getRequestOrigin,
+  PROVIDER_NAME,
+} from "~/utils/embed";
+
+// Share and embed URLs both resolve to the share
+const SHARE_PATH = /^\/(?:s|embed)\/([\w-]{1,32})\/?$/;
+
+const setCorsHeaders = (res: Response) => {
+  res.headers.set("Access-Control-Allow-Origin", "*");
+  res.headers.set("Access-Control-Allow-Methods", "OPTIONS, GET");
+};
+
+const errorResponse = (status: number, message: string) => {
+  const response = new Response(message, { status });
+  setCorsHeaders(response);
+  return response;
+};
+
+const parseDimension = (value: string | null) => {
+  const number = Number(value);
+  return value && Number.isInteger(number) && number > 0 ? number : null;
+};
+
+/**
+ * oEmbed provider for share links, e.g.
+ * `GET /api/oembed?url=https://host/s/<slug>&maxwidth=400`.
+ * Unknown, revoked and expired links are 404 like the share page itself.
+ */
+export const GET = async (req: NextRequest) => {
+  const params = req.nextUrl.searchParams;
+  if ((params.get("format") ?? "json") !== "json") {
+    return errorResponse(501, "Only the json format is supported");
+  }
+
+  const origin = await getRequestOrigin();
+  const url = URL.canParse(params.get("url") ?? "")
+    ? new URL(params.get("url")!)
+    : null;
+  const slug =
+    url?.host === new URL(origin).host
+      ? SHARE_PATH.exec(url.pathname)?.[1]
+      : undefined;
+  if (!slug) return errorResponse(404, "Not found");
+
+  const preview = await caller.share
+    .preview({ slug })
+    .catch((error: unknown) => {
+      if (error instanceof TRPCError && error.code === "NOT_FOUND") return null;
+      throw error;
+    });
+  if (!preview) return errorResponse(404, "Not found");
+
+  const width = Math.min(
+    EMBED_WIDTH,
+    parseDimension(params.get("maxwidth")) ?? EMBED_WIDTH,
+  );
+  const height = Math.min(
+    EMBED_HEIGHT,
+    parseDimension(params.get("maxheight")) ?? EMBED_HEIGHT,
+  );
+  const title = preview.isLocked
+    ? "Password protected recording"
+    : preview.title;
+
+  const response = Response.json({
+    version: "1.0",
+    type: "rich",
+    provider_name: PROVIDER_NAME,
+    provider_url: origin,
+    title,
+    html: embedIframeHtml({ origin, slug, title, width, height }),
+    width,
+    height,
+    cache_age: 3600,
+  });
+  setCorsHeaders(response);
+  return response;
+};
@@ -0,0 +1,17 @@
+import type { NextRequest } from "next/server";
+
+import { recordingAudioHandler } from "@vibespeak/api";
+import { auth, validateToken } from "@vibespeak/auth";
+
+export const GET = async (
+  req: NextRequest,
+  props: { params: Promise<{ recordingId: string }> },
+) => {
+  const { recordingId } = await props.params;
+  // The Expo player sends its session token, the dashboard the cookie
+  const authorization = req.headers.get("Authorization");
+  const session = authorization
+    ? await validateToken(authorization)
+    : await auth();
+  return recordingAudioHandler({ req, session, recordingId });
+};
@@ -1,6 +1,6 @@
 import { fetchRequestHandler } from "@trpc/server/adapters/fetch";
 
-import { appRouter, createTRPCContext } from "@vibespeak/api";
+import { appRouter, createTRPCContext, logger } from "@vibespeak/api";
 import { auth } from "@vibespeak/auth";
 
 /**
@@ -32,9 +32,14 @@ const handler = auth(async (req) => {
         session: req.auth,
         headers: req.headers,
       }),
-    onError({ error, path }) {
-      console.error(`>>> tRPC Error on '${path}'`, error);
+    // Every call is logged by the API with its error code; this adds the stack of unexpected ones
+    onError({ error, path, ctx }) {
+      if (error.code !== "INTERNAL_SERVER_ERROR") return;
+      (ctx?.log ?? logger).error("tRPC error", { path, error });
     },
+    responseMeta: ({ ctx }) => ({
+      headers: ctx ? { "x-request-id": ctx.requestId } : {},
+    }),
   });
 
   setCorsHeaders(response);
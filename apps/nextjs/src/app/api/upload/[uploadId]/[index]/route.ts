@@ -0,0 +1,39 @@
+import type { NextRequest } from "next/server";
+
+import { uploadChunkHandler } from "@vibespeak/api";
+import { auth } from "@vibespeak/auth";
+
+/**
+ * Same CORS policy as the tRPC handler, chunks are sent by the Expo app too
+ */
+const setCorsHeaders = (res: Response) => {
+  res.headers.set("Access-Control-Allow-Origin", "*");
+  res.headers.set("Access-Control-Request-Method", "*");
+  res.headers.set("Access-Control-Allow-Methods", "OPTIONS, PUT");
+  res.headers.set("Access-Control-Allow-Headers", "*");
+};
+
+export const OPTIONS = () => {
+  const response = new Response(null, {
+    status: 204,
+  });
+  setCorsHeaders(response);
+  return response;
+};
+
+export const PUT = async (
+  req: NextRequest,
+  props: { params: Promise<{ uploadId: string; index: string }> },
+) => {
+  const { uploadId, index } = await props.params;
+
+  const response = await uploadChunkHandler({
+    req,
+    session: await auth(),
+    uploadId,
+    index,
+  });
+
+  setCorsHeaders(response);
+  return response;
+};
@@ -0,0 +1,59 @@
+import type { Metadata } from "next";
+import { cookies } from "next/headers";
+import { notFound } from "next/navigation";
+import { TRPCError } from "@trpc/server";
+
+import { shareCookieName } from "@vibespeak/api";
+
+import { WaveformPlayer } from "~/app/_components/waveform-player";
+import { caller } from "~/trpc/server";
+
+export const metadata: Metadata = {
+  title: "Shared recording",
+  robots: { index: false, follow: false },
+};
+
+/**
+ * Compact player for iframes. Password protected links can't be unlocked
+ * inside a third-party frame, so they link out to the share page instead.
+ */
+export default async function EmbedPage(props: {
+  params: Promise<{ slug: string }>;
+}) {
+  const { slug } = await props.params;
+  const accessToken = (await cookies()).get(shareCookieName(slug))?.value;
+
+  const share = await caller.share
+    .view({ slug, accessToken })
+    .catch((error: unknown) => {
+      if (error instanceof TRPCError && error.code === "NOT_FOUND") notFound();
+      throw error;
+    });
+
+  // Right padding leaves room for the theme toggle from the root layout
+  return (
+    <main className="flex h-screen w-full items-center pl-3 pr-16">
+      {share.status === "locked" ? (
+        <a
+          href={`/s/${slug}`}
+          target="_blank"
+          rel="noreferrer"
+          className="text-sm text-primary underline-offset-4 hover:underline"
+        >
+          Password protected recording, open to listen
+        </a>
+      ) : (
+        <div className="flex w-full flex-col gap-1">
+          <p className="truncate text-xs font-medium">{share.title}</p>
+          <WaveformPlayer
+            src={`/s/${slug}/audio`}
+            bars={share.bars}
+            durationMs={share.durationMs}
+            allowDownload={share.allowDownload}
+            compact
+          />
+        </div>
+      )}
+    </main>
+  );
+}
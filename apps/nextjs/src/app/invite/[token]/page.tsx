@@ -0,0 +1,72 @@
+import type { Metadata } from "next";
+import { redirect } from "next/navigation";
+import { TRPCError } from "@trpc/server";
+
+import { auth, signIn } from "@vibespeak/auth";
+import { Button } from "@vibespeak/ui/button";
+
+import { caller } from "~/trpc/server";
+
+export const metadata: Metadata = {
+  title: "Workspace invitation",
+  robots: { index: false },
+};
+
+export default async function InvitePage(props: {
+  params: Promise<{ token: string }>;
+  searchParams: Promise<{ error?: string }>;
+}) {
+  const session = await auth();
+  const { token } = await props.params;
+  const { error } = await props.searchParams;
+
+  return (
+    <main className="container flex h-screen max-w-md flex-col items-center justify-center gap-6 py-16 text-center">
+      <h1 className="text-3xl font-bold tracking-tight">
+        You're invited to a workspace
+      </h1>
+      {session ? (
+        <p className="text-muted-foreground">
+          Accept to see and work on the workspace's recordings as{" "}
+          {session.user.email}.
+        </p>
+      ) : (
+        <p className="text-muted-foreground">
+          Sign in with the email address the invitation was sent to.
+        </p>
+      )}
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      <form>
+        {session ? (
+          <Button
+            size="lg"
+            formAction={async () => {
+              "use server";
+              try {
+                await caller.workspace.acceptInvitation({ token });
+              } catch (error) {
+                if (!(error instanceof TRPCError)) throw error;
+                redirect(
+                  `/invite/${token}?error=${encodeURIComponent(error.message)}`,
+                );
+              }
+              redirect("/");
+            }}
+          >
+            Accept invitation
+          </Button>
+        ) : (
+          <Button
+            size="lg"
+            formAction={async () => {
+              "use server";
+              await signIn(undefined, { redirectTo: `/invite/${token}` });
+            }}
+          >
+            Sign in
+          </Button>
+        )}
+      </form>
+    </main>
+  );
+}
@@ -1,16 +1,78 @@
-import { HydrateClient } from "~/trpc/server";
+import { Suspense } from "react";
+import Link from "next/link";
 
-export default function HomePage() {
+import { auth, signIn, signOut } from "@vibespeak/auth";
+import { Button } from "@vibespeak/ui/button";
+
+import { HydrateClient, prefetch, trpc } from "~/trpc/server";
+import { RECORDINGS_PAGE_SIZE } from "~/utils/recordings";
+import {
+  RecordingList,
+  RecordingListSkeleton,
+} from "./_components/recording-list";
+
+function Landing() {
   return (
-    <HydrateClient>
-      <main className="container h-screen py-16">
-        <div className="flex flex-col items-center justify-center gap-4">
-          <h1 className="text-5xl font-extrabold tracking-tight sm:text-[5rem]">
-            Create <span className="text-primary">T3</span> Turbo
-          </h1>
+    <main className="container flex h-screen flex-col items-center justify-center gap-6 py-16">
+      <h1 className="text-5xl font-extrabold tracking-tight sm:text-[5rem]">
+        Vibe<span className="text-primary">Speak</span>
+      </h1>
+      <p className="max-w-md text-center text-lg text-muted-foreground">
+        Record, transcribe and share your voice notes. Sign in to see your
+        recordings.
+      </p>
+      <form>
+        <Button
+          size="lg"
+          formAction={async () => {
+            "use server";
+            await signIn();
+          }}
+        >
+          Sign in
+        </Button>
+      </form>
+    </main>
+  );
+}
+
+export default async function HomePage() {
+  const session = await auth();
+  if (!session) return <Landing />;
 
-          <div className="w-full max-w-2xl overflow-y-scroll">TOOD</div>
+  prefetch(
+    trpc.recording.list.infiniteQueryOptions({ limit: RECORDINGS_PAGE_SIZE }),
+  );
+
+  return (
+    <HydrateClient>
+      <main className="container flex flex-col gap-8 py-16">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Recordings</h1>
+            <p className="text-sm text-muted-foreground">
+              Signed in as {session.user.name ?? session.user.email}
+            </p>
+          </div>
+          <form className="flex gap-2">
+            <Button variant="ghost" asChild>
+              <Link href="/settings">Settings</Link>
+            </Button>
+            <Button
+              variant="outline"
+              formAction={async () => {
+                "use server";
+                await signOut();
+              }}
+            >
+              Sign out
+            </Button>
+          </form>
         </div>
+
+        <Suspense fallback={<RecordingListSkeleton />}>
+          <RecordingList />
+        </Suspense>
       </main>
     </HydrateClient>
   );
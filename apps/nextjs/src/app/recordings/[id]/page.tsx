@@ -0,0 +1,90 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound, redirect } from "next/navigation";
+import { TRPCError } from "@trpc/server";
+
+import { peaksToBars } from "@vibespeak/audio";
+import { auth } from "@vibespeak/auth";
+
+import { WaveformPlayer } from "~/app/_components/waveform-player";
+import { caller } from "~/trpc/server";
+import { formatDuration, recordingAudioUrl } from "~/utils/recordings";
+
+const WAVEFORM_BARS = 200;
+
+export const metadata: Metadata = {
+  title: "Recording",
+};
+
+export default async function RecordingPage(props: {
+  params: Promise<{ id: string }>;
+}) {
+  const session = await auth();
+  if (!session) redirect("/");
+
+  const { id } = await props.params;
+  // Malformed ids fail validation, treat them like unknown ones
+  const recording = await caller.recording
+    .get({ id })
+    .catch((error: unknown) => {
+      if (
+        error instanceof TRPCError &&
+        (error.code === "NOT_FOUND" || error.code === "BAD_REQUEST")
+      ) {
+        notFound();
+      }
+      throw error;
+    });
+
+  const [waveform, transcript] = await Promise.all([
+    caller.recording.waveform({ id, peaks: WAVEFORM_BARS }),
+    caller.transcription.get({ recordingId: id }),
+  ]);
+  const bars = waveform
+    ? peaksToBars(
+        {
+          sampleRate: waveform.sampleRate,
+          length: waveform.length,
+          levels: [waveform.level],
+        },
+        WAVEFORM_BARS,
+      )
+    : [];
+
+  return (
+    <main className="container flex max-w-3xl flex-col gap-8 py-16">
+      <Link href="/" className="text-sm text-muted-foreground hover:underline">
+        ← All recordings
+      </Link>
+
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">{recording.title}</h1>
+        <p className="text-sm text-muted-foreground">
+          {formatDuration(recording.durationMs)} · Recorded{" "}
+          {recording.createdAt.toLocaleDateString()}
+        </p>
+      </div>
+
+      {recording.notes && (
+        <section className="flex flex-col gap-2">
+          <h2 className="text-lg font-semibold">Notes</h2>
+          <p className="whitespace-pre-wrap text-sm">{recording.notes}</p>
+        </section>
+      )}
+
+      <WaveformPlayer
+        src={recordingAudioUrl(recording.id)}
+        bars={bars}
+        durationMs={recording.durationMs}
+        allowDownload
+        transcript={transcript?.segments}
+      />
+
+      {!transcript && (
+        <p className="text-sm text-muted-foreground">
+          This recording hasn't been transcribed yet.
+        </p>
+      )}
+    </main>
+  );
+}
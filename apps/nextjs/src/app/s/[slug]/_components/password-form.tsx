@@ -0,0 +1,34 @@
+"use client";
+
+import { useActionState } from "react";
+
+import { Button } from "@vibespeak/ui/button";
+import { Input } from "@vibespeak/ui/input";
+
+import { unlockShare } from "../actions";
+
+export function PasswordForm(props: { slug: string }) {
+  const [state, formAction, isPending] = useActionState(
+    unlockShare.bind(null, props.slug),
+    { error: null },
+  );
+
+  return (
+    <form action={formAction} className="flex w-full max-w-sm flex-col gap-3">
+      <p className="text-sm text-muted-foreground">
+        This recording is password protected.
+      </p>
+      <Input
+        type="password"
+        name="password"
+        placeholder="Password"
+        autoComplete="off"
+        required
+      />
+      {state.error && <p className="text-sm text-destructive">{state.error}</p>}
+      <Button type="submit" disabled={isPending}>
+        {isPending ? "Checking..." : "Open recording"}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,49 @@
+"use server";
+
+import { cookies } from "next/headers";
+import { TRPCError } from "@trpc/server";
+
+import { shareCookieName } from "@vibespeak/api";
+
+import { env } from "~/env";
+import { caller } from "~/trpc/server";
+
+export interface UnlockShareState {
+  error: string | null;
+}
+
+/**
+ * Checks the password of a share link and, when it matches, stores the
+ * access token in a cookie scoped to the link so the page and its audio
+ * route open without asking again.
+ */
+export async function unlockShare(
+  slug: string,
+  _state: UnlockShareState,
+  formData: FormData,
+): Promise<UnlockShareState> {
+  const password = formData.get("password");
+  if (typeof password !== "string" || password.length === 0) {
+    return { error: "Enter the password" };
+  }
+
+  try {
+    const { accessToken } = await caller.share.unlock({ slug, password });
+    (await cookies()).set(shareCookieName(slug), accessToken, {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: env.NODE_ENV === "production",
+      path: `/s/${slug}`,
+      maxAge: 60 * 60 * 24 * 7,
+    });
+    return { error: null };
+  } catch (error) {
+    if (error instanceof TRPCError && error.code === "UNAUTHORIZED") {
+      return { error: "Wrong password" };
+    }
+    if (error instanceof TRPCError && error.code === "NOT_FOUND") {
+      return { error: "This link is no longer available" };
+    }
+    throw error;
+  }
+}
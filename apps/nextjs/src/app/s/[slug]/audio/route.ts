@@ -0,0 +1,11 @@
+import type { NextRequest } from "next/server";
+
+import { shareAudioHandler } from "@vibespeak/api";
+
+export const GET = async (
+  req: NextRequest,
+  props: { params: Promise<{ slug: string }> },
+) => {
+  const { slug } = await props.params;
+  return shareAudioHandler({ req, slug });
+};
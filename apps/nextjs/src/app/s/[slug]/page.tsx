@@ -0,0 +1,113 @@
+import type { Metadata } from "next";
+import { cookies } from "next/headers";
+import { notFound } from "next/navigation";
+import { TRPCError } from "@trpc/server";
+
+import { shareCookieName } from "@vibespeak/api";
+
+import { WaveformPlayer } from "~/app/_components/waveform-player";
+import { caller } from "~/trpc/server";
+import {
+  EMBED_HEIGHT,
+  EMBED_WIDTH,
+  embedUrl,
+  getRequestOrigin,
+  shareUrl,
+} from "~/utils/embed";
+import { PasswordForm } from "./_components/password-form";
+
+/**
+ * Tags for link unfurling: Open Graph audio, a Twitter player card and oEmbed
+ * discovery. Password protected links don't reveal their title or audio.
+ */
+export async function generateMetadata(props: {
+  params: Promise<{ slug: string }>;
+}): Promise<Metadata> {
+  const { slug } = await props.params;
+  const origin = await getRequestOrigin();
+  const url = shareUrl(origin, slug);
+
+  const preview = await caller.share
+    .preview({ slug })
+    .catch((error: unknown) => {
+      if (error instanceof TRPCError && error.code === "NOT_FOUND") return null;
+      throw error;
+    });
+
+  const title =
+    preview && !preview.isLocked ? preview.title : "Shared recording";
+  const oembedUrl = `${origin}/api/oembed?${new URLSearchParams({ url, format: "json" })}`;
+
+  return {
+    title,
+    // Links are unlisted, keep them out of search engines
+    robots: { index: false, follow: false },
+    ...(preview && {
+      alternates: {
+        types: { "application/json+oembed": oembedUrl },
+      },
+      openGraph: {
+        type: "music.song",
+        url,
+        title,
+        ...(!preview.isLocked && {
+          audio: [{ url: `${url}/audio`, type: preview.mimeType }],
+          duration: Math.round(preview.durationMs / 1000),
+        }),
+      },
+      // Locked links can't play inline, they get a plain card instead
+      twitter: preview.isLocked
+        ? { card: "summary", title }
+        : {
+            card: "player",
+            title,
+            players: [
+              {
+                playerUrl: embedUrl(origin, slug),
+                streamUrl: `${url}/audio`,
+                width: EMBED_WIDTH,
+                height: EMBED_HEIGHT,
+              },
+            ],
+          },
+    }),
+  };
+}
+
+export default async function SharePage(props: {
+  params: Promise<{ slug: string }>;
+}) {
+  const { slug } = await props.params;
+  const accessToken = (await cookies()).get(shareCookieName(slug))?.value;
+
+  // Revoked, expired and unknown links all end up here as NOT_FOUND
+  const share = await caller.share
+    .view({ slug, accessToken })
+    .catch((error: unknown) => {
+      if (error instanceof TRPCError && error.code === "NOT_FOUND") notFound();
+      throw error;
+    });
+
+  return (
+    <main className="container flex min-h-screen flex-col items-center justify-center gap-6 py-16">
+      {share.status === "locked" ? (
+        <PasswordForm slug={slug} />
+      ) : (
+        <div className="flex w-full max-w-2xl flex-col gap-6">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">{share.title}</h1>
+            <p className="text-sm text-muted-foreground">
+              Recorded {share.createdAt.toLocaleDateString()}
+            </p>
+          </div>
+          <WaveformPlayer
+            src={`/s/${slug}/audio`}
+            bars={share.bars}
+            durationMs={share.durationMs}
+            allowDownload={share.allowDownload}
+          />
+        </div>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,119 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import {
+  useMutation,
+  useQueryClient,
+  useSuspenseQuery,
+} from "@tanstack/react-query";
+
+import type { RouterOutputs } from "@vibespeak/api";
+import { Badge } from "@vibespeak/ui/badge";
+import { Button } from "@vibespeak/ui/button";
+import { toast } from "@vibespeak/ui/toast";
+
+import { useTRPC } from "~/trpc/react";
+
+type Device = RouterOutputs["device"]["list"][number];
+
+export function DeviceList() {
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+  const { data: devices } = useSuspenseQuery(trpc.device.list.queryOptions());
+
+  const revokeOthers = useMutation(
+    trpc.device.revokeOthers.mutationOptions({
+      onSuccess: async ({ count }) => {
+        toast.success(
+          count === 1 ? "Signed out 1 device" : `Signed out ${count} devices`,
+        );
+        await queryClient.invalidateQueries(trpc.device.pathFilter());
+      },
+      onError: () => toast.error("Failed to sign out other devices"),
+    }),
+  );
+
+  const hasOthers = devices.some((device) => !device.isCurrent);
+
+  return (
+    <div className="flex flex-col gap-4">
+      {devices.map((device) => (
+        <DeviceCard key={device.id} device={device} />
+      ))}
+      {hasOthers && (
+        <Button
+          variant="outline"
+          className="self-start"
+          disabled={revokeOthers.isPending}
+          onClick={() => revokeOthers.mutate()}
+        >
+          Sign out all other devices
+        </Button>
+      )}
+    </div>
+  );
+}
+
+function DeviceCard(props: { device: Device }) {
+  const { device } = props;
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+  const router = useRouter();
+
+  const revoke = useMutation(
+    trpc.device.revoke.mutationOptions({
+      onSuccess: async () => {
+        // Revoking this browser's own session signs it out
+        if (device.isCurrent) {
+          router.refresh();
+          return;
+        }
+        await queryClient.invalidateQueries(trpc.device.pathFilter());
+      },
+      onError: () => toast.error("Failed to sign out device"),
+    }),
+  );
+
+  return (
+    <div className="flex flex-row items-center gap-4 rounded-lg bg-muted p-4">
+      <div className="flex min-w-0 flex-grow flex-col gap-1">
+        <div className="flex items-center gap-2 font-semibold">
+          {device.name}
+          {device.isCurrent && <Badge variant="secondary">This device</Badge>}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {[
+            device.ipAddress,
+            device.lastSeenAt &&
+              `Last active ${device.lastSeenAt.toLocaleString()}`,
+            `Signed in ${device.createdAt.toLocaleDateString()}`,
+          ]
+            .filter(Boolean)
+            .join(" · ")}
+        </p>
+      </div>
+      <Button
+        size="sm"
+        variant="ghost"
+        className="text-destructive"
+        disabled={revoke.isPending}
+        onClick={() => revoke.mutate({ id: device.id })}
+      >
+        Sign out
+      </Button>
+    </div>
+  );
+}
+
+export function DeviceListSkeleton() {
+  return (
+    <div className="flex flex-col gap-4">
+      {[0, 1].map((i) => (
+        <div key={i} className="flex flex-col gap-2 rounded-lg bg-muted p-4">
+          <div className="h-5 w-1/3 animate-pulse rounded bg-muted-foreground/20" />
+          <div className="h-3 w-1/2 animate-pulse rounded bg-muted-foreground/20" />
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+"use client";
+
+import { useSuspenseQuery } from "@tanstack/react-query";
+
+import { cn } from "@vibespeak/ui";
+
+import { useTRPC } from "~/trpc/react";
+import { formatBytes, formatMinutes } from "~/utils/recordings";
+
+export function UsageMeters() {
+  const trpc = useTRPC();
+  const { data: usage } = useSuspenseQuery(trpc.usage.get.queryOptions());
+  const { storageBytes, recordedMs, transcriptionMs } = usage.metrics;
+
+  return (
+    <div className="flex flex-col gap-4">
+      <p className="text-sm text-muted-foreground">
+        <span className="capitalize">{usage.plan}</span> plan. Recording and
+        transcription time reset on{" "}
+        {usage.period.end.toLocaleDateString(undefined, { timeZone: "UTC" })}.
+      </p>
+      <UsageMeter label="Storage" {...storageBytes} format={formatBytes} />
+      <UsageMeter
+        label="Recording time"
+        {...recordedMs}
+        format={formatMinutes}
+      />
+      <UsageMeter
+        label="Transcription time"
+        {...transcriptionMs}
+        format={formatMinutes}
+      />
+    </div>
+  );
+}
+
+function UsageMeter(props: {
+  label: string;
+  used: number;
+  limit: number;
+  format: (value: number) => string;
+}) {
+  const ratio = Math.min(1, props.used / props.limit);
+
+  return (
+    <div className="flex flex-col gap-1">
+      <div className="flex justify-between text-sm">
+        <span className="font-semibold">{props.label}</span>
+        <span className="text-muted-foreground">
+          {props.format(props.used)} of {props.format(props.limit)}
+        </span>
+      </div>
+      <div
+        role="meter"
+        aria-label={props.label}
+        aria-valuemin={0}
+        aria-valuemax={props.limit}
+        aria-valuenow={props.used}
+        className="h-2 overflow-hidden rounded-full bg-muted"
+      >
+        <div
+          className={cn(
+            "h-full rounded-full",
+            ratio >= 0.9 ? "bg-destructive" : "bg-primary",
+          )}
+          style={{ width: `${ratio * 100}%` }}
+        />
+      </div>
+    </div>
+  );
+}
+
+export function UsageMetersSkeleton() {
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="h-4 w-1/2 animate-pulse rounded bg-muted" />
+      {[0, 1, 2].map((i) => (
+        <div key={i} className="flex flex-col gap-1">
+          <div className="h-4 w-1/3 animate-pulse rounded bg-muted" />
+          <div className="h-2 animate-pulse rounded-full bg-muted" />
+        </div>
+      ))}
+    </div>
+  );
+}
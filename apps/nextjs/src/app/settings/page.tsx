@@ -0,0 +1,56 @@
+import type { Metadata } from "next";
+import { Suspense } from "react";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+
+import { auth } from "@vibespeak/auth";
+
+import { HydrateClient, prefetch, trpc } from "~/trpc/server";
+import { DeviceList, DeviceListSkeleton } from "./_components/device-list";
+import { UsageMeters, UsageMetersSkeleton } from "./_components/usage-meters";
+
+export const metadata: Metadata = {
+  title: "Settings",
+};
+
+export default async function SettingsPage() {
+  const session = await auth();
+  if (!session) redirect("/");
+
+  prefetch(trpc.usage.get.queryOptions());
+  prefetch(trpc.device.list.queryOptions());
+
+  return (
+    <HydrateClient>
+      <main className="container flex max-w-3xl flex-col gap-8 py-16">
+        <Link
+          href="/"
+          className="text-sm text-muted-foreground hover:underline"
+        >
+          ← All recordings
+        </Link>
+        <h1 className="text-3xl font-bold tracking-tight">Settings</h1>
+
+        <section className="flex flex-col gap-4">
+          <h2 className="text-xl font-semibold">Usage</h2>
+          <Suspense fallback={<UsageMetersSkeleton />}>
+            <UsageMeters />
+          </Suspense>
+        </section>
+
+        <section className="flex flex-col gap-4">
+          <div>
+            <h2 className="text-xl font-semibold">Devices</h2>
+            <p className="text-sm text-muted-foreground">
+              Where you're signed in. Sign out of any device you don't
+              recognize.
+            </p>
+          </div>
+          <Suspense fallback={<DeviceListSkeleton />}>
+            <DeviceList />
+          </Suspense>
+        </section>
+      </main>
+    </HydrateClient>
+  );
+}
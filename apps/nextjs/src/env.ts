@@ -2,10 +2,13 @@ import { createEnv } from "@t3-oss/env-nextjs";
 import { vercel } from "@t3-oss/env-nextjs/presets-zod";
 import { z } from "zod";
 
+import { env as apiEnv } from "@vibespeak/api/env";
 import { env as authEnv } from "@vibespeak/auth/env";
+import { env as loggerEnv } from "@vibespeak/logger/env";
+import { env as mailEnv } from "@vibespeak/mail/env";
 
 export const env = createEnv({
-  extends: [authEnv, vercel()],
+  extends: [authEnv, apiEnv, loggerEnv, mailEnv, vercel()],
   shared: {
     NODE_ENV: z
       .enum(["development", "production", "test"])
@@ -5,7 +5,7 @@ import { dehydrate, HydrationBoundary } from "@tanstack/react-query";
 import { createTRPCOptionsProxy } from "@trpc/tanstack-react-query";
 
 import type { AppRouter } from "@vibespeak/api";
-import { appRouter, createTRPCContext } from "@vibespeak/api";
+import { appRouter, createCaller, createTRPCContext } from "@vibespeak/api";
 import { auth } from "@vibespeak/auth";
 
 import { createQueryClient } from "./query-client";
@@ -26,6 +26,12 @@ const createContext = cache(async () => {
 
 const getQueryClient = cache(createQueryClient);
 
+/**
+ * Calls procedures directly, for server actions and for server components
+ * that need the result rather than a prefetch
+ */
+export const caller = createCaller(createContext);
+
 export const trpc = createTRPCOptionsProxy<AppRouter>({
   router: appRouter,
   ctx: createContext,
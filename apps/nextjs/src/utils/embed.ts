@@ -0,0 +1,43 @@
+import { headers } from "next/headers";
+
+export const PROVIDER_NAME = "VibeSpeak";
+
+/** Default size of the embedded player, fits the compact layout */
+export const EMBED_WIDTH = 480;
+export const EMBED_HEIGHT = 80;
+
+/**
+ * Origin of the current request, for the absolute URLs that embeds and
+ * unfurled links need
+ */
+export async function getRequestOrigin() {
+  const heads = await headers();
+  const host =
+    heads.get("x-forwarded-host") ?? heads.get("host") ?? "localhost:3000";
+  const protocol =
+    heads.get("x-forwarded-proto") ??
+    (host.startsWith("localhost") ? "http" : "https");
+  return `${protocol}://${host}`;
+}
+
+export const shareUrl = (origin: string, slug: string) => `${origin}/s/${slug}`;
+
+export const embedUrl = (origin: string, slug: string) =>
+  `${origin}/embed/${slug}`;
+
+const escapeAttribute = (value: string) =>
+  value
+    .replaceAll("&", "&amp;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;");
+
+/** The iframe snippet handed out by oEmbed */
+export const embedIframeHtml = (opts: {
+  origin: string;
+  slug: string;
+  title: string;
+  width: number;
+  height: number;
+}) =>
+  `<iframe src="${escapeAttribute(embedUrl(opts.origin, opts.slug))}" width="${opts.width}" height="${opts.height}" title="${escapeAttribute(opts.title)}" frameborder="0" allow="autoplay" loading="lazy"></iframe>`;
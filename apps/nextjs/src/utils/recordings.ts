@@ -0,0 +1,33 @@
+/** Page size of the dashboard list, shared by the prefetch and the client */
+export const RECORDINGS_PAGE_SIZE = 20;
+
+export const recordingAudioUrl = (recordingId: string) =>
+  `/api/recordings/${recordingId}/audio`;
+
+/** `m:ss`, or `h:mm:ss` from an hour up */
+export const formatDuration = (milliseconds: number) => {
+  const totalSeconds = Math.floor(milliseconds / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = (totalSeconds % 60).toString().padStart(2, "0");
+  return hours > 0
+    ? `${hours}:${minutes.toString().padStart(2, "0")}:${seconds}`
+    : `${minutes}:${seconds}`;
+};
+
+const BYTE_UNITS = ["B", "KB", "MB", "GB", "TB"];
+
+/** Binary units with one decimal, e.g. 1.5 GB */
+export const formatBytes = (bytes: number) => {
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < BYTE_UNITS.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${BYTE_UNITS[unit]}`;
+};
+
+/** Whole minutes, e.g. for usage meters */
+export const formatMinutes = (milliseconds: number) =>
+  `${Math.floor(milliseconds / 60_000)} min`;
@@ -29,6 +29,8 @@ interface AudioData {
   midLevel: number;
   trebleLevel: number;
   isRecording: boolean;
+  isArmed: boolean;
+  isPaused: boolean;
 }
 
 interface LoadingState {
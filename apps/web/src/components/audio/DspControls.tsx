@@ -0,0 +1,163 @@
+import React from "react";
+import { Checkbox, Label, Slider } from "@vibespeak/ui";
+import type {
+  DspChainConfig,
+  DspChainConfigUpdate,
+  DspStage,
+} from "@/lib/dsp";
+
+interface DspControlsProps {
+  config: DspChainConfig;
+  onChange: (update: DspChainConfigUpdate) => void;
+}
+
+interface StageSliderProps {
+  label: string;
+  value: number;
+  unit: string;
+  min: number;
+  max: number;
+  step: number;
+  disabled: boolean;
+  onChange: (value: number) => void;
+}
+
+const StageSlider: React.FC<StageSliderProps> = ({
+  label,
+  value,
+  unit,
+  min,
+  max,
+  step,
+  disabled,
+  onChange,
+}) => (
+  <div className="space-y-1">
+    <Label className="text-[10px] text-gray-400">
+      {label}: {step < 1 ? value.toFixed(2) : value.toFixed(0)}
+      {unit}
+    </Label>
+    <Slider
+      value={[value]}
+      onValueChange={([next]) => onChange(next)}
+      min={min}
+      max={max}
+      step={step}
+      disabled={disabled}
+    />
+  </div>
+);
+
+const STAGE_LABELS: Record<DspStage, string> = {
+  highPass: "High-pass filter",
+  noiseReduction: "Noise reduction",
+  noiseGate: "Noise gate",
+  compressor: "Compressor / limiter",
+};
+
+/**
+ * Per-stage controls for the raw-mode DSP chain. Changes are applied
+ * live, so they can be tuned while recording.
+ */
+const DspControls: React.FC<DspControlsProps> = ({ config, onChange }) => {
+  const stageToggle = (stage: DspStage) => (
+    <div className="flex items-center space-x-2">
+      <Checkbox
+        id={`dsp-${stage}`}
+        checked={config[stage].enabled}
+        onCheckedChange={(checked) =>
+          onChange({ [stage]: { enabled: !!checked } })
+        }
+      />
+      <Label htmlFor={`dsp-${stage}`} className="text-[10px]">
+        {STAGE_LABELS[stage]}
+      </Label>
+    </div>
+  );
+
+  return (
+    <div className="space-y-2 border-t border-white/20 pt-2">
+      <h4 className="text-xs font-medium text-purple-400">DSP Chain</h4>
+
+      {stageToggle("highPass")}
+      <StageSlider
+        label="Cutoff"
+        value={config.highPass.frequency}
+        unit=" Hz"
+        min={20}
+        max={300}
+        step={5}
+        disabled={!config.highPass.enabled}
+        onChange={(frequency) => onChange({ highPass: { frequency } })}
+      />
+
+      {stageToggle("noiseReduction")}
+      <StageSlider
+        label="Amount"
+        value={config.noiseReduction.amount}
+        unit=""
+        min={0}
+        max={1}
+        step={0.05}
+        disabled={!config.noiseReduction.enabled}
+        onChange={(amount) => onChange({ noiseReduction: { amount } })}
+      />
+
+      {stageToggle("noiseGate")}
+      <StageSlider
+        label="Threshold"
+        value={config.noiseGate.thresholdDb}
+        unit=" dB"
+        min={-80}
+        max={-20}
+        step={1}
+        disabled={!config.noiseGate.enabled}
+        onChange={(thresholdDb) => onChange({ noiseGate: { thresholdDb } })}
+      />
+      <StageSlider
+        label="Release"
+        value={config.noiseGate.releaseMs}
+        unit=" ms"
+        min={20}
+        max={500}
+        step={10}
+        disabled={!config.noiseGate.enabled}
+        onChange={(releaseMs) => onChange({ noiseGate: { releaseMs } })}
+      />
+
+      {stageToggle("compressor")}
+      <StageSlider
+        label="Threshold"
+        value={config.compressor.thresholdDb}
+        unit=" dB"
+        min={-60}
+        max={0}
+        step={1}
+        disabled={!config.compressor.enabled}
+        onChange={(thresholdDb) => onChange({ compressor: { thresholdDb } })}
+      />
+      <StageSlider
+        label="Ratio"
+        value={config.compressor.ratio}
+        unit=":1"
+        min={1}
+        max={20}
+        step={0.5}
+        disabled={!config.compressor.enabled}
+        onChange={(ratio) => onChange({ compressor: { ratio } })}
+      />
+      <StageSlider
+        label="Makeup"
+        value={config.compressor.makeupDb}
+        unit=" dB"
+        min={0}
+        max={24}
+        step={1}
+        disabled={!config.compressor.enabled}
+        onChange={(makeupDb) => onChange({ compressor: { makeupDb } })}
+      />
+    </div>
+  );
+};
+
+export default DspControls;
@@ -0,0 +1,81 @@
+import React from "react";
+import { Checkbox, Input, Label } from "@vibespeak/ui";
+import {
+  EXPORT_PRESETS,
+  EXPORT_SAMPLE_RATES,
+  type ExportPreset,
+  type ExportSettings,
+} from "@/lib/export";
+
+interface ExportControlsProps {
+  settings: ExportSettings;
+  onChange: (update: Partial<ExportSettings>) => void;
+}
+
+const selectClassName =
+  "w-full rounded border border-white/20 bg-black/60 px-2 py-1 text-[10px] text-gray-200";
+
+/**
+ * Format, sample rate, channel and title options for the download button
+ */
+const ExportControls: React.FC<ExportControlsProps> = ({
+  settings,
+  onChange,
+}) => (
+  <div className="space-y-2 border-t border-white/20 pt-2">
+    <h4 className="text-xs font-medium text-purple-400">Export</h4>
+
+    <div className="grid grid-cols-2 gap-2">
+      <select
+        value={settings.preset}
+        onChange={(event) =>
+          onChange({ preset: event.target.value as ExportPreset })
+        }
+        className={selectClassName}
+      >
+        {Object.entries(EXPORT_PRESETS).map(([preset, { label }]) => (
+          <option key={preset} value={preset}>
+            {label}
+          </option>
+        ))}
+      </select>
+
+      <select
+        value={settings.sampleRate ?? ""}
+        onChange={(event) =>
+          onChange({
+            sampleRate: event.target.value ? Number(event.target.value) : null,
+          })
+        }
+        className={selectClassName}
+      >
+        <option value="">Original rate</option>
+        {EXPORT_SAMPLE_RATES.map((sampleRate) => (
+          <option key={sampleRate} value={sampleRate}>
+            {(sampleRate / 1000).toFixed(sampleRate % 1000 ? 2 : 0)} kHz
+          </option>
+        ))}
+      </select>
+    </div>
+
+    <div className="flex items-center gap-2">
+      <Checkbox
+        id="export-mono"
+        checked={settings.mono}
+        onCheckedChange={(checked) => onChange({ mono: !!checked })}
+      />
+      <Label htmlFor="export-mono" className="text-[10px] text-gray-300">
+        Mix down to mono
+      </Label>
+    </div>
+
+    <Input
+      value={settings.title}
+      onChange={(event) => onChange({ title: event.target.value })}
+      placeholder="Title (embedded in the file)"
+      className="h-7 border-white/20 bg-black/60 text-[10px] text-gray-200"
+    />
+  </div>
+);
+
+export default ExportControls;
@@ -0,0 +1,100 @@
+import React, { useState } from "react";
+import {
+  DEFAULT_POST_PROCESS_OPTIONS,
+  DEFAULT_SILENCE_OPTIONS,
+  type PostProcessOptions,
+  type RecordingAnalysis,
+} from "@vibespeak/audio";
+import { Button, Label, Slider } from "@vibespeak/ui";
+
+interface PostProcessControlsProps {
+  analysis: RecordingAnalysis | null;
+  isProcessing: boolean;
+  onProcess: (options: PostProcessOptions) => void;
+}
+
+const formatSeconds = (milliseconds: number) =>
+  `${(milliseconds / 1000).toFixed(2)} s`;
+
+const formatDb = (value: number | null, unit: string) =>
+  value === null ? "n/a" : `${value.toFixed(1)} ${unit}`;
+
+/**
+ * Silence trim threshold and loudness target for the finished take, plus
+ * what the last run measured
+ */
+const PostProcessControls: React.FC<PostProcessControlsProps> = ({
+  analysis,
+  isProcessing,
+  onProcess,
+}) => {
+  const [thresholdDb, setThresholdDb] = useState(
+    DEFAULT_SILENCE_OPTIONS.thresholdDb
+  );
+  const [targetLufs, setTargetLufs] = useState(
+    DEFAULT_POST_PROCESS_OPTIONS.targetLufs
+  );
+
+  return (
+    <div className="space-y-2 border-t border-white/20 pt-2">
+      <h4 className="text-xs font-medium text-purple-400">Trim & Normalize</h4>
+
+      <div className="space-y-1">
+        <Label className="text-[10px] text-gray-400">
+          Silence threshold: {thresholdDb} dB
+        </Label>
+        <Slider
+          value={[thresholdDb]}
+          onValueChange={([value]) => setThresholdDb(value)}
+          min={-80}
+          max={-20}
+          step={1}
+          disabled={isProcessing}
+        />
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-[10px] text-gray-400">
+          Target loudness: {targetLufs} LUFS
+        </Label>
+        <Slider
+          value={[targetLufs]}
+          onValueChange={([value]) => setTargetLufs(value)}
+          min={-30}
+          max={-10}
+          step={1}
+          disabled={isProcessing}
+        />
+      </div>
+
+      <Button
+        onClick={() => onProcess({ silence: { thresholdDb }, targetLufs })}
+        variant="outline"
+        size="sm"
+        className="w-full px-2 py-1 text-[10px]"
+        disabled={isProcessing}
+      >
+        {isProcessing ? "⏳ Processing..." : "✂️ Trim & normalize"}
+      </Button>
+
+      {analysis && (
+        <div className="space-y-0.5 rounded border border-purple-500/30 bg-purple-500/10 p-1.5 text-[10px] text-gray-400">
+          <div>
+            Kept: {formatSeconds(analysis.trimStartMs)} –{" "}
+            {formatSeconds(analysis.trimEndMs)}
+          </div>
+          <div>
+            Loudness: {formatDb(analysis.inputLoudnessLufs, "LUFS")} →{" "}
+            {formatDb(analysis.loudnessLufs, "LUFS")}
+          </div>
+          <div>
+            True peak: {formatDb(analysis.truePeakDb, "dBTP")} | Gain:{" "}
+            {formatDb(analysis.gainDb, "dB")}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PostProcessControls;
@@ -1,5 +1,11 @@
-import React, { useEffect } from "react";
+import React, { useEffect, useState } from "react";
 import { useVoice } from "@/hooks/use-voice";
+import {
+  DEFAULT_EXPORT_SETTINGS,
+  EXPORT_PRESETS,
+  toExportOptions,
+  type ExportSettings,
+} from "@/lib/export";
 import {
   Badge,
   Button,
@@ -7,7 +13,12 @@ import {
   CardContent,
   CardHeader,
   CardTitle,
+  Label,
+  Slider,
 } from "@vibespeak/ui";
+import DspControls from "./DspControls";
+import ExportControls from "./ExportControls";
+import PostProcessControls from "./PostProcessControls";
 
 interface VoiceRecorderProps {
   className?: string;
@@ -19,6 +30,8 @@ interface VoiceRecorderProps {
     midLevel: number;
     trebleLevel: number;
     isRecording: boolean;
+    isArmed: boolean;
+    isPaused: boolean;
   }) => void;
 }
 
@@ -28,6 +41,8 @@ const VoiceRecorder: React.FC<VoiceRecorderProps> = ({
 }) => {
   const {
     isRecording,
+    isPaused,
+    recordingDuration,
     isPlaying,
     hasPermission,
     recordedAudio,
@@ -37,25 +52,51 @@ const VoiceRecorder: React.FC<VoiceRecorderProps> = ({
     audioData,
     startRecording,
     stopRecording,
+    pauseRecording,
+    resumeRecording,
     playRecording,
     stopPlayback,
     clearRecording,
-    getRecordedAudioAsWav,
+    exportRecording,
+    processRecording,
+    isProcessing,
+    recordingAnalysis,
     audioProcessingMode,
     setAudioProcessingMode,
+    dspConfig,
+    updateDspConfig,
+    recordingMode,
+    setRecordingMode,
+    isArmed,
+    voiceTriggerConfig,
+    updateVoiceTriggerConfig,
+    audioInputs,
+    selectedInputId,
+    activeInputId,
+    selectInput,
   } = useVoice();
 
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(
+    DEFAULT_EXPORT_SETTINGS
+  );
+
+  const isVoiceTriggered = recordingMode === "voice-triggered";
+  // Armed counts as busy: settings are locked until the take ends
+  const isBusy = isRecording || isArmed;
+
   // Pass audio data to parent component
   useEffect(() => {
     if (onAudioData) {
       const dataToSend = {
         ...audioData,
         isRecording,
+        isArmed,
+        isPaused,
       };
       console.log("🎤 VoiceRecorder sending audio data:", dataToSend);
       onAudioData(dataToSend);
     }
-  }, [audioData, isRecording, onAudioData]);
+  }, [audioData, isRecording, isArmed, isPaused, onAudioData]);
 
   const getVolumeColor = (volume: number) => {
     if (volume < 20) return "bg-green-500"; // Green
@@ -63,6 +104,15 @@ const VoiceRecorder: React.FC<VoiceRecorderProps> = ({
     return "bg-red-500"; // Red
   };
 
+  const formatDuration = (milliseconds: number) => {
+    const totalSeconds = Math.floor(milliseconds / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${minutes.toString().padStart(2, "0")}:${seconds
+      .toString()
+      .padStart(2, "0")}`;
+  };
+
   const getPermissionMessage = () => {
     if (hasPermission === null) return "Permission not requested";
     if (hasPermission === false) return "Microphone permission denied";
@@ -72,19 +122,20 @@ const VoiceRecorder: React.FC<VoiceRecorderProps> = ({
   const handleDownload = async () => {
     if (!recordedAudio) return;
 
-    const wavBlob = await getRecordedAudioAsWav();
-    if (!wavBlob) {
+    const blob = await exportRecording(toExportOptions(exportSettings));
+    if (!blob) {
       // The error will be displayed in the UI via the 'error' state in the hook
       return;
     }
 
-    const url = URL.createObjectURL(wavBlob);
+    const url = URL.createObjectURL(blob);
     const link = document.createElement("a");
     link.href = url;
 
-    // Create a unique filename with the correct .wav extension
+    // Create a unique filename with the extension of the chosen format
     const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-    link.download = `recording-${timestamp}.wav`;
+    const { format } = EXPORT_PRESETS[exportSettings.preset].options;
+    link.download = `recording-${timestamp}.${format}`;
 
     // Trigger download
     document.body.appendChild(link);
@@ -125,7 +176,7 @@ const VoiceRecorder: React.FC<VoiceRecorderProps> = ({
         )}
 
         {/* Audio Visualization Data */}
-        {isRecording && (
+        {isBusy && !isPaused && (
           <div className="space-y-0.5 rounded border border-blue-500/30 bg-blue-500/10 p-1.5 text-[10px] text-gray-400">
             <div className="text-blue-400">🎵 Audio Analysis:</div>
             <div>Amp: {(audioData.amplitude * 100).toFixed(1)}%</div>
@@ -157,7 +208,7 @@ const VoiceRecorder: React.FC<VoiceRecorderProps> = ({
           <div className="h-1.5 w-full overflow-hidden rounded bg-white/20">
             <div
               className={`h-full transition-all duration-100 ${getVolumeColor(
-                currentVolume,
+                currentVolume
               )}`}
               style={{ width: `${currentVolume}%` }}
             />
@@ -170,9 +221,10 @@ const VoiceRecorder: React.FC<VoiceRecorderProps> = ({
             onClick={() => {
               console.log("🖱️ Button clicked - Current state:", {
                 isRecording,
+                isArmed,
                 hasPermission,
               });
-              if (isRecording) {
+              if (isBusy) {
                 console.log("🛑 Calling stopRecording...");
                 stopRecording();
               } else {
@@ -181,13 +233,31 @@ const VoiceRecorder: React.FC<VoiceRecorderProps> = ({
               }
             }}
             disabled={hasPermission === false}
-            variant={isRecording ? "destructive" : "primary"}
+            variant={isBusy ? "destructive" : "primary"}
             size="sm"
             className="flex items-center gap-1.5 px-2 py-1 text-xs"
           >
-            {isRecording ? "⏹️ Stop" : "🎙️ Record"}
+            {isRecording
+              ? "⏹️ Stop"
+              : isArmed
+                ? "✋ Cancel"
+                : isVoiceTriggered
+                  ? "👂 Listen"
+                  : "🎙️ Record"}
           </Button>
 
+          {/* Pause/resume, manual takes only */}
+          {isRecording && !isVoiceTriggered && (
+            <Button
+              onClick={isPaused ? resumeRecording : pauseRecording}
+              variant="secondary"
+              size="sm"
+              className="flex items-center gap-1.5 px-2 py-1 text-xs"
+            >
+              {isPaused ? "▶️ Resume" : "⏸️ Pause"}
+            </Button>
+          )}
+
           {recordedAudio && (
             <>
               <Button
@@ -220,6 +290,36 @@ const VoiceRecorder: React.FC<VoiceRecorderProps> = ({
           )}
         </div>
 
+        {/* Microphone Selection, can be changed mid-recording */}
+        <div className="space-y-2 border-t border-white/20 pt-2">
+          <h4 className="text-xs font-medium text-purple-400">Microphone</h4>
+
+          <select
+            value={selectedInputId ?? ""}
+            onChange={(event) => selectInput(event.target.value || null)}
+            className="w-full rounded border border-white/20 bg-black/60 px-2 py-1 text-[10px] text-gray-200"
+          >
+            <option value="">System default</option>
+            {audioInputs.map((input) => (
+              <option key={input.deviceId} value={input.deviceId}>
+                {input.label}
+              </option>
+            ))}
+            {selectedInputId &&
+              !audioInputs.some(
+                (input) => input.deviceId === selectedInputId
+              ) && (
+                <option value={selectedInputId}>Unavailable microphone</option>
+              )}
+          </select>
+
+          {isBusy && selectedInputId && activeInputId !== selectedInputId && (
+            <div className="text-[10px] text-yellow-400">
+              ⚠️ Selected microphone unavailable, using another input
+            </div>
+          )}
+        </div>
+
         {/* Audio Processing Mode Controls */}
         <div className="space-y-2 border-t border-white/20 pt-2">
           <h4 className="text-xs font-medium text-purple-400">
@@ -236,7 +336,7 @@ const VoiceRecorder: React.FC<VoiceRecorderProps> = ({
                   ? "bg-orange-600 text-white hover:bg-orange-700"
                   : "border-orange-500/50 text-orange-400 hover:bg-orange-500/10"
               }`}
-              disabled={isRecording}
+              disabled={isBusy}
             >
               🌐 Native
             </Button>
@@ -250,19 +350,120 @@ const VoiceRecorder: React.FC<VoiceRecorderProps> = ({
                   ? "bg-gray-600 text-white hover:bg-gray-700"
                   : "border-gray-500/50 text-gray-400 hover:bg-gray-500/10"
               }`}
-              disabled={isRecording}
+              disabled={isBusy}
             >
               🎤 Raw
             </Button>
           </div>
         </div>
 
+        {/* Recording Mode Controls */}
+        <div className="space-y-2 border-t border-white/20 pt-2">
+          <h4 className="text-xs font-medium text-purple-400">
+            Recording Mode
+          </h4>
+
+          <div className="grid grid-cols-2 gap-2">
+            <Button
+              onClick={() => setRecordingMode("manual")}
+              variant={!isVoiceTriggered ? "primary" : "outline"}
+              size="sm"
+              className={`justify-center px-2 py-1 text-[10px] ${
+                !isVoiceTriggered
+                  ? "bg-blue-600 text-white hover:bg-blue-700"
+                  : "border-blue-500/50 text-blue-400 hover:bg-blue-500/10"
+              }`}
+              disabled={isBusy}
+            >
+              🖐️ Manual
+            </Button>
+
+            <Button
+              onClick={() => setRecordingMode("voice-triggered")}
+              variant={isVoiceTriggered ? "primary" : "outline"}
+              size="sm"
+              className={`justify-center px-2 py-1 text-[10px] ${
+                isVoiceTriggered
+                  ? "bg-green-600 text-white hover:bg-green-700"
+                  : "border-green-500/50 text-green-400 hover:bg-green-500/10"
+              }`}
+              disabled={isBusy}
+            >
+              🗣️ Voice
+            </Button>
+          </div>
+
+          {isVoiceTriggered && (
+            <div className="space-y-2">
+              <div className="space-y-1">
+                <Label className="text-[10px] text-gray-400">
+                  Stop after silence:{" "}
+                  {(voiceTriggerConfig.silenceTimeoutMs / 1000).toFixed(1)} s
+                </Label>
+                <Slider
+                  value={[voiceTriggerConfig.silenceTimeoutMs]}
+                  onValueChange={([silenceTimeoutMs]) =>
+                    updateVoiceTriggerConfig({ silenceTimeoutMs })
+                  }
+                  min={500}
+                  max={10_000}
+                  step={250}
+                  disabled={isBusy}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-[10px] text-gray-400">
+                  Pre-roll: {voiceTriggerConfig.preRollMs} ms
+                </Label>
+                <Slider
+                  value={[voiceTriggerConfig.preRollMs]}
+                  onValueChange={([preRollMs]) =>
+                    updateVoiceTriggerConfig({ preRollMs })
+                  }
+                  min={0}
+                  max={2000}
+                  step={100}
+                  disabled={isBusy}
+                />
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Post-processing */}
+        {recordedAudio && !isBusy && (
+          <PostProcessControls
+            analysis={recordingAnalysis}
+            isProcessing={isProcessing}
+            onProcess={processRecording}
+          />
+        )}
+
+        {/* Export Options */}
+        {recordedAudio && (
+          <ExportControls
+            settings={exportSettings}
+            onChange={(update) =>
+              setExportSettings((settings) => ({ ...settings, ...update }))
+            }
+          />
+        )}
+
+        {/* DSP Chain Controls (raw mode only) */}
+        {audioProcessingMode === "raw" && (
+          <DspControls config={dspConfig} onChange={updateDspConfig} />
+        )}
+
         {/* Status */}
         <div className="pt-1 text-center text-[10px] text-gray-400">
-          {isRecording && "🔴 Recording..."}
+          {isArmed && "👂 Listening for speech..."}
+          {isRecording &&
+            (isPaused
+              ? `⏸️ Paused (${formatDuration(recordingDuration)})`
+              : `🔴 Recording... ${formatDuration(recordingDuration)}`)}
           {isPlaying && "🔊 Playing..."}
-          {!isRecording && !isPlaying && recordedAudio && "✅ Ready"}
-          {!isRecording && !isPlaying && !recordedAudio && "⚪ Ready"}
+          {!isBusy && !isPlaying && recordedAudio && "✅ Ready"}
+          {!isBusy && !isPlaying && !recordedAudio && "⚪ Ready"}
         </div>
       </CardContent>
     </Card>
@@ -1,4 +1,7 @@
 export { default as AudioVisualizer } from "./AudioVisualizer";
 export { default as VoiceRecorder } from "./VoiceRecorder";
+export { default as DspControls } from "./DspControls";
+export { default as ExportControls } from "./ExportControls";
+export { default as PostProcessControls } from "./PostProcessControls";
 export { useAudioAnalyzer } from "./useAudioAnalyzer";
 export type { AudioData, UseAudioAnalyzerOptions } from "./useAudioAnalyzer";
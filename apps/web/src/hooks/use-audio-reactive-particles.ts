@@ -8,6 +8,8 @@ interface AudioData {
   midLevel: number;
   trebleLevel: number;
   isRecording: boolean;
+  isArmed: boolean; // voice-triggered mode waiting for speech
+  isPaused: boolean; // recording in progress but paused
 }
 
 interface ParticleParams {
@@ -60,7 +62,12 @@ export const useAudioReactiveParticles = () => {
 
   // Recording flow state
   const [recordingPhase, setRecordingPhase] = useState<
-    "idle" | "pre-recording-loading" | "recording" | "post-recording-loading"
+    | "idle"
+    | "armed"
+    | "pre-recording-loading"
+    | "recording"
+    | "paused"
+    | "post-recording-loading"
   >("idle");
 
   // Animation frames for smooth interpolation
@@ -230,8 +237,43 @@ export const useAudioReactiveParticles = () => {
         });
       }
 
+      // ARMED: voice-triggered mode is listening for speech
+      if (audioData.isArmed && recordingPhase === "idle") {
+        console.log("👂 ARMED: Listening for speech");
+        setRecordingPhase("armed");
+      } else if (
+        !audioData.isArmed &&
+        !currentlyRecording &&
+        recordingPhase === "armed"
+      ) {
+        console.log("✋ DISARMED: Back to idle");
+        setRecordingPhase("idle");
+      }
+
+      // PAUSED: recording continues once resumed, no loading animation
+      if (audioData.isPaused && recordingPhase === "recording") {
+        console.log("⏸️ PAUSED: Recording paused");
+        setRecordingPhase("paused");
+      } else if (
+        !audioData.isPaused &&
+        currentlyRecording &&
+        recordingPhase === "paused"
+      ) {
+        console.log("▶️ RESUMED: Back to recording");
+        setRecordingPhase("recording");
+      }
+
       // State machine for recording flow
       if (!wasRecording && currentlyRecording) {
+        // START RECORDING: Speech triggered an armed recorder
+        if (recordingPhase === "armed") {
+          // Skip the loading animation, the speaker is already talking
+          console.log("🎬 START: Speech detected -> Recording");
+          setRecordingPhase("recording");
+          wasRecordingRef.current = true;
+          return;
+        }
+
         // START RECORDING: User clicked record button
         if (recordingPhase === "idle") {
           console.log(
@@ -254,7 +296,7 @@ export const useAudioReactiveParticles = () => {
         }
       } else if (wasRecording && !currentlyRecording) {
         // STOP RECORDING: User clicked stop button
-        if (recordingPhase === "recording") {
+        if (recordingPhase === "recording" || recordingPhase === "paused") {
           console.log(
             "🛑 STOP: Clicked Stop -> Starting post-recording loading"
           );
@@ -288,6 +330,18 @@ export const useAudioReactiveParticles = () => {
         return;
       }
 
+      // LISTENING: a subtle response so the armed state is visible
+      if (recordingPhase === "armed") {
+        targetParamsRef.current = {
+          ...baseParams,
+          noiseIntensity: Math.min(
+            1.0,
+            baseParams.noiseIntensity + audioData.amplitude * 0.2
+          ),
+        };
+        return;
+      }
+
       // Only process audio during actual recording phase
       if (recordingPhase !== "recording" || !currentlyRecording) {
         targetParamsRef.current = baseParams;
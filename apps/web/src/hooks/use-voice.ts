@@ -1,10 +1,57 @@
 import { useState, useRef, useCallback, useEffect } from "react";
+import {
+  createVoiceActivityDetector,
+  createVoiceTrigger,
+  DEFAULT_VOICE_TRIGGER_OPTIONS,
+  encodeWav,
+  exportAudio,
+  extractVadFeatures,
+  postProcessAudio,
+  type DecodedAudio,
+  type ExportOptions,
+  type PostProcessOptions,
+  type RecordingAnalysis,
+  type VadEvent,
+  type VoiceActivityDetector,
+  type VoiceTrigger,
+  type VoiceTriggerOptions,
+} from "@vibespeak/audio";
+import {
+  listAudioInputs,
+  loadPreferredInputId,
+  savePreferredInputId,
+  type AudioInputDevice,
+} from "@/lib/audio-devices";
+import {
+  createDspChain,
+  createPcmTap,
+  DEFAULT_DSP_CONFIG,
+  isDspSupported,
+  mergeDspConfig,
+  type DspChain,
+  type DspChainConfig,
+  type DspChainConfigUpdate,
+} from "@/lib/dsp";
+import {
+  createPreRollBuffer,
+  type PreRollBuffer,
+  type RecordingMode,
+} from "@/lib/voice-trigger";
 
 type AudioProcessingMode = "native" | "raw";
 
+interface UseVoiceOptions {
+  // Swap in a different voice activity detector (defaults to the energy/spectral one)
+  createVad?: () => VoiceActivityDetector;
+  // Speech start/end, timestamps in ms since recording started
+  onSpeechEvent?: (event: VadEvent) => void;
+}
+
 interface UseVoiceReturn {
   // State
   isRecording: boolean;
+  isPaused: boolean; // recording is still in progress while paused
+  recordingDuration: number; // ms captured so far, pauses excluded
   isPlaying: boolean;
   hasPermission: boolean | null;
   recordedAudio: Blob | null;
@@ -27,98 +74,107 @@ interface UseVoiceReturn {
   // Controls
   startRecording: () => Promise<void>;
   stopRecording: () => void;
+  pauseRecording: () => void;
+  resumeRecording: () => void;
   playRecording: () => void;
   stopPlayback: () => void;
   clearRecording: () => void;
-  getRecordedAudioAsWav: () => Promise<Blob | null>;
+  // Decode the recording and re-encode it (WAV/FLAC, rate, channels, tags)
+  exportRecording: (exportOptions: ExportOptions) => Promise<Blob | null>;
+
+  // Silence trim + loudness normalization of the finished take, replaces
+  // recordedAudio; the analysis holds the measured loudness, peak and offsets
+  processRecording: (processOptions?: PostProcessOptions) => Promise<void>;
+  isProcessing: boolean;
+  recordingAnalysis: RecordingAnalysis | null;
 
   // Audio Processing Mode
   audioProcessingMode: AudioProcessingMode;
   setAudioProcessingMode: (mode: AudioProcessingMode) => void;
+
+  // DSP chain used in raw mode, changes apply live while recording
+  dspConfig: DspChainConfig;
+  updateDspConfig: (update: DspChainConfigUpdate) => void;
+
+  // Voice-triggered recording, armed = listening for speech before the take
+  recordingMode: RecordingMode;
+  setRecordingMode: (mode: RecordingMode) => void;
+  isArmed: boolean;
+  voiceTriggerConfig: Required<VoiceTriggerOptions>;
+  updateVoiceTriggerConfig: (update: VoiceTriggerOptions) => void;
+
+  // Microphone selection, null = the browser's default input. Selecting a
+  // device mid-session switches to it without interrupting the take
+  audioInputs: AudioInputDevice[];
+  selectedInputId: string | null;
+  activeInputId: string | null; // device the live stream comes from
+  selectInput: (deviceId: string | null) => void;
 }
 
 interface AudioNodes {
   sourceNode: MediaStreamAudioSourceNode;
   analyser: AnalyserNode;
   destinationNode: MediaStreamAudioDestinationNode;
+  dspChain?: DspChain; // raw mode only
+  pcmTap?: AudioWorkletNode; // voice-triggered mode only
 }
 
 /**
- * Encodes an AudioBuffer into a WAV file Blob.
- * @param audioBuffer The raw audio data.
- * @returns A Blob representing the WAV file.
+ * Connects a replacement microphone source to a running graph, mirroring the
+ * wiring set up by createAudioProcessingChain and the voice-trigger tap.
  */
-function encodeWav(audioBuffer: AudioBuffer): Blob {
-  const numOfChan = audioBuffer.numberOfChannels;
-  const length = audioBuffer.length * numOfChan * 2 + 44;
-  const buffer = new ArrayBuffer(length);
-  const view = new DataView(buffer);
-  const channels = [];
-  let i;
-  let sample;
-  let offset = 0;
-  let pos = 0;
-
-  // Helper function to write strings
-  function writeString(str: string) {
-    for (i = 0; i < str.length; i++) {
-      view.setUint8(pos++, str.charCodeAt(i));
-    }
+function connectSourceNode(
+  sourceNode: MediaStreamAudioSourceNode,
+  nodes: AudioNodes
+) {
+  sourceNode.connect(nodes.analyser);
+  sourceNode.connect(nodes.dspChain?.input ?? nodes.destinationNode);
+  // Without a DSP chain the PCM tap listens to the source directly
+  if (nodes.pcmTap && !nodes.dspChain) {
+    sourceNode.connect(nodes.pcmTap);
   }
+}
 
-  // RIFF header
-  writeString("RIFF");
-  view.setUint32(pos, 36 + audioBuffer.length * numOfChan * 2, true);
-  pos += 4;
-  writeString("WAVE");
-
-  // fmt sub-chunk
-  writeString("fmt ");
-  view.setUint32(pos, 16, true);
-  pos += 4; // Sub-chunk size
-  view.setUint16(pos, 1, true);
-  pos += 2; // PCM format
-  view.setUint16(pos, numOfChan, true);
-  pos += 2;
-  view.setUint32(pos, audioBuffer.sampleRate, true);
-  pos += 4;
-  view.setUint32(pos, audioBuffer.sampleRate * 2 * numOfChan, true);
-  pos += 4; // Byte rate
-  view.setUint16(pos, numOfChan * 2, true);
-  pos += 2; // Block align
-  view.setUint16(pos, 16, true);
-  pos += 2; // 16-bit
-
-  // data sub-chunk
-  writeString("data");
-  view.setUint32(pos, audioBuffer.length * numOfChan * 2, true);
-  pos += 4;
-
-  // Write interleaved 16-bit PCM data
-  for (i = 0; i < audioBuffer.numberOfChannels; i++) {
-    channels.push(audioBuffer.getChannelData(i));
-  }
+function getStreamDeviceId(mediaStream: MediaStream): string | null {
+  return mediaStream.getAudioTracks()[0]?.getSettings().deviceId ?? null;
+}
 
-  offset = 0;
-  while (pos < length) {
-    for (i = 0; i < numOfChan; i++) {
-      sample = Math.max(-1, Math.min(1, channels[i][offset])); // Clamp
-      sample = (0.5 + sample < 0 ? sample * 32768 : sample * 32767) | 0; // Scale to 16-bit
-      view.setInt16(pos, sample, true);
-      pos += 2;
-    }
-    offset++;
+/**
+ * Decodes a recorded Blob into float channels. Uses a temporary AudioContext,
+ * which is safer than relying on the main one since it might be closed.
+ */
+async function decodeRecording(blob: Blob): Promise<DecodedAudio> {
+  const tempAudioContext = new (window.AudioContext ||
+    (window as any).webkitAudioContext)();
+
+  try {
+    const audioBuffer = await tempAudioContext.decodeAudioData(
+      await blob.arrayBuffer()
+    );
+    const channels = Array.from(
+      { length: audioBuffer.numberOfChannels },
+      (_, channel) => audioBuffer.getChannelData(channel)
+    );
+    return { sampleRate: audioBuffer.sampleRate, channels };
+  } finally {
+    // Clean up the temporary context
+    tempAudioContext.close();
   }
-
-  return new Blob([view], { type: "audio/wav" });
 }
 
-export function useVoice(): UseVoiceReturn {
+export function useVoice(options: UseVoiceOptions = {}): UseVoiceReturn {
   // Core state
   const [isRecording, setIsRecording] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [recordingDuration, setRecordingDuration] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
   const [hasPermission, setHasPermission] = useState<boolean | null>(null);
   const [recordedAudio, setRecordedAudio] = useState<Blob | null>(null);
+  // Post-processing: the take before processing and what processing measured
+  const unprocessedAudioRef = useRef<Blob | null>(null);
+  const [recordingAnalysis, setRecordingAnalysis] =
+    useState<RecordingAnalysis | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   // Audio analysis state
@@ -129,6 +185,46 @@ export function useVoice(): UseVoiceReturn {
   const [audioProcessingMode, setAudioProcessingModeState] =
     useState<AudioProcessingMode>("native");
 
+  // DSP chain configuration for raw mode
+  const [dspConfig, setDspConfig] =
+    useState<DspChainConfig>(DEFAULT_DSP_CONFIG);
+  const dspConfigRef = useRef<DspChainConfig>(DEFAULT_DSP_CONFIG);
+
+  // Voice-triggered recording state
+  const [recordingMode, setRecordingModeState] =
+    useState<RecordingMode>("manual");
+  const [isArmed, setIsArmed] = useState(false);
+  const [voiceTriggerConfig, setVoiceTriggerConfig] = useState<
+    Required<VoiceTriggerOptions>
+  >(DEFAULT_VOICE_TRIGGER_OPTIONS);
+  const voiceTriggerConfigRef = useRef<Required<VoiceTriggerOptions>>(
+    DEFAULT_VOICE_TRIGGER_OPTIONS
+  );
+  const voiceTriggerRef = useRef<VoiceTrigger | null>(null);
+  const preRollBufferRef = useRef<PreRollBuffer | null>(null);
+  // Lets the analysis loop stop a take without depending on stopRecording
+  const stopRecordingRef = useRef<() => void>(() => {});
+
+  // Microphone selection
+  const [audioInputs, setAudioInputs] = useState<AudioInputDevice[]>([]);
+  const [selectedInputId, setSelectedInputId] = useState<string | null>(
+    loadPreferredInputId
+  );
+  const selectedInputIdRef = useRef(selectedInputId);
+  const [activeInputId, setActiveInputId] = useState<string | null>(null);
+  // Switches run one at a time, a second unplug must not race the first
+  const inputSwitchRef = useRef<Promise<void>>(Promise.resolve());
+  // Lets track listeners reach the latest device reconciliation
+  const reconcileInputRef = useRef<() => void>(() => {});
+
+  // Duration accounting: time of previous segments plus the running one
+  const accumulatedDurationRef = useRef(0);
+  const segmentStartRef = useRef<number | null>(null);
+  // Context time (ms) at which the take starts, shifted by every pause so
+  // speech events can be reported relative to the take; null until recording
+  const takeStartMsRef = useRef<number | null>(null);
+  const pausedAtMsRef = useRef<number | null>(null);
+
   // Refs for audio components
   const audioContextRef = useRef<AudioContext | null>(null);
   const mediaStreamRef = useRef<MediaStream | null>(null);
@@ -138,10 +234,11 @@ export function useVoice(): UseVoiceReturn {
   const animationFrameRef = useRef<number | null>(null);
   const recordedChunksRef = useRef<Blob[]>([]);
 
-  // Voice activity detection parameters
-  const volumeHistoryRef = useRef<number[]>([]);
-  const voiceThreshold = 30; // Volume threshold for voice detection
-  const historyLength = 10; // Number of volume samples to consider
+  // Voice activity detection, options are read through a ref so the
+  // analysis loop always sees the latest callback
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const vadRef = useRef<VoiceActivityDetector | null>(null);
 
   // Real-time audio data for visualization
   const [audioData, setAudioData] = useState({
@@ -153,6 +250,23 @@ export function useVoice(): UseVoiceReturn {
     trebleLevel: 0,
   });
 
+  // Duration of the take so far, excluding pauses
+  const getRecordingDuration = useCallback(() => {
+    const running =
+      segmentStartRef.current === null
+        ? 0
+        : performance.now() - segmentStartRef.current;
+    return accumulatedDurationRef.current + running;
+  }, []);
+
+  const resetRecordingDuration = useCallback(() => {
+    accumulatedDurationRef.current = 0;
+    segmentStartRef.current = null;
+    takeStartMsRef.current = null;
+    pausedAtMsRef.current = null;
+    setRecordingDuration(0);
+  }, []);
+
   // Check browser compatibility
   const checkBrowserSupport = useCallback((): string | null => {
     if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
@@ -174,11 +288,11 @@ export function useVoice(): UseVoiceReturn {
 
   // Create audio processing chain
   const createAudioProcessingChain = useCallback(
-    (
+    async (
       audioContext: AudioContext,
       mediaStream: MediaStream,
       processingMode: AudioProcessingMode
-    ): AudioNodes => {
+    ): Promise<AudioNodes> => {
       console.log(
         "🔧 Creating audio processing chain with mode:",
         processingMode
@@ -260,9 +374,22 @@ export function useVoice(): UseVoiceReturn {
       // Create destination for processed audio
       const destinationNode = audioContext.createMediaStreamDestination();
 
+      let dspChain: DspChain | undefined;
+
       if (processingMode === "raw") {
-        console.log("🎤 RAW MODE: Direct source → destination (no processing)");
-        sourceNode.connect(destinationNode);
+        if (isDspSupported(audioContext)) {
+          console.log(
+            "🎛️ RAW MODE: source → high-pass → NR → gate → compressor → destination"
+          );
+          dspChain = await createDspChain(audioContext, dspConfigRef.current);
+          sourceNode.connect(dspChain.input);
+          dspChain.output.connect(destinationNode);
+        } else {
+          console.warn(
+            "⚠️ RAW MODE: AudioWorklet not supported, recording unprocessed audio"
+          );
+          sourceNode.connect(destinationNode);
+        }
       } else {
         console.log("🌐 NATIVE MODE: Using browser built-ins only");
         // For native mode, we still connect directly but the browser's
@@ -276,6 +403,7 @@ export function useVoice(): UseVoiceReturn {
         sourceNode,
         analyser,
         destinationNode,
+        dspChain,
       };
     },
     []
@@ -362,18 +490,53 @@ export function useVoice(): UseVoiceReturn {
 
     setCurrentVolume(volume);
 
-    // Update volume history for voice activity detection
-    volumeHistoryRef.current.push(volume);
-    if (volumeHistoryRef.current.length > historyLength) {
-      volumeHistoryRef.current.shift();
+    // Voice activity detection on the analyser's float samples
+    if (!vadRef.current) {
+      vadRef.current =
+        optionsRef.current.createVad?.() ?? createVoiceActivityDetector();
+    }
+    const vadSamples = new Float32Array(audioNodes.analyser.fftSize);
+    audioNodes.analyser.getFloatTimeDomainData(vadSamples);
+    const vadDecision = vadRef.current.process(
+      extractVadFeatures(vadSamples),
+      audioContext.currentTime * 1000
+    );
+    setIsVoiceDetected(vadDecision.isSpeech);
+
+    // Voice-triggered recording follows the detector's decisions
+    const triggerAction = voiceTriggerRef.current?.process(
+      vadDecision,
+      audioContext.currentTime * 1000
+    );
+    if (triggerAction?.type === "start") {
+      console.log(
+        "🎬 Speech detected, committing audio from",
+        triggerAction.timeMs.toFixed(0) + "ms"
+      );
+      preRollBufferRef.current?.commitFrom(triggerAction.timeMs);
+      // The take begins with the pre-roll
+      takeStartMsRef.current = triggerAction.timeMs;
+      segmentStartRef.current = performance.now();
+      setIsArmed(false);
+      setIsRecording(true);
+    }
+
+    // Only speech within the take is reported, on the take's own clock
+    if (vadDecision.event && takeStartMsRef.current !== null) {
+      const event = {
+        ...vadDecision.event,
+        timeMs: Math.max(0, vadDecision.event.timeMs - takeStartMsRef.current),
+      };
+      console.log("🗣️ VAD event:", event);
+      optionsRef.current.onSpeechEvent?.(event);
     }
 
-    // Voice activity detection
-    const averageVolume =
-      volumeHistoryRef.current.reduce((sum, vol) => sum + vol, 0) /
-      volumeHistoryRef.current.length;
-    const isVoiceActive = averageVolume > voiceThreshold;
-    setIsVoiceDetected(isVoiceActive);
+    if (triggerAction?.type === "stop") {
+      console.log("🤫 Silence timeout reached, stopping recording");
+      // stopRecording tears everything down, don't schedule another frame
+      stopRecordingRef.current();
+      return;
+    }
 
     // Calculate dominant frequency
     let maxValue = 0;
@@ -438,9 +601,11 @@ export function useVoice(): UseVoiceReturn {
       trebleLevel,
     });
 
+    setRecordingDuration(getRecordingDuration());
+
     // Continue analyzing as long as we have audio nodes
     animationFrameRef.current = requestAnimationFrame(analyzeAudio);
-  }, []);
+  }, [getRecordingDuration]);
 
   // Initialize audio context
   const initializeAudioContext =
@@ -483,46 +648,65 @@ export function useVoice(): UseVoiceReturn {
 
   // Request microphone permission and setup
   const requestMicrophoneAccess = useCallback(
-    async (processingMode: AudioProcessingMode): Promise<MediaStream> => {
+    async (
+      processingMode: AudioProcessingMode,
+      deviceId: string | null
+    ): Promise<MediaStream> => {
       try {
-        let constraints: MediaStreamConstraints;
+        let constraints: MediaTrackConstraints;
 
         if (processingMode === "native") {
           console.log(
             "🌐 Using NATIVE constraints (browser built-ins enabled)"
           );
           constraints = {
-            audio: {
-              channelCount: { ideal: 1, max: 1 },
-              sampleRate: { ideal: 48_000 },
-              // Enable browser's built-in processing for native mode
-              echoCancellation: { ideal: true },
-              noiseSuppression: { ideal: true },
-              autoGainControl: { ideal: true },
-            },
+            channelCount: { ideal: 1, max: 1 },
+            sampleRate: { ideal: 48_000 },
+            // Enable browser's built-in processing for native mode
+            echoCancellation: { ideal: true },
+            noiseSuppression: { ideal: true },
+            autoGainControl: { ideal: true },
           };
         } else {
           console.log(
             `🔧 Using ${processingMode.toUpperCase()} constraints (browser built-ins disabled)`
           );
           constraints = {
-            audio: {
-              // keep mono/48 kHz for Web-RTC and RNNoise compatibility
-              channelCount: { ideal: 1, max: 1 },
-              sampleRate: { ideal: 48_000 },
-
-              /* 🔑  Disable the browser's built-ins because
-               we are adding our own DSP chain (gate + limiter + NR). */
-              echoCancellation: { ideal: true },
-              noiseSuppression: { ideal: false },
-              autoGainControl: { ideal: false },
-            },
+            // keep mono/48 kHz for Web-RTC and RNNoise compatibility
+            channelCount: { ideal: 1, max: 1 },
+            sampleRate: { ideal: 48_000 },
+
+            /* 🔑  Disable the browser's built-ins because our own
+             DSP chain (HPF + NR + gate + compressor/limiter) replaces them. */
+            echoCancellation: { ideal: true },
+            noiseSuppression: { ideal: false },
+            autoGainControl: { ideal: false },
           };
         }
 
-        const mediaStream = await navigator.mediaDevices.getUserMedia(
-          constraints
-        );
+        let mediaStream: MediaStream;
+        try {
+          mediaStream = await navigator.mediaDevices.getUserMedia({
+            audio: deviceId
+              ? { ...constraints, deviceId: { exact: deviceId } }
+              : constraints,
+          });
+        } catch (err) {
+          // The chosen device may have been unplugged, use the default instead
+          const isDeviceMissing =
+            err instanceof Error &&
+            (err.name === "OverconstrainedError" ||
+              err.name === "NotFoundError");
+          if (!deviceId || !isDeviceMissing) throw err;
+
+          console.warn(
+            "⚠️ Selected microphone unavailable, falling back to default:",
+            deviceId
+          );
+          mediaStream = await navigator.mediaDevices.getUserMedia({
+            audio: constraints,
+          });
+        }
         setHasPermission(true);
         return mediaStream;
       } catch (err) {
@@ -542,6 +726,100 @@ export function useVoice(): UseVoiceReturn {
     []
   );
 
+  // Refresh the microphone list, returns the devices found
+  const refreshAudioInputs = useCallback(async () => {
+    try {
+      const inputs = await listAudioInputs();
+      setAudioInputs(inputs);
+      return inputs;
+    } catch (err) {
+      console.warn("⚠️ Failed to enumerate audio inputs:", err);
+      return [];
+    }
+  }, []);
+
+  // Track which device feeds the session and notice when it goes away
+  const watchInputStream = useCallback((mediaStream: MediaStream) => {
+    setActiveInputId(getStreamDeviceId(mediaStream));
+    mediaStream.getAudioTracks().forEach((track) => {
+      // Fires when the device disappears, not when we stop the track
+      track.addEventListener("ended", () => {
+        console.warn("🔌 Microphone track ended:", track.label);
+        reconcileInputRef.current();
+      });
+    });
+  }, []);
+
+  // Move a live session to another microphone. Only the source node is
+  // replaced: analyser, DSP chain, PCM tap and MediaRecorder stay connected,
+  // so everything captured so far is kept and the take simply continues.
+  const switchInput = useCallback(
+    (deviceId: string | null) => {
+      const performSwitch = async () => {
+        const audioContext = audioContextRef.current;
+        const nodes = audioNodesRef.current;
+        if (!audioContext || !nodes) return;
+
+        console.log("🔀 Switching microphone to:", deviceId ?? "default");
+        const mediaStream = await requestMicrophoneAccess(
+          audioProcessingMode,
+          deviceId
+        );
+
+        // The session ended while the new device was opening
+        if (audioNodesRef.current !== nodes) {
+          mediaStream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+
+        const sourceNode = audioContext.createMediaStreamSource(mediaStream);
+        nodes.sourceNode.disconnect();
+        connectSourceNode(sourceNode, nodes);
+        nodes.sourceNode = sourceNode;
+
+        mediaStreamRef.current?.getTracks().forEach((track) => track.stop());
+        mediaStreamRef.current = mediaStream;
+        watchInputStream(mediaStream);
+        console.log("✅ Microphone switched:", getStreamDeviceId(mediaStream));
+      };
+
+      inputSwitchRef.current = inputSwitchRef.current
+        .then(performSwitch)
+        .catch((err) => {
+          console.error("❌ Failed to switch microphone:", err);
+          setError(
+            err instanceof Error ? err.message : "Failed to switch microphone"
+          );
+        });
+    },
+    [audioProcessingMode, requestMicrophoneAccess, watchInputStream]
+  );
+
+  // After a device change, keep the session on the preferred microphone when
+  // it is present and off any device that has disappeared
+  const reconcileInput = useCallback(async () => {
+    const inputs = await refreshAudioInputs();
+    const mediaStream = mediaStreamRef.current;
+    if (!mediaStream || !audioNodesRef.current) return;
+
+    const activeId = getStreamDeviceId(mediaStream);
+    const track = mediaStream.getAudioTracks()[0];
+    const isAvailable = (deviceId: string | null) =>
+      inputs.some((input) => input.deviceId === deviceId);
+
+    const preferredId = selectedInputIdRef.current;
+    const targetId =
+      preferredId && isAvailable(preferredId) ? preferredId : null;
+    const activeLost =
+      !track || track.readyState === "ended" || !isAvailable(activeId);
+    const preferredReturned = targetId !== null && targetId !== activeId;
+
+    if (activeLost || preferredReturned) {
+      switchInput(targetId);
+    }
+  }, [refreshAudioInputs, switchInput]);
+  reconcileInputRef.current = () => void reconcileInput();
+
   // Start recording
   const startRecording = useCallback(async () => {
     try {
@@ -564,13 +842,20 @@ export function useVoice(): UseVoiceReturn {
 
       // Get microphone access
       console.log("🎤 Requesting microphone access...");
-      const mediaStream = await requestMicrophoneAccess(audioProcessingMode);
+      const mediaStream = await requestMicrophoneAccess(
+        audioProcessingMode,
+        selectedInputIdRef.current
+      );
       mediaStreamRef.current = mediaStream;
+      watchInputStream(mediaStream);
       console.log("✅ Microphone access granted");
 
+      // Labels are only exposed once permission has been granted
+      void refreshAudioInputs();
+
       // Create audio processing chain
       console.log("🔧 Creating audio processing chain...");
-      const audioNodes = createAudioProcessingChain(
+      const audioNodes = await createAudioProcessingChain(
         audioContext,
         mediaStream,
         audioProcessingMode
@@ -578,6 +863,41 @@ export function useVoice(): UseVoiceReturn {
       audioNodesRef.current = audioNodes;
       console.log("✅ Audio processing chain created");
 
+      // Voice-triggered: buffer PCM and wait for speech instead of recording
+      if (recordingMode === "voice-triggered") {
+        console.log("👂 Arming voice-triggered recording...");
+        if (!isDspSupported(audioContext)) {
+          throw new Error(
+            "Voice-triggered recording needs AudioWorklet support"
+          );
+        }
+
+        const { preRollMs, silenceTimeoutMs } = voiceTriggerConfigRef.current;
+        const preRollBuffer = createPreRollBuffer(
+          audioContext.sampleRate,
+          preRollMs
+        );
+        preRollBufferRef.current = preRollBuffer;
+        voiceTriggerRef.current = createVoiceTrigger({
+          preRollMs,
+          silenceTimeoutMs,
+        });
+
+        // Capture what would have gone to the MediaRecorder
+        const pcmTap = await createPcmTap(
+          audioContext,
+          ({ samples, startFrame }) => preRollBuffer.push(samples, startFrame)
+        );
+        (audioNodes.dspChain?.output ?? audioNodes.sourceNode).connect(pcmTap);
+        audioNodes.pcmTap = pcmTap;
+
+        resetRecordingDuration();
+        setIsArmed(true);
+        analyzeAudio();
+        console.log("✅ Armed, listening for speech");
+        return;
+      }
+
       // Setup MediaRecorder with processed audio
       console.log("📹 Setting up MediaRecorder...");
       const processedStream = audioNodes.destinationNode.stream;
@@ -651,6 +971,8 @@ export function useVoice(): UseVoiceReturn {
           });
           console.log("💾 Recording blob created:", blob.size, "bytes");
           setRecordedAudio(blob);
+          unprocessedAudioRef.current = null;
+          setRecordingAnalysis(null);
         } else {
           console.warn("⚠️ No audio chunks recorded");
           setError("No audio data was recorded");
@@ -680,10 +1002,14 @@ export function useVoice(): UseVoiceReturn {
       // Start recording and analysis
       console.log("🎬 Starting MediaRecorder...");
       mediaRecorder.start(100); // Collect data every 100ms
+      resetRecordingDuration();
+      segmentStartRef.current = performance.now();
+      takeStartMsRef.current = audioContext.currentTime * 1000;
       console.log("📹 MediaRecorder.start() called");
 
       // Set recording state
       setIsRecording(true);
+      setIsPaused(false);
       console.log("✅ Recording state set to true");
 
       // Start audio analysis - this will continue running for visualization
@@ -703,8 +1029,13 @@ export function useVoice(): UseVoiceReturn {
     checkBrowserSupport,
     initializeAudioContext,
     requestMicrophoneAccess,
+    watchInputStream,
+    refreshAudioInputs,
     createAudioProcessingChain,
     analyzeAudio,
+    audioProcessingMode,
+    recordingMode,
+    resetRecordingDuration,
   ]);
 
   // Stop recording
@@ -721,6 +1052,12 @@ export function useVoice(): UseVoiceReturn {
 
     // First, set recording state to false to update UI immediately
     setIsRecording(false);
+    setIsPaused(false);
+
+    // Freeze the duration so the finished take still shows its length
+    accumulatedDurationRef.current = getRecordingDuration();
+    segmentStartRef.current = null;
+    setRecordingDuration(accumulatedDurationRef.current);
 
     const recorder = mediaRecorderRef.current;
     if (recorder) {
@@ -750,7 +1087,7 @@ export function useVoice(): UseVoiceReturn {
     // Reset audio analysis state
     setCurrentVolume(0);
     setIsVoiceDetected(false);
-    volumeHistoryRef.current = [];
+    vadRef.current?.reset();
 
     // Reset audio visualization data
     setAudioData({
@@ -762,6 +1099,33 @@ export function useVoice(): UseVoiceReturn {
       trebleLevel: 0,
     });
 
+    // Voice-triggered take: encode whatever was committed after the onset
+    const preRollBuffer = preRollBufferRef.current;
+    if (preRollBuffer?.isCommitted && audioContextRef.current) {
+      const samples = preRollBuffer.getSamples();
+      if (samples.length > 0) {
+        const wav = encodeWav({
+          sampleRate: audioContextRef.current.sampleRate,
+          channels: [samples],
+        });
+        const blob = new Blob([wav], { type: "audio/wav" });
+        console.log(
+          "💾 Voice-triggered recording created:",
+          blob.size,
+          "bytes"
+        );
+        setRecordedAudio(blob);
+        unprocessedAudioRef.current = null;
+        setRecordingAnalysis(null);
+      } else {
+        console.warn("⚠️ No audio committed by the voice trigger");
+        setError("No audio data was recorded");
+      }
+    }
+    preRollBufferRef.current = null;
+    voiceTriggerRef.current = null;
+    setIsArmed(false);
+
     // Clean up audio nodes and context
     if (audioNodesRef.current) {
       const nodes = audioNodesRef.current;
@@ -770,6 +1134,9 @@ export function useVoice(): UseVoiceReturn {
         nodes.sourceNode.disconnect();
         nodes.analyser.disconnect();
         nodes.destinationNode.disconnect();
+        nodes.dspChain?.disconnect();
+        nodes.pcmTap?.disconnect();
+        nodes.pcmTap?.port.close();
         console.log("✅ Audio nodes disconnected");
       } catch (err) {
         console.warn("⚠️ Error disconnecting audio nodes:", err);
@@ -801,13 +1168,87 @@ export function useVoice(): UseVoiceReturn {
       mediaStreamRef.current = null;
       console.log("✅ Media stream stopped");
     }
+    setActiveInputId(null);
 
     // Clear MediaRecorder reference
     mediaRecorderRef.current = null;
 
     console.log("✅ Recording stopped and cleaned up");
+  }, [getRecordingDuration]);
+  stopRecordingRef.current = stopRecording;
+
+  // Reset the live analysis output so visuals settle while nothing is captured
+  const resetAnalysis = useCallback(() => {
+    setCurrentVolume(0);
+    setIsVoiceDetected(false);
+    vadRef.current?.reset();
+    setAudioData({
+      amplitude: 0,
+      frequency: 0,
+      frequencyData: new Uint8Array(512), // Match the new fftSize
+      bassLevel: 0,
+      midLevel: 0,
+      trebleLevel: 0,
+    });
   }, []);
 
+  // Pause recording (manual mode only: a voice-triggered take ends on silence)
+  const pauseRecording = useCallback(() => {
+    const recorder = mediaRecorderRef.current;
+    if (!recorder || recorder.state !== "recording") {
+      console.log("⚠️ Cannot pause, MediaRecorder state:", recorder?.state);
+      return;
+    }
+
+    console.log("⏸️ Pausing recording...");
+    recorder.pause();
+    if (audioContextRef.current) {
+      pausedAtMsRef.current = audioContextRef.current.currentTime * 1000;
+    }
+
+    // Close the running duration segment
+    accumulatedDurationRef.current = getRecordingDuration();
+    segmentStartRef.current = null;
+    setRecordingDuration(accumulatedDurationRef.current);
+
+    // Stop analysis while paused, nothing we see now ends up in the take
+    if (animationFrameRef.current) {
+      cancelAnimationFrame(animationFrameRef.current);
+      animationFrameRef.current = null;
+    }
+    resetAnalysis();
+
+    setIsPaused(true);
+  }, [getRecordingDuration, resetAnalysis]);
+
+  // Resume a paused recording
+  const resumeRecording = useCallback(() => {
+    const recorder = mediaRecorderRef.current;
+    if (!recorder || recorder.state !== "paused") {
+      console.log("⚠️ Cannot resume, MediaRecorder state:", recorder?.state);
+      return;
+    }
+
+    console.log("▶️ Resuming recording...");
+    recorder.resume();
+    segmentStartRef.current = performance.now();
+    // The pause isn't part of the take
+    if (
+      audioContextRef.current &&
+      takeStartMsRef.current !== null &&
+      pausedAtMsRef.current !== null
+    ) {
+      takeStartMsRef.current +=
+        audioContextRef.current.currentTime * 1000 - pausedAtMsRef.current;
+    }
+    pausedAtMsRef.current = null;
+    setIsPaused(false);
+
+    // The detector's history predates the pause, start it fresh
+    vadRef.current?.reset();
+    analyzeAudio();
+  }, [analyzeAudio]);
+
   // Play recorded audio
   const playRecording = useCallback(() => {
     if (recordedAudio && !isPlaying) {
@@ -846,46 +1287,114 @@ export function useVoice(): UseVoiceReturn {
   // Clear recording
   const clearRecording = useCallback(() => {
     setRecordedAudio(null);
+    unprocessedAudioRef.current = null;
+    setRecordingAnalysis(null);
     recordedChunksRef.current = [];
     if (isPlaying) {
       stopPlayback();
     }
   }, [isPlaying, stopPlayback]);
 
-  const getRecordedAudioAsWav = useCallback(async (): Promise<Blob | null> => {
-    if (!recordedAudio) {
-      setError("No audio recorded to convert to WAV.");
-      console.error("getRecordedAudioAsWav called with no recordedAudio blob.");
-      return null;
-    }
+  const exportRecording = useCallback(
+    async (exportOptions: ExportOptions): Promise<Blob | null> => {
+      if (!recordedAudio) {
+        setError("No audio recorded to export.");
+        console.error("exportRecording called with no recordedAudio blob.");
+        return null;
+      }
 
-    // Use a temporary AudioContext to decode the audio data.
-    // This is safer than relying on the main context, which might be closed.
-    const tempAudioContext = new (window.AudioContext ||
-      (window as any).webkitAudioContext)();
+      try {
+        const audio = await decodeRecording(recordedAudio);
+        const { bytes, mimeType } = exportAudio(audio, exportOptions);
+        return new Blob([bytes], { type: mimeType });
+      } catch (err) {
+        console.error("Failed to export audio:", err);
+        setError(
+          "Failed to export the recording. It might be too short or corrupted."
+        );
+        return null;
+      }
+    },
+    [recordedAudio]
+  );
 
-    try {
-      const arrayBuffer = await recordedAudio.arrayBuffer();
-      const audioBuffer = await tempAudioContext.decodeAudioData(arrayBuffer);
-      const wavBlob = encodeWav(audioBuffer);
-      return wavBlob;
-    } catch (err) {
-      console.error("Failed to convert audio to WAV:", err);
-      setError(
-        "Failed to convert to WAV format. The recording might be too short or corrupted."
-      );
-      return null;
-    } finally {
-      // Clean up the temporary context
-      tempAudioContext.close();
-    }
-  }, [recordedAudio]);
+  // Trim silence and normalize loudness of the finished take. Always starts
+  // from the unprocessed take, so it can be re-run with other settings.
+  const processRecording = useCallback(
+    async (processOptions: PostProcessOptions = {}) => {
+      const source = unprocessedAudioRef.current ?? recordedAudio;
+      if (!source) {
+        setError("No audio recorded to process.");
+        return;
+      }
+
+      setIsProcessing(true);
+      try {
+        console.log("✂️ Post-processing recording:", processOptions);
+        const { audio, analysis } = postProcessAudio(
+          await decodeRecording(source),
+          processOptions
+        );
+        const wav = encodeWav(audio, { sampleFormat: "pcm24" });
+
+        unprocessedAudioRef.current = source;
+        setRecordedAudio(new Blob([wav], { type: "audio/wav" }));
+        setRecordingAnalysis(analysis);
+        console.log("✅ Post-processing done:", analysis);
+      } catch (err) {
+        console.error("Failed to post-process audio:", err);
+        setError(
+          "Failed to process the recording. It might be too short or corrupted."
+        );
+      } finally {
+        setIsProcessing(false);
+      }
+    },
+    [recordedAudio]
+  );
 
   // Set Audio Processing Mode
   const setAudioProcessingMode = useCallback((mode: AudioProcessingMode) => {
     setAudioProcessingModeState(mode);
   }, []);
 
+  // Update the DSP chain, applied immediately if a raw recording is running
+  const updateDspConfig = useCallback((update: DspChainConfigUpdate) => {
+    const nextConfig = mergeDspConfig(dspConfigRef.current, update);
+    dspConfigRef.current = nextConfig;
+    setDspConfig(nextConfig);
+    audioNodesRef.current?.dspChain?.update(nextConfig);
+  }, []);
+
+  // Set Recording Mode
+  const setRecordingMode = useCallback((mode: RecordingMode) => {
+    setRecordingModeState(mode);
+  }, []);
+
+  // Update the voice trigger, takes effect the next time recording is armed
+  const updateVoiceTriggerConfig = useCallback(
+    (update: VoiceTriggerOptions) => {
+      const nextConfig = { ...voiceTriggerConfigRef.current, ...update };
+      voiceTriggerConfigRef.current = nextConfig;
+      setVoiceTriggerConfig(nextConfig);
+    },
+    []
+  );
+
+  // Pick a microphone, remembered for the next visit
+  const selectInput = useCallback(
+    (deviceId: string | null) => {
+      setSelectedInputId(deviceId);
+      selectedInputIdRef.current = deviceId;
+      savePreferredInputId(deviceId);
+
+      if (audioNodesRef.current) {
+        switchInput(deviceId);
+      }
+    },
+    [switchInput]
+  );
+
   // Cleanup function
   const cleanup = useCallback(() => {
     console.log("🧹 Starting cleanup...");
@@ -922,6 +1431,9 @@ export function useVoice(): UseVoiceReturn {
         nodes.sourceNode.disconnect();
         nodes.analyser.disconnect();
         nodes.destinationNode.disconnect();
+        nodes.dspChain?.disconnect();
+        nodes.pcmTap?.disconnect();
+        nodes.pcmTap?.port.close();
         console.log("🔌 Audio nodes disconnected in cleanup");
       } catch (err) {
         console.warn("⚠️ Error disconnecting audio nodes in cleanup:", err);
@@ -944,12 +1456,19 @@ export function useVoice(): UseVoiceReturn {
       mediaStreamRef.current = null;
       console.log("🎤 Media stream stopped in cleanup");
     }
+    setActiveInputId(null);
+
+    // Discard any voice-triggered take in progress
+    preRollBufferRef.current = null;
+    voiceTriggerRef.current = null;
 
     // Reset state
     setIsRecording(false);
+    setIsPaused(false);
+    setIsArmed(false);
     setCurrentVolume(0);
     setIsVoiceDetected(false);
-    volumeHistoryRef.current = [];
+    vadRef.current?.reset();
 
     // Reset audio visualization data
     setAudioData({
@@ -964,6 +1483,22 @@ export function useVoice(): UseVoiceReturn {
     console.log("✅ Cleanup completed");
   }, [isPlaying]);
 
+  // Keep the microphone list current and react to devices coming and going
+  useEffect(() => {
+    void refreshAudioInputs();
+
+    const mediaDevices = navigator.mediaDevices;
+    if (!mediaDevices) return;
+
+    const handleDeviceChange = () => {
+      console.log("🎧 Audio devices changed");
+      reconcileInputRef.current();
+    };
+    mediaDevices.addEventListener("devicechange", handleDeviceChange);
+    return () =>
+      mediaDevices.removeEventListener("devicechange", handleDeviceChange);
+  }, [refreshAudioInputs]);
+
   // Cleanup on unmount
   useEffect(() => {
     return cleanup;
@@ -972,6 +1507,8 @@ export function useVoice(): UseVoiceReturn {
   return {
     // State
     isRecording,
+    isPaused,
+    recordingDuration,
     isPlaying,
     hasPermission,
     recordedAudio,
@@ -987,15 +1524,37 @@ export function useVoice(): UseVoiceReturn {
     // Controls
     startRecording,
     stopRecording,
+    pauseRecording,
+    resumeRecording,
     playRecording,
     stopPlayback,
     clearRecording,
 
     // Settings
-    getRecordedAudioAsWav,
+    exportRecording,
+    processRecording,
+    isProcessing,
+    recordingAnalysis,
 
     // Audio Processing Mode
     audioProcessingMode,
     setAudioProcessingMode,
+
+    // DSP chain
+    dspConfig,
+    updateDspConfig,
+
+    // Voice-triggered recording
+    recordingMode,
+    setRecordingMode,
+    isArmed,
+    voiceTriggerConfig,
+    updateVoiceTriggerConfig,
+
+    // Microphone selection
+    audioInputs,
+    selectedInputId,
+    activeInputId,
+    selectInput,
   };
 }
@@ -0,0 +1,42 @@
+import { PREFERRED_INPUT_STORAGE_KEY } from "./constants";
+import type { AudioInputDevice } from "./types";
+
+/**
+ * Lists the available microphones. Browsers only expose labels once
+ * microphone permission has been granted, so unnamed devices get a
+ * numbered fallback label.
+ */
+export async function listAudioInputs(): Promise<AudioInputDevice[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter((device) => device.kind === "audioinput" && device.deviceId)
+    .map((device, index) => ({
+      deviceId: device.deviceId,
+      label: device.label || `Microphone ${index + 1}`,
+      groupId: device.groupId,
+    }));
+}
+
+// Storage can be unavailable (private mode, blocked cookies), the preference
+// is a convenience so failures are ignored
+export function loadPreferredInputId(): string | null {
+  try {
+    return localStorage.getItem(PREFERRED_INPUT_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function savePreferredInputId(deviceId: string | null) {
+  try {
+    if (deviceId) {
+      localStorage.setItem(PREFERRED_INPUT_STORAGE_KEY, deviceId);
+    } else {
+      localStorage.removeItem(PREFERRED_INPUT_STORAGE_KEY);
+    }
+  } catch {
+    // Ignore, see above
+  }
+}
@@ -0,0 +1,2 @@
+// localStorage key for the microphone the user picked last
+export const PREFERRED_INPUT_STORAGE_KEY = "vibespeak:preferred-audio-input";
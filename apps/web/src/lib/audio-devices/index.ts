@@ -0,0 +1,12 @@
+// Types and interfaces
+export type * from "./types";
+
+// Constants
+export * from "./constants";
+
+// Device enumeration and the remembered preference
+export {
+  listAudioInputs,
+  loadPreferredInputId,
+  savePreferredInputId,
+} from "./audio-inputs";
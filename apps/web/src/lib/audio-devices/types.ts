@@ -0,0 +1,5 @@
+export interface AudioInputDevice {
+  deviceId: string;
+  label: string;
+  groupId: string;
+}
@@ -0,0 +1,38 @@
+import type { DspChainConfig } from "./types";
+
+// Registered processor names, shared by the worklet module and the main thread
+export const NOISE_REDUCTION_PROCESSOR = "vibespeak-noise-reduction";
+export const NOISE_GATE_PROCESSOR = "vibespeak-noise-gate";
+export const COMPRESSOR_PROCESSOR = "vibespeak-compressor";
+export const PCM_TAP_PROCESSOR = "vibespeak-pcm-tap";
+
+// Tuned for speech recorded close to the microphone
+export const DEFAULT_DSP_CONFIG: DspChainConfig = {
+  highPass: {
+    enabled: true,
+    frequency: 80,
+  },
+  noiseReduction: {
+    enabled: true,
+    amount: 0.8,
+    floorDb: -20,
+  },
+  noiseGate: {
+    enabled: true,
+    thresholdDb: -50,
+    attackMs: 5,
+    holdMs: 150,
+    releaseMs: 120,
+    rangeDb: -40,
+  },
+  compressor: {
+    enabled: true,
+    thresholdDb: -24,
+    ratio: 4,
+    kneeDb: 6,
+    attackMs: 10,
+    releaseMs: 150,
+    makeupDb: 6,
+    limiterCeilingDb: -1,
+  },
+};
@@ -0,0 +1,148 @@
+import workletUrl from "./worklets/index.ts?worker&url";
+
+import {
+  COMPRESSOR_PROCESSOR,
+  NOISE_GATE_PROCESSOR,
+  NOISE_REDUCTION_PROCESSOR,
+} from "./constants";
+import type {
+  DspChain,
+  DspChainConfig,
+  DspChainConfigUpdate,
+  DspWorkletMessage,
+} from "./types";
+
+// addModule only needs to run once per context
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+export const isDspSupported = (audioContext: BaseAudioContext) =>
+  typeof AudioWorkletNode !== "undefined" && "audioWorklet" in audioContext;
+
+// Registers every processor of the worklet module with the context
+export async function loadDspWorklets(audioContext: BaseAudioContext) {
+  if (loadedContexts.has(audioContext)) return;
+  await audioContext.audioWorklet.addModule(workletUrl);
+  loadedContexts.add(audioContext);
+}
+
+const createProcessorNode = <Config>(
+  audioContext: BaseAudioContext,
+  name: string,
+  config: Config
+) =>
+  new AudioWorkletNode(audioContext, name, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    processorOptions: { config },
+  });
+
+const postConfig = <Config>(node: AudioWorkletNode, config: Config) => {
+  const message: DspWorkletMessage<Config> = { type: "config", config };
+  node.port.postMessage(message);
+};
+
+/**
+ * Builds the raw-mode processing chain:
+ * input → high-pass → noise reduction → noise gate → compressor/limiter → output
+ *
+ * Disabled stages are unplugged from the graph rather than processed as a
+ * pass-through, so they add neither CPU cost nor latency.
+ */
+export async function createDspChain(
+  audioContext: BaseAudioContext,
+  initialConfig: DspChainConfig
+): Promise<DspChain> {
+  await loadDspWorklets(audioContext);
+
+  let config = initialConfig;
+
+  const input = audioContext.createGain();
+  const output = audioContext.createGain();
+
+  const highPass = audioContext.createBiquadFilter();
+  highPass.type = "highpass";
+  highPass.Q.value = Math.SQRT1_2; // Butterworth, no resonant bump
+  highPass.frequency.value = config.highPass.frequency;
+
+  const noiseReduction = createProcessorNode(
+    audioContext,
+    NOISE_REDUCTION_PROCESSOR,
+    config.noiseReduction
+  );
+  const noiseGate = createProcessorNode(
+    audioContext,
+    NOISE_GATE_PROCESSOR,
+    config.noiseGate
+  );
+  const compressor = createProcessorNode(
+    audioContext,
+    COMPRESSOR_PROCESSOR,
+    config.compressor
+  );
+
+  const stages = [
+    { key: "highPass", node: highPass },
+    { key: "noiseReduction", node: noiseReduction },
+    { key: "noiseGate", node: noiseGate },
+    { key: "compressor", node: compressor },
+  ] as const;
+
+  const wire = () => {
+    input.disconnect();
+    stages.forEach(({ node }) => node.disconnect());
+
+    let previous: AudioNode = input;
+    for (const { key, node } of stages) {
+      if (!config[key].enabled) continue;
+      previous.connect(node);
+      previous = node;
+    }
+    previous.connect(output);
+  };
+
+  const isWiredFor = (next: DspChainConfig) =>
+    stages.every(({ key }) => next[key].enabled === config[key].enabled);
+
+  wire();
+
+  return {
+    input,
+    output,
+
+    update(nextConfig) {
+      const rewire = !isWiredFor(nextConfig);
+      config = nextConfig;
+
+      highPass.frequency.setTargetAtTime(
+        config.highPass.frequency,
+        audioContext.currentTime,
+        0.02
+      );
+      postConfig(noiseReduction, config.noiseReduction);
+      postConfig(noiseGate, config.noiseGate);
+      postConfig(compressor, config.compressor);
+
+      if (rewire) wire();
+    },
+
+    disconnect() {
+      input.disconnect();
+      output.disconnect();
+      stages.forEach(({ node }) => node.disconnect());
+      [noiseReduction, noiseGate, compressor].forEach((node) =>
+        node.port.close()
+      );
+    },
+  };
+}
+
+// Applies a partial update on top of a full config
+export const mergeDspConfig = (
+  config: DspChainConfig,
+  update: DspChainConfigUpdate
+): DspChainConfig => ({
+  highPass: { ...config.highPass, ...update.highPass },
+  noiseReduction: { ...config.noiseReduction, ...update.noiseReduction },
+  noiseGate: { ...config.noiseGate, ...update.noiseGate },
+  compressor: { ...config.compressor, ...update.compressor },
+});
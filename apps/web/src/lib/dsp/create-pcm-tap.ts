@@ -0,0 +1,26 @@
+import { PCM_TAP_PROCESSOR } from "./constants";
+import { loadDspWorklets } from "./create-dsp-chain";
+import type { PcmTapMessage } from "./types";
+
+/**
+ * Creates a sink node that streams the (mono) samples it receives to
+ * `onSamples`. Connect the signal to capture into the returned node.
+ */
+export async function createPcmTap(
+  audioContext: BaseAudioContext,
+  onSamples: (message: PcmTapMessage) => void
+): Promise<AudioWorkletNode> {
+  await loadDspWorklets(audioContext);
+
+  const tap = new AudioWorkletNode(audioContext, PCM_TAP_PROCESSOR, {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    channelCountMode: "explicit",
+  });
+  tap.port.onmessage = (event: MessageEvent<PcmTapMessage>) => {
+    onSamples(event.data);
+  };
+
+  return tap;
+}
@@ -0,0 +1,14 @@
+// Types and interfaces
+export type * from "./types";
+
+// Constants and default configuration
+export * from "./constants";
+
+// Chain construction
+export {
+  createDspChain,
+  isDspSupported,
+  loadDspWorklets,
+  mergeDspConfig,
+} from "./create-dsp-chain";
+export { createPcmTap } from "./create-pcm-tap";
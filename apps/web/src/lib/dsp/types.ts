@@ -0,0 +1,64 @@
+// High-pass filter removing rumble, handling noise and DC offset
+export interface HighPassConfig {
+  enabled: boolean;
+  frequency: number; // cutoff in Hz
+}
+
+// Spectral subtraction against a continuously tracked noise profile
+export interface NoiseReductionConfig {
+  enabled: boolean;
+  amount: number; // 0-1, how much of the estimated noise to subtract
+  floorDb: number; // never attenuate a bin by more than this (negative dB)
+}
+
+// Downward gate closing between phrases
+export interface NoiseGateConfig {
+  enabled: boolean;
+  thresholdDb: number; // gate opens above this level
+  attackMs: number; // time to open
+  holdMs: number; // time to stay open after the level drops
+  releaseMs: number; // time to close
+  rangeDb: number; // attenuation when closed (negative dB)
+}
+
+// Feed-forward compressor followed by a peak limiter
+export interface CompressorConfig {
+  enabled: boolean;
+  thresholdDb: number;
+  ratio: number;
+  kneeDb: number;
+  attackMs: number;
+  releaseMs: number;
+  makeupDb: number;
+  limiterCeilingDb: number; // hard ceiling applied after makeup gain
+}
+
+export interface DspChainConfig {
+  highPass: HighPassConfig;
+  noiseReduction: NoiseReductionConfig;
+  noiseGate: NoiseGateConfig;
+  compressor: CompressorConfig;
+}
+
+export type DspStage = keyof DspChainConfig;
+
+// Partial update, each stage can be changed independently
+export type DspChainConfigUpdate = {
+  [Stage in DspStage]?: Partial<DspChainConfig[Stage]>;
+};
+
+// Messages sent to the worklet processors over their MessagePort
+export type DspWorkletMessage<Config> = { type: "config"; config: Config };
+
+// Block of samples posted by the PCM tap, `startFrame` is on the context clock
+export interface PcmTapMessage {
+  samples: Float32Array;
+  startFrame: number;
+}
+
+export interface DspChain {
+  input: AudioNode;
+  output: AudioNode;
+  update: (config: DspChainConfig) => void;
+  disconnect: () => void;
+}
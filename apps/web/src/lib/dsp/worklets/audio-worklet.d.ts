@@ -0,0 +1,20 @@
+// Globals of the AudioWorkletGlobalScope, which TypeScript doesn't ship types for.
+// Only available inside modules loaded through `audioWorklet.addModule`.
+
+declare abstract class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: AudioWorkletNodeOptions);
+  abstract process(
+    inputs: Float32Array[][],
+    outputs: Float32Array[][],
+    parameters: Record<string, Float32Array>
+  ): boolean;
+}
+
+declare function registerProcessor(
+  name: string,
+  processorCtor: new (options?: AudioWorkletNodeOptions) => AudioWorkletProcessor
+): void;
+
+declare const sampleRate: number;
+declare const currentFrame: number;
@@ -0,0 +1,87 @@
+import { COMPRESSOR_PROCESSOR, DEFAULT_DSP_CONFIG } from "../constants";
+import type { CompressorConfig, DspWorkletMessage } from "../types";
+import {
+  dbToGain,
+  framePeak,
+  gainToDb,
+  initialConfig,
+  passThrough,
+  timeCoefficient,
+} from "./utils";
+
+// Limiter recovery after catching a peak
+const LIMITER_RELEASE_MS = 50;
+
+// Static gain curve with a quadratic soft knee, returns gain reduction in dB (<= 0)
+const computeGainReduction = (
+  levelDb: number,
+  { thresholdDb, ratio, kneeDb }: CompressorConfig
+) => {
+  const over = levelDb - thresholdDb;
+  const slope = 1 / Math.max(ratio, 1) - 1;
+  if (2 * over < -kneeDb) return 0;
+  if (kneeDb > 0 && 2 * Math.abs(over) <= kneeDb) {
+    return (slope * Math.pow(over + kneeDb / 2, 2)) / (2 * kneeDb);
+  }
+  return slope * over;
+};
+
+class CompressorProcessor extends AudioWorkletProcessor {
+  private config: CompressorConfig;
+  private reductionDb = 0;
+  private limiterGain = 1;
+
+  constructor(options?: AudioWorkletNodeOptions) {
+    super(options);
+    this.config = initialConfig(options, DEFAULT_DSP_CONFIG.compressor);
+    this.port.onmessage = (
+      event: MessageEvent<DspWorkletMessage<CompressorConfig>>
+    ) => {
+      if (event.data.type === "config") this.config = event.data.config;
+    };
+  }
+
+  process(inputs: Float32Array[][], outputs: Float32Array[][]) {
+    const input = inputs[0];
+    const output = outputs[0];
+    if (!input || input.length === 0) return true;
+
+    if (!this.config.enabled) {
+      passThrough(input, output);
+      return true;
+    }
+
+    const attack = timeCoefficient(this.config.attackMs);
+    const release = timeCoefficient(this.config.releaseMs);
+    const limiterRelease = timeCoefficient(LIMITER_RELEASE_MS);
+    const ceiling = dbToGain(this.config.limiterCeilingDb);
+
+    for (let frame = 0; frame < output[0].length; frame++) {
+      // Compressor: smooth the gain reduction in the dB domain
+      const target = computeGainReduction(
+        gainToDb(framePeak(input, frame)),
+        this.config
+      );
+      const coefficient = target < this.reductionDb ? attack : release;
+      this.reductionDb = target + (this.reductionDb - target) * coefficient;
+      const gain = dbToGain(this.reductionDb + this.config.makeupDb);
+
+      // Limiter: instant attack so nothing passes the ceiling
+      const peak = framePeak(input, frame) * gain;
+      const needed = peak > ceiling ? ceiling / peak : 1;
+      this.limiterGain =
+        needed < this.limiterGain
+          ? needed
+          : needed + (this.limiterGain - needed) * limiterRelease;
+
+      for (let channel = 0; channel < output.length; channel++) {
+        const source = input[channel] ?? input[0];
+        output[channel][frame] = source[frame] * gain * this.limiterGain;
+      }
+    }
+
+    return true;
+  }
+}
+
+registerProcessor(COMPRESSOR_PROCESSOR, CompressorProcessor);
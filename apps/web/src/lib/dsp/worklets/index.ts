@@ -0,0 +1,5 @@
+// Worklet module entry, bundled separately and loaded with `audioWorklet.addModule`
+import "./noise-reduction";
+import "./noise-gate";
+import "./compressor";
+import "./pcm-tap";
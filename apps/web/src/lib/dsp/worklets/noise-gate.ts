@@ -0,0 +1,76 @@
+import { DEFAULT_DSP_CONFIG, NOISE_GATE_PROCESSOR } from "../constants";
+import type { DspWorkletMessage, NoiseGateConfig } from "../types";
+import {
+  dbToGain,
+  framePeak,
+  initialConfig,
+  passThrough,
+  timeCoefficient,
+} from "./utils";
+
+// Envelope follower release, fast enough to track syllables
+const DETECTOR_RELEASE_MS = 20;
+
+class NoiseGateProcessor extends AudioWorkletProcessor {
+  private config: NoiseGateConfig;
+  private envelope = 0;
+  private gain = 1;
+  private holdRemaining = 0;
+
+  constructor(options?: AudioWorkletNodeOptions) {
+    super(options);
+    this.config = initialConfig(options, DEFAULT_DSP_CONFIG.noiseGate);
+    this.port.onmessage = (
+      event: MessageEvent<DspWorkletMessage<NoiseGateConfig>>
+    ) => {
+      if (event.data.type === "config") this.config = event.data.config;
+    };
+  }
+
+  process(inputs: Float32Array[][], outputs: Float32Array[][]) {
+    const input = inputs[0];
+    const output = outputs[0];
+    if (!input || input.length === 0) return true;
+
+    if (!this.config.enabled) {
+      passThrough(input, output);
+      return true;
+    }
+
+    const threshold = dbToGain(this.config.thresholdDb);
+    const closedGain = dbToGain(this.config.rangeDb);
+    const holdSamples = (this.config.holdMs / 1000) * sampleRate;
+    const attack = timeCoefficient(this.config.attackMs);
+    const release = timeCoefficient(this.config.releaseMs);
+    const detectorRelease = timeCoefficient(DETECTOR_RELEASE_MS);
+
+    for (let frame = 0; frame < output[0].length; frame++) {
+      const peak = framePeak(input, frame);
+      this.envelope =
+        peak > this.envelope
+          ? peak
+          : this.envelope * detectorRelease + peak * (1 - detectorRelease);
+
+      let target = closedGain;
+      if (this.envelope >= threshold) {
+        this.holdRemaining = holdSamples;
+        target = 1;
+      } else if (this.holdRemaining > 0) {
+        this.holdRemaining--;
+        target = 1;
+      }
+
+      const coefficient = target > this.gain ? attack : release;
+      this.gain = target + (this.gain - target) * coefficient;
+
+      for (let channel = 0; channel < output.length; channel++) {
+        const source = input[channel] ?? input[0];
+        output[channel][frame] = source[frame] * this.gain;
+      }
+    }
+
+    return true;
+  }
+}
+
+registerProcessor(NOISE_GATE_PROCESSOR, NoiseGateProcessor);
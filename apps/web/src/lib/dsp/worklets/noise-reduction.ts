@@ -0,0 +1,177 @@
+import { fft, hannWindow } from "@vibespeak/audio";
+
+import { DEFAULT_DSP_CONFIG, NOISE_REDUCTION_PROCESSOR } from "../constants";
+import type { DspWorkletMessage, NoiseReductionConfig } from "../types";
+import { dbToGain, initialConfig, passThrough } from "./utils";
+
+// STFT with 75% overlap; the hop matches the render quantum
+const FRAME_SIZE = 512;
+const HOP_SIZE = 128;
+const BINS = FRAME_SIZE / 2 + 1;
+
+// Hann analysis * Hann synthesis at 75% overlap sums to 1.5
+const OVERLAP_GAIN = 1 / 1.5;
+
+// Temporal smoothing of the power spectrum and of the per-bin gains
+const POWER_SMOOTHING = 0.7;
+const GAIN_SMOOTHING = 0.6;
+
+// The noise tracker follows a much slower average, so its running minimum
+// reflects the noise floor rather than the dips of individual frames
+const NOISE_POWER_SMOOTHING = 0.95;
+
+// Frames the slow average needs to settle; until then it is the noise estimate
+const WARMUP_FRAMES = 20;
+
+// How fast the noise estimate may creep up when the floor gets louder
+const NOISE_RISE_DB_PER_SECOND = 3;
+
+// The running minimum sits well below the average noise power, compensate
+const NOISE_BIAS = 1.5;
+
+interface ChannelState {
+  input: Float32Array;
+  overlap: Float32Array;
+  output: Float32Array;
+  position: number;
+}
+
+const createChannelState = (): ChannelState => ({
+  input: new Float32Array(FRAME_SIZE),
+  overlap: new Float32Array(FRAME_SIZE),
+  output: new Float32Array(HOP_SIZE),
+  position: 0,
+});
+
+class NoiseReductionProcessor extends AudioWorkletProcessor {
+  private config: NoiseReductionConfig;
+  private channels: ChannelState[] = [];
+  private window = hannWindow(FRAME_SIZE);
+  private re = new Float32Array(FRAME_SIZE);
+  private im = new Float32Array(FRAME_SIZE);
+  // Noise profile and smoothing state are shared by all channels
+  private power = new Float32Array(BINS);
+  private noisePower = new Float32Array(BINS);
+  private frames = 0;
+  private noise = new Float32Array(BINS);
+  private gains = new Float32Array(BINS).fill(1);
+  private noiseRise = Math.pow(
+    10,
+    (NOISE_RISE_DB_PER_SECOND / 10) * (HOP_SIZE / sampleRate)
+  );
+
+  constructor(options?: AudioWorkletNodeOptions) {
+    super(options);
+    this.config = initialConfig(options, DEFAULT_DSP_CONFIG.noiseReduction);
+    this.port.onmessage = (
+      event: MessageEvent<DspWorkletMessage<NoiseReductionConfig>>
+    ) => {
+      if (event.data.type === "config") this.config = event.data.config;
+    };
+  }
+
+  process(inputs: Float32Array[][], outputs: Float32Array[][]) {
+    const input = inputs[0];
+    const output = outputs[0];
+    if (!input || input.length === 0) return true;
+
+    if (!this.config.enabled) {
+      passThrough(input, output);
+      return true;
+    }
+
+    while (this.channels.length < input.length) {
+      this.channels.push(createChannelState());
+    }
+
+    for (let channel = 0; channel < input.length; channel++) {
+      const source = input[channel];
+      const channelOutput = output[channel];
+      const state = this.channels[channel];
+      if (!channelOutput) continue;
+
+      for (let frame = 0; frame < source.length; frame++) {
+        channelOutput[frame] = state.output[state.position];
+        state.input[FRAME_SIZE - HOP_SIZE + state.position] = source[frame];
+        state.position++;
+        if (state.position === HOP_SIZE) {
+          // The noise profile follows the first channel only
+          this.processFrame(state, channel === 0);
+          state.position = 0;
+        }
+      }
+    }
+
+    // Extra output channels mirror the last processed one
+    for (let channel = input.length; channel < output.length; channel++) {
+      output[channel].set(output[input.length - 1]);
+    }
+
+    return true;
+  }
+
+  private processFrame(state: ChannelState, updateProfile: boolean) {
+    const { re, im, window } = this;
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      re[i] = state.input[i] * window[i];
+      im[i] = 0;
+    }
+    fft(re, im);
+
+    if (updateProfile) this.updateGains();
+
+    // Apply the gains symmetrically so the inverse stays real
+    for (let bin = 0; bin < BINS; bin++) {
+      const gain = this.gains[bin];
+      re[bin] *= gain;
+      im[bin] *= gain;
+      if (bin > 0 && bin < FRAME_SIZE / 2) {
+        re[FRAME_SIZE - bin] *= gain;
+        im[FRAME_SIZE - bin] *= gain;
+      }
+    }
+    fft(re, im, true);
+
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      state.overlap[i] += re[i] * window[i] * OVERLAP_GAIN;
+    }
+    state.output.set(state.overlap.subarray(0, HOP_SIZE));
+    state.overlap.copyWithin(0, HOP_SIZE);
+    state.overlap.fill(0, FRAME_SIZE - HOP_SIZE);
+    state.input.copyWithin(0, HOP_SIZE);
+  }
+
+  private updateGains() {
+    const { re, im, power, noisePower, noise, gains } = this;
+    const floor = dbToGain(this.config.floorDb);
+
+    for (let bin = 0; bin < BINS; bin++) {
+      const binPower = re[bin] * re[bin] + im[bin] * im[bin];
+      // Seed from the first frame so the averages don't start at silence
+      const primed = this.frames > 0;
+      power[bin] = primed
+        ? POWER_SMOOTHING * power[bin] + (1 - POWER_SMOOTHING) * binPower
+        : binPower;
+      noisePower[bin] = primed
+        ? NOISE_POWER_SMOOTHING * noisePower[bin] +
+          (1 - NOISE_POWER_SMOOTHING) * binPower
+        : binPower;
+
+      // Minimum tracking: drop to the slow average immediately, rise slowly
+      noise[bin] =
+        this.frames < WARMUP_FRAMES
+          ? noisePower[bin]
+          : Math.min(noisePower[bin], noise[bin] * this.noiseRise);
+
+      // Magnitude subtraction expressed as a gain, clamped to the floor
+      const ratio = Math.sqrt(
+        (NOISE_BIAS * noise[bin]) / Math.max(power[bin], 1e-12)
+      );
+      const target = Math.max(floor, 1 - this.config.amount * ratio);
+      gains[bin] = GAIN_SMOOTHING * gains[bin] + (1 - GAIN_SMOOTHING) * target;
+    }
+    this.frames++;
+  }
+}
+
+registerProcessor(NOISE_REDUCTION_PROCESSOR, NoiseReductionProcessor);
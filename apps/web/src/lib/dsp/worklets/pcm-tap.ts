@@ -0,0 +1,35 @@
+import { PCM_TAP_PROCESSOR } from "../constants";
+import type { PcmTapMessage } from "../types";
+
+// Frames collected before posting, keeps message traffic low (~20ms at 48kHz)
+const BLOCK_SIZE = 1024;
+
+// Sink node forwarding the first input channel to the main thread
+class PcmTapProcessor extends AudioWorkletProcessor {
+  private block = new Float32Array(BLOCK_SIZE);
+  private filled = 0;
+  private blockStartFrame = 0;
+
+  process(inputs: Float32Array[][]) {
+    const samples = inputs[0]?.[0];
+    if (!samples) return true;
+
+    for (let i = 0; i < samples.length; i++) {
+      if (this.filled === 0) this.blockStartFrame = currentFrame + i;
+      this.block[this.filled++] = samples[i];
+      if (this.filled === BLOCK_SIZE) {
+        const message: PcmTapMessage = {
+          samples: this.block,
+          startFrame: this.blockStartFrame,
+        };
+        this.port.postMessage(message, [this.block.buffer]);
+        this.block = new Float32Array(BLOCK_SIZE);
+        this.filled = 0;
+      }
+    }
+
+    return true;
+  }
+}
+
+registerProcessor(PCM_TAP_PROCESSOR, PcmTapProcessor);
@@ -0,0 +1,179 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+
+import {
+  COMPRESSOR_PROCESSOR,
+  DEFAULT_DSP_CONFIG,
+  NOISE_GATE_PROCESSOR,
+  NOISE_REDUCTION_PROCESSOR,
+} from "../constants";
+import { dbToGain, gainToDb } from "./utils";
+
+const SAMPLE_RATE = 48000;
+const RENDER_QUANTUM = 128;
+
+type Processor = {
+  process: (inputs: Float32Array[][], outputs: Float32Array[][]) => boolean;
+};
+type ProcessorCtor = new (options?: AudioWorkletNodeOptions) => Processor;
+
+// The worklet modules register their processors in this stand-in for the
+// AudioWorkletGlobalScope
+const processors = new Map<string, ProcessorCtor>();
+
+beforeAll(async () => {
+  vi.stubGlobal("sampleRate", SAMPLE_RATE);
+  vi.stubGlobal("currentFrame", 0);
+  vi.stubGlobal(
+    "AudioWorkletProcessor",
+    class {
+      port = { onmessage: null, postMessage: () => undefined };
+    }
+  );
+  vi.stubGlobal("registerProcessor", (name: string, ctor: ProcessorCtor) =>
+    processors.set(name, ctor)
+  );
+  await import("./index");
+});
+
+// Runs a mono signal through a processor one render quantum at a time
+function render(name: string, config: unknown, signal: Float32Array) {
+  const Processor = processors.get(name)!;
+  const processor = new Processor({ processorOptions: { config } });
+  const rendered = new Float32Array(signal.length);
+  for (let i = 0; i < signal.length; i += RENDER_QUANTUM) {
+    const output = new Float32Array(RENDER_QUANTUM);
+    processor.process([[signal.subarray(i, i + RENDER_QUANTUM)]], [[output]]);
+    rendered.set(output, i);
+  }
+  return rendered;
+}
+
+// Whole render quanta covering `seconds`
+const frameCount = (seconds: number) =>
+  Math.ceil((seconds * SAMPLE_RATE) / RENDER_QUANTUM) * RENDER_QUANTUM;
+
+const sine = (seconds: number, amplitude: number, frequency = 440) =>
+  Float32Array.from(
+    { length: frameCount(seconds) },
+    (_, i) => amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE)
+  );
+
+// Constant level with alternating sign, so peak detectors see a steady level
+const square = (seconds: number, amplitude: number) =>
+  Float32Array.from({ length: frameCount(seconds) }, (_, i) =>
+    i % 2 === 0 ? amplitude : -amplitude
+  );
+
+// Deterministic white noise so runs are reproducible
+const noise = (seconds: number, amplitude: number) => {
+  let seed = 1;
+  return Float32Array.from({ length: frameCount(seconds) }, () => {
+    seed = (seed * 16807) % 2147483647;
+    return amplitude * (seed / 1073741823.5 - 1);
+  });
+};
+
+const rms = (samples: Float32Array) =>
+  Math.sqrt(samples.reduce((sum, x) => sum + x * x, 0) / samples.length);
+
+const peak = (samples: Float32Array) =>
+  samples.reduce((max, x) => Math.max(max, Math.abs(x)), 0);
+
+// The second half, after envelopes and noise profiles have settled
+const settled = (samples: Float32Array) => samples.subarray(samples.length / 2);
+
+describe("utils", () => {
+  it("converts between dB and linear gain", () => {
+    expect(dbToGain(0)).toBe(1);
+    expect(dbToGain(-20)).toBeCloseTo(0.1);
+    expect(gainToDb(0.5)).toBeCloseTo(-6.02, 2);
+    expect(gainToDb(0)).toBe(-180);
+  });
+});
+
+describe("noise gate", () => {
+  const config = DEFAULT_DSP_CONFIG.noiseGate;
+
+  it("attenuates signals below the threshold by the range", () => {
+    const input = sine(2, dbToGain(-60));
+    const output = render(NOISE_GATE_PROCESSOR, config, input);
+    expect(gainToDb(rms(settled(output)) / rms(settled(input)))).toBeCloseTo(
+      config.rangeDb,
+      0
+    );
+  });
+
+  it("passes signals above the threshold unchanged", () => {
+    const input = sine(0.5, dbToGain(-20));
+    const output = render(NOISE_GATE_PROCESSOR, config, input);
+    expect(rms(settled(output))).toBeCloseTo(rms(settled(input)), 4);
+  });
+
+  it("passes everything through when disabled", () => {
+    const input = sine(0.1, dbToGain(-60));
+    const output = render(
+      NOISE_GATE_PROCESSOR,
+      { ...config, enabled: false },
+      input
+    );
+    expect(output).toEqual(input);
+  });
+});
+
+describe("compressor", () => {
+  const config = DEFAULT_DSP_CONFIG.compressor;
+
+  it("keeps peaks under the limiter ceiling", () => {
+    const output = render(COMPRESSOR_PROCESSOR, config, sine(0.5, 1));
+    expect(peak(output)).toBeLessThanOrEqual(
+      dbToGain(config.limiterCeilingDb) + 1e-6
+    );
+  });
+
+  it("reduces the level above the threshold by the ratio", () => {
+    const { thresholdDb, ratio, makeupDb } = config;
+    const levelDb = -6;
+    const output = render(
+      COMPRESSOR_PROCESSOR,
+      { ...config, limiterCeilingDb: 20 },
+      square(1, dbToGain(levelDb))
+    );
+    const expectedDb = thresholdDb + (levelDb - thresholdDb) / ratio + makeupDb;
+    expect(gainToDb(peak(settled(output)))).toBeCloseTo(expectedDb, 1);
+  });
+
+  it("only applies makeup gain below the knee", () => {
+    const input = sine(0.5, dbToGain(-40));
+    const output = render(COMPRESSOR_PROCESSOR, config, input);
+    expect(gainToDb(rms(settled(output)) / rms(settled(input)))).toBeCloseTo(
+      config.makeupDb,
+      1
+    );
+  });
+});
+
+describe("noise reduction", () => {
+  const config = DEFAULT_DSP_CONFIG.noiseReduction;
+
+  it("attenuates steady noise towards the floor", () => {
+    const input = noise(2, 0.05);
+    const output = render(NOISE_REDUCTION_PROCESSOR, config, input);
+    const reductionDb = gainToDb(rms(settled(output)) / rms(settled(input)));
+    expect(reductionDb).toBeLessThan(-6);
+    expect(reductionDb).toBeGreaterThanOrEqual(config.floorDb - 1);
+  });
+
+  it("keeps a tone that starts after the noise profile settled", () => {
+    // Steady noise for two seconds, then a tone burst on top of it
+    const toneStart = frameCount(2);
+    const tone = sine(2.3, 0.5, 1000).fill(0, 0, toneStart);
+    const hiss = noise(2.3, 0.01);
+    const input = tone.map((x, i) => x + hiss[i]!);
+    const output = render(NOISE_REDUCTION_PROCESSOR, config, input);
+
+    // Skip the STFT latency and the onset of the burst
+    const burst = (samples: Float32Array) =>
+      samples.subarray(toneStart + frameCount(0.05));
+    expect(gainToDb(rms(burst(output)) / rms(burst(tone)))).toBeGreaterThan(-1);
+  });
+});
@@ -0,0 +1,35 @@
+// Helpers shared by the processors; these run inside the AudioWorkletGlobalScope
+
+export const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+export const gainToDb = (gain: number) => 20 * Math.log10(Math.max(gain, 1e-9));
+
+// One-pole smoothing coefficient reaching ~63% of a step after `ms`
+export const timeCoefficient = (ms: number) =>
+  ms > 0 ? Math.exp(-1 / ((ms / 1000) * sampleRate)) : 0;
+
+// Copies input to output unchanged, used when a stage is disabled
+export const passThrough = (input: Float32Array[], output: Float32Array[]) => {
+  for (let channel = 0; channel < output.length; channel++) {
+    const source = input[channel] ?? input[0];
+    if (source) output[channel].set(source);
+  }
+};
+
+// Loudest absolute sample across channels at the given frame
+export const framePeak = (input: Float32Array[], frame: number) => {
+  let peak = 0;
+  for (let channel = 0; channel < input.length; channel++) {
+    const value = Math.abs(input[channel][frame]);
+    if (value > peak) peak = value;
+  }
+  return peak;
+};
+
+// Reads the initial config passed through `processorOptions`
+export const initialConfig = <Config>(
+  options: AudioWorkletNodeOptions | undefined,
+  fallback: Config
+): Config =>
+  (options?.processorOptions as { config?: Config } | undefined)?.config ??
+  fallback;
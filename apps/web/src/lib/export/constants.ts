@@ -0,0 +1,40 @@
+import type { ExportOptions } from "@vibespeak/audio";
+import type { ExportPreset, ExportSettings } from "./types";
+
+export const EXPORT_PRESETS: Record<
+  ExportPreset,
+  { label: string; options: ExportOptions }
+> = {
+  wav16: {
+    label: "WAV 16-bit",
+    options: { format: "wav", sampleFormat: "pcm16" },
+  },
+  wav24: {
+    label: "WAV 24-bit",
+    options: { format: "wav", sampleFormat: "pcm24" },
+  },
+  wav32f: {
+    label: "WAV 32-bit float",
+    options: { format: "wav", sampleFormat: "float32" },
+  },
+  flac16: {
+    label: "FLAC 16-bit",
+    options: { format: "flac", bitDepth: 16 },
+  },
+  flac24: {
+    label: "FLAC 24-bit",
+    options: { format: "flac", bitDepth: 24 },
+  },
+};
+
+// Common targets: speech recognition (16 kHz), CD (44.1 kHz), video (48 kHz)
+export const EXPORT_SAMPLE_RATES = [16_000, 22_050, 44_100, 48_000];
+
+export const EXPORT_SOFTWARE = "VibeSpeak";
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  preset: "wav16",
+  sampleRate: null,
+  mono: false,
+  title: "",
+};
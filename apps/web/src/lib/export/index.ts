@@ -0,0 +1,8 @@
+// Types and interfaces
+export type * from "./types";
+
+// Constants
+export * from "./constants";
+
+// Settings to encoder options
+export { toExportOptions } from "./to-export-options";
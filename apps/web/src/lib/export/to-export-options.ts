@@ -0,0 +1,20 @@
+import type { ExportOptions } from "@vibespeak/audio";
+import { EXPORT_PRESETS, EXPORT_SOFTWARE } from "./constants";
+import type { ExportSettings } from "./types";
+
+/**
+ * Turns the recorder's export settings into encoder options, stamping the
+ * export date and application name into the file's metadata
+ */
+export function toExportOptions(settings: ExportSettings): ExportOptions {
+  return {
+    ...EXPORT_PRESETS[settings.preset].options,
+    sampleRate: settings.sampleRate ?? undefined,
+    mono: settings.mono,
+    metadata: {
+      title: settings.title,
+      date: new Date(),
+      software: EXPORT_SOFTWARE,
+    },
+  };
+}
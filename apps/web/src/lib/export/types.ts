@@ -0,0 +1,8 @@
+export type ExportPreset = "wav16" | "wav24" | "wav32f" | "flac16" | "flac24";
+
+export interface ExportSettings {
+  preset: ExportPreset;
+  sampleRate: number | null; // null = keep the recording's rate
+  mono: boolean;
+  title: string; // embedded in the file, blank to skip
+}
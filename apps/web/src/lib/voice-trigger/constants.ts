@@ -0,0 +1,4 @@
+// Extra audio retained while armed on top of the pre-roll. The detector
+// only confirms speech some time after its onset (min speech duration plus
+// analysis latency), so the onset itself must still be in the buffer.
+export const DETECTION_MARGIN_MS = 1000;
@@ -0,0 +1,8 @@
+// Types and interfaces
+export type * from "./types";
+
+// Constants
+export * from "./constants";
+
+// Pre-roll buffering
+export { createPreRollBuffer } from "./pre-roll-buffer";
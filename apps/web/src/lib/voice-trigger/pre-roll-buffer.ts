@@ -0,0 +1,76 @@
+import { DETECTION_MARGIN_MS } from "./constants";
+import type { PreRollBuffer } from "./types";
+
+interface Block {
+  samples: Float32Array;
+  startFrame: number;
+}
+
+/**
+ * Keeps the last `preRollMs` (plus detection margin) of audio while armed.
+ * Once committed, everything from the commit time on is retained.
+ * Frames are on the AudioContext clock, so `timeMs` values from
+ * `audioContext.currentTime` line up with them.
+ */
+export function createPreRollBuffer(
+  sampleRate: number,
+  preRollMs: number
+): PreRollBuffer {
+  const retainFrames = ((preRollMs + DETECTION_MARGIN_MS) / 1000) * sampleRate;
+  let blocks: Block[] = [];
+  let committed = false;
+
+  const endFrame = () => {
+    const last = blocks[blocks.length - 1];
+    return last ? last.startFrame + last.samples.length : 0;
+  };
+
+  return {
+    get isCommitted() {
+      return committed;
+    },
+
+    push(samples, startFrame) {
+      blocks.push({ samples, startFrame });
+      if (committed) return;
+
+      // Drop whole blocks that fell out of the rolling window
+      const cutoff = endFrame() - retainFrames;
+      while (
+        blocks.length > 1 &&
+        blocks[0].startFrame + blocks[0].samples.length <= cutoff
+      ) {
+        blocks.shift();
+      }
+    },
+
+    commitFrom(timeMs) {
+      const fromFrame = Math.round((timeMs / 1000) * sampleRate);
+      blocks = blocks
+        .filter((block) => block.startFrame + block.samples.length > fromFrame)
+        .map((block) =>
+          block.startFrame >= fromFrame
+            ? block
+            : {
+                samples: block.samples.subarray(fromFrame - block.startFrame),
+                startFrame: fromFrame,
+              }
+        );
+      committed = true;
+    },
+
+    getSamples() {
+      const length = blocks.reduce(
+        (total, block) => total + block.samples.length,
+        0
+      );
+      const samples = new Float32Array(length);
+      let offset = 0;
+      for (const block of blocks) {
+        samples.set(block.samples, offset);
+        offset += block.samples.length;
+      }
+      return samples;
+    },
+  };
+}
@@ -0,0 +1,9 @@
+export type RecordingMode = "manual" | "voice-triggered";
+
+// Mono PCM buffer that only keeps a rolling window until it is committed
+export interface PreRollBuffer {
+  readonly isCommitted: boolean;
+  push: (samples: Float32Array, startFrame: number) => void;
+  commitFrom: (timeMs: number) => void;
+  getSamples: () => Float32Array;
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it, vi } from "vitest";
+
+import type { db as dbClient } from "@vibespeak/db/client";
+
+import { logger } from "../logger";
+import {
+  API_KEY_PREFIX,
+  generateApiKey,
+  hashApiKey,
+  isApiKey,
+  resolveApiKey,
+} from "./index";
+
+const user = {
+  id: "user-1",
+  name: "Ada",
+  email: "ada@example.com",
+  image: null,
+};
+
+// Just the two calls `resolveApiKey` makes: the lookup and the last-used touch
+function fakeDb(
+  row: { id: string; scopes: string[]; expiresAt: Date | null } | undefined,
+  touch: () => Promise<unknown> = () => Promise.resolve(),
+) {
+  const where = vi.fn(touch);
+  const db = {
+    query: {
+      ApiKey: {
+        findFirst: vi.fn(() => Promise.resolve(row && { ...row, user })),
+      },
+    },
+    update: vi.fn(() => ({ set: () => ({ where }) })),
+  };
+  return { db: db as unknown as typeof dbClient, touched: where };
+}
+
+describe("generateApiKey", () => {
+  it("makes a prefixed key and stores only its hash", () => {
+    const { key, prefix, keyHash } = generateApiKey();
+    expect(key).toMatch(new RegExp(`^${API_KEY_PREFIX}[\\w-]{43}$`));
+    expect(prefix).toBe(key.slice(0, API_KEY_PREFIX.length + 8));
+    expect(keyHash).toBe(hashApiKey(key));
+    expect(keyHash).not.toContain(key);
+    expect(generateApiKey().key).not.toBe(key);
+  });
+});
+
+describe("isApiKey", () => {
+  it("tells API keys from session tokens", () => {
+    expect(isApiKey(`Bearer ${API_KEY_PREFIX}abc`)).toBe(true);
+    expect(isApiKey("Bearer 6f1c2b1e-session-token")).toBe(false);
+    expect(isApiKey(`${API_KEY_PREFIX}abc`)).toBe(false);
+  });
+});
+
+describe("resolveApiKey", () => {
+  it("resolves a key to its scopes and a session for its owner", async () => {
+    const expiresAt = new Date("2030-01-01T00:00:00Z");
+    const { db, touched } = fakeDb({
+      id: "key-1",
+      scopes: ["recordings:read"],
+      expiresAt,
+    });
+
+    expect(await resolveApiKey(db, "Bearer vsk_test")).toEqual({
+      apiKey: { id: "key-1", scopes: ["recordings:read"] },
+      session: { user, expires: expiresAt.toISOString() },
+    });
+    expect(touched).toHaveBeenCalledOnce();
+  });
+
+  it("reports keys without an expiry as never expiring", async () => {
+    const { db } = fakeDb({ id: "key-1", scopes: [], expiresAt: null });
+    const resolved = await resolveApiKey(db, "Bearer vsk_test");
+    expect(resolved?.session.expires).toBe("9999-12-31T23:59:59.999Z");
+  });
+
+  it("resolves unknown, revoked and expired keys to null", async () => {
+    const { db, touched } = fakeDb(undefined);
+    expect(await resolveApiKey(db, "Bearer vsk_test")).toBeNull();
+    expect(touched).not.toHaveBeenCalled();
+  });
+
+  it("logs instead of failing when the last-used time can't be written", async () => {
+    const error = vi.spyOn(logger, "error").mockImplementation(() => undefined);
+    const { db } = fakeDb({ id: "key-1", scopes: [], expiresAt: null }, () =>
+      Promise.reject(new Error("connection lost")),
+    );
+
+    expect(await resolveApiKey(db, "Bearer vsk_test")).not.toBeNull();
+    await vi.waitFor(() =>
+      expect(error).toHaveBeenCalledWith(
+        "Failed to record use of API key",
+        expect.objectContaining({ apiKeyId: "key-1" }),
+      ),
+    );
+    error.mockRestore();
+  });
+});
@@ -0,0 +1,98 @@
+import { createHash, randomBytes } from "node:crypto";
+
+import type { Session } from "@vibespeak/auth";
+import type { db as dbClient } from "@vibespeak/db/client";
+import type { ApiKeyScope } from "@vibespeak/db/schema";
+import { and, eq, gt, isNull, lt, or } from "@vibespeak/db";
+import { ApiKey } from "@vibespeak/db/schema";
+
+import { logger } from "../logger";
+
+/** Marks a bearer token as an API key rather than a session token */
+export const API_KEY_PREFIX = "vsk_";
+
+/** How much of a key is kept in the clear to tell keys apart */
+const DISPLAY_PREFIX_LENGTH = API_KEY_PREFIX.length + 8;
+
+// Writing the last-used time on every request would turn reads into writes
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+const NEVER_EXPIRES = "9999-12-31T23:59:59.999Z";
+
+export interface ApiKeyAuth {
+  id: string;
+  scopes: ApiKeyScope[];
+}
+
+/** Keys carry 256 random bits, so a plain SHA-256 is enough to store them */
+export const hashApiKey = (key: string) =>
+  createHash("sha256").update(key).digest("hex");
+
+/** A new key, shown to the user once, with what gets stored about it */
+export function generateApiKey() {
+  const key = `${API_KEY_PREFIX}${randomBytes(32).toString("base64url")}`;
+  return {
+    key,
+    prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+    keyHash: hashApiKey(key),
+  };
+}
+
+export const isApiKey = (authorization: string) =>
+  authorization.startsWith(`Bearer ${API_KEY_PREFIX}`);
+
+/**
+ * Resolves a `Bearer vsk_...` header to the key and a session for its owner.
+ * Revoked, expired and unknown keys resolve to null.
+ */
+export async function resolveApiKey(
+  db: typeof dbClient,
+  authorization: string,
+): Promise<{ apiKey: ApiKeyAuth; session: Session } | null> {
+  const keyHash = hashApiKey(authorization.slice("Bearer ".length));
+  const now = new Date();
+
+  const row = await db.query.ApiKey.findFirst({
+    columns: { id: true, scopes: true, expiresAt: true },
+    with: {
+      user: { columns: { id: true, name: true, email: true, image: true } },
+    },
+    where: and(
+      eq(ApiKey.keyHash, keyHash),
+      isNull(ApiKey.revokedAt),
+      or(isNull(ApiKey.expiresAt), gt(ApiKey.expiresAt, now)),
+    ),
+  });
+  if (!row) return null;
+
+  void db
+    .update(ApiKey)
+    .set({ lastUsedAt: now })
+    .where(
+      and(
+        eq(ApiKey.id, row.id),
+        or(
+          isNull(ApiKey.lastUsedAt),
+          lt(
+            ApiKey.lastUsedAt,
+            new Date(now.getTime() - LAST_USED_RESOLUTION_MS),
+          ),
+        ),
+      ),
+    )
+    .catch((error: unknown) => {
+      logger.error("Failed to record use of API key", {
+        apiKeyId: row.id,
+        error,
+      });
+    });
+
+  return {
+    apiKey: { id: row.id, scopes: row.scopes },
+    session: {
+      user: row.user,
+      // Keys aren't sessions; report when the key itself stops working
+      expires: row.expiresAt?.toISOString() ?? NEVER_EXPIRES,
+    },
+  };
+}
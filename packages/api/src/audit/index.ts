@@ -0,0 +1,140 @@
+import { z } from "zod";
+
+import type { db as dbClient } from "@vibespeak/db/client";
+import { eq, sql } from "@vibespeak/db";
+import { AuditEvent, Recording, Workspace } from "@vibespeak/db/schema";
+
+import { logger } from "../logger";
+
+// Input keys whose values never reach the log
+const SECRET_KEY = /password|token|secret|^key$/i;
+const MAX_STRING_LENGTH = 200;
+const MAX_ARRAY_LENGTH = 50;
+const MAX_DEPTH = 4;
+
+/**
+ * A copy of a procedure input that is safe and small enough to keep:
+ * secrets are replaced, long strings and arrays are cut short
+ */
+export function redactInput(value: unknown, depth = 0): unknown {
+  if (typeof value === "string") {
+    return value.length > MAX_STRING_LENGTH
+      ? `${value.slice(0, MAX_STRING_LENGTH)}…`
+      : value;
+  }
+  if (value === null || typeof value !== "object" || value instanceof Date) {
+    return value;
+  }
+  if (depth >= MAX_DEPTH) return "[truncated]";
+  if (Array.isArray(value)) {
+    return value
+      .slice(0, MAX_ARRAY_LENGTH)
+      .map((item) => redactInput(item, depth + 1));
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      SECRET_KEY.test(key) ? "[redacted]" : redactInput(item, depth + 1),
+    ]),
+  );
+}
+
+// Input keys naming what a mutation acted on, and the kind of thing they name
+const TARGET_KEYS: [key: string, type: string | null][] = [
+  ["id", null],
+  ["slug", "share"],
+  ["recordingId", "recording"],
+  ["uploadId", "upload"],
+  ["jobId", "transcription"],
+  ["invitationId", "invitation"],
+  ["userId", "user"],
+  ["workspaceId", "workspace"],
+];
+
+const getString = (value: unknown, key: string) => {
+  if (typeof value !== "object" || value === null || !(key in value)) {
+    return undefined;
+  }
+  const item = (value as Record<string, unknown>)[key];
+  return typeof item === "string" ? item : undefined;
+};
+
+// Inputs of calls turned away before validation can hold anything
+const getUuid = (value: unknown, key: string) => {
+  const id = getString(value, key);
+  return id && z.string().uuid().safeParse(id).success ? id : undefined;
+};
+
+/**
+ * What a mutation acted on: an id from its input, or the id of what it
+ * created. Plain `id`s are of the procedure's router, e.g. a recording for
+ * `recording.delete`.
+ */
+function getAuditTarget(router: string, input: unknown, result: unknown) {
+  for (const [key, type] of TARGET_KEYS) {
+    const id = getString(input, key);
+    if (id) return { targetType: type ?? router, targetId: id };
+  }
+  const createdId = getString(result, "id");
+  if (createdId) return { targetType: router, targetId: createdId };
+  return { targetType: null, targetId: null };
+}
+
+/**
+ * Appends an event for a mutation in the background; a failed write is
+ * logged rather than failing the mutation. Events about a recording are
+ * filed under the recording's workspace, if it has one.
+ */
+export function recordMutation(
+  db: typeof dbClient,
+  call: {
+    path: string;
+    input: unknown;
+    result: unknown;
+    errorCode: string | null;
+    actorId: string | null;
+    apiKeyId: string | null;
+    ipAddress: string | null;
+    requestId: string;
+  },
+) {
+  const router = call.path.split(".")[0] ?? call.path;
+  const recordingId =
+    getUuid(call.input, "recordingId") ??
+    (router === "recording" ? getUuid(call.input, "id") : undefined);
+  const workspaceId =
+    getUuid(call.input, "workspaceId") ?? getUuid(call.result, "workspaceId");
+
+  void db
+    .insert(AuditEvent)
+    .values({
+      actorId: call.actorId,
+      apiKeyId: call.apiKeyId,
+      // Looked up so ids of deleted or made-up workspaces end up as null
+      workspaceId: workspaceId
+        ? sql`(${db
+            .select({ id: Workspace.id })
+            .from(Workspace)
+            .where(eq(Workspace.id, workspaceId))})`
+        : recordingId
+          ? sql`(${db
+              .select({ workspaceId: Recording.workspaceId })
+              .from(Recording)
+              .where(eq(Recording.id, recordingId))})`
+          : null,
+      action: call.path,
+      ...getAuditTarget(router, call.input, call.result),
+      ipAddress: call.ipAddress?.slice(0, 45) ?? null,
+      metadata: {
+        input: redactInput(call.input),
+        errorCode: call.errorCode,
+        requestId: call.requestId,
+      },
+    })
+    .catch((error: unknown) => {
+      logger.error("Failed to record audit event", {
+        action: call.path,
+        error,
+      });
+    });
+}
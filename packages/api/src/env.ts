@@ -0,0 +1,22 @@
+import { createEnv } from "@t3-oss/env-nextjs";
+import { z } from "zod";
+
+export const env = createEnv({
+  server: {
+    STORAGE_DRIVER: z.enum(["local"]).default("local"),
+    /** Root directory of the local-filesystem storage backend */
+    STORAGE_LOCAL_DIR: z.string().min(1).default(".storage"),
+    TRANSCRIPTION_ENGINE: z.enum(["stub"]).default("stub"),
+    /** Where rate limit buckets live; "postgres" shares them across instances */
+    RATE_LIMIT_STORE: z.enum(["memory", "postgres"]).default("memory"),
+    /** OTLP/HTTP collector base URL, e.g. http://localhost:4318; unset disables tracing */
+    OTEL_EXPORTER_OTLP_ENDPOINT: z.string().url().optional(),
+    OTEL_SERVICE_NAME: z.string().min(1).default("vibespeak-api"),
+    /** Public URL of the web app, for links sent by email */
+    APP_URL: z.string().url().default("http://localhost:3000"),
+  },
+  client: {},
+  experimental__runtimeEnv: {},
+  skipValidation:
+    !!process.env.CI || process.env.npm_lifecycle_event === "lint",
+});
@@ -1,8 +1,11 @@
 import type { inferRouterInputs, inferRouterOutputs } from "@trpc/server";
 
 import type { AppRouter } from "./root";
+import { recordingAudioHandler } from "./recording/handler";
 import { appRouter } from "./root";
+import { shareAudioHandler } from "./share/handler";
 import { createCallerFactory, createTRPCContext } from "./trpc";
+import { uploadChunkHandler } from "./upload/handler";
 
 /**
  * Create a server-side caller for the tRPC API
@@ -29,5 +32,14 @@ type RouterInputs = inferRouterInputs<AppRouter>;
  **/
 type RouterOutputs = inferRouterOutputs<AppRouter>;
 
-export { createTRPCContext, appRouter, createCaller };
+export {
+  createTRPCContext,
+  appRouter,
+  createCaller,
+  recordingAudioHandler,
+  shareAudioHandler,
+  uploadChunkHandler,
+};
+export { logger } from "./logger";
+export { shareCookieName } from "./share";
 export type { AppRouter, RouterInputs, RouterOutputs };
@@ -0,0 +1,17 @@
+import { randomUUID } from "node:crypto";
+
+import { createLogger } from "@vibespeak/logger";
+
+const REQUEST_ID = /^[\w.-]{1,128}$/;
+
+/**
+ * The `x-request-id` set by the hosting proxy, so logs line up with its
+ * own, or a new id when there is none
+ */
+export const getRequestId = (headers: Headers) => {
+  const requestId = headers.get("x-request-id");
+  return requestId && REQUEST_ID.test(requestId) ? requestId : randomUUID();
+};
+
+/** The root API logger */
+export const logger = createLogger();
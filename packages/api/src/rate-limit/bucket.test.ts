@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+
+import type { Bucket } from "./bucket";
+import { refilledAt, takeToken } from "./bucket";
+
+// A token every 6 seconds
+const limit = { requests: 10, intervalMs: 60_000 };
+
+describe("takeToken", () => {
+  it("starts missing buckets full", () => {
+    const { bucket, result } = takeToken(undefined, limit, 1_000);
+    expect(bucket).toEqual({ tokens: 9, updatedAt: 1_000 });
+    expect(result).toEqual({ allowed: true, remaining: 9, retryAfterMs: 0 });
+  });
+
+  it("allows a burst of the whole limit and then denies", () => {
+    let bucket: Bucket | undefined;
+    for (let i = 0; i < limit.requests; i++) {
+      const taken = takeToken(bucket, limit, 0);
+      expect(taken.result.allowed).toBe(true);
+      bucket = taken.bucket;
+    }
+
+    const { result } = takeToken(bucket, limit, 0);
+    expect(result).toEqual({
+      allowed: false,
+      remaining: 0,
+      retryAfterMs: 6_000,
+    });
+  });
+
+  it("refills evenly over the interval", () => {
+    const empty = { tokens: 0, updatedAt: 0 };
+    expect(takeToken(empty, limit, 5_999).result.allowed).toBe(false);
+    expect(takeToken(empty, limit, 3_000).result.retryAfterMs).toBe(3_000);
+
+    const { bucket, result } = takeToken(empty, limit, 6_000);
+    expect(result).toEqual({ allowed: true, remaining: 0, retryAfterMs: 0 });
+    expect(bucket.tokens).toBeCloseTo(0);
+  });
+
+  it("never refills past the limit", () => {
+    const { result } = takeToken({ tokens: 0, updatedAt: 0 }, limit, 3_600_000);
+    expect(result.remaining).toBe(9);
+  });
+
+  it("ignores clocks going backwards", () => {
+    const { bucket } = takeToken({ tokens: 2, updatedAt: 10_000 }, limit, 0);
+    expect(bucket).toEqual({ tokens: 1, updatedAt: 0 });
+  });
+});
+
+describe("refilledAt", () => {
+  it("is when the missing tokens have refilled", () => {
+    expect(refilledAt({ tokens: 10, updatedAt: 1_000 }, limit)).toBe(1_000);
+    expect(refilledAt({ tokens: 9, updatedAt: 1_000 }, limit)).toBe(7_000);
+    expect(refilledAt({ tokens: 0, updatedAt: 1_000 }, limit)).toBe(61_000);
+  });
+});
@@ -0,0 +1,48 @@
+import type { RateLimit, RateLimitResult } from "./types";
+
+export interface Bucket {
+  tokens: number;
+  /** Epoch ms of the last refill */
+  updatedAt: number;
+}
+
+/**
+ * Refills `bucket` for the time passed since its last update and takes one
+ * token if there is one. A missing bucket starts full. Shared by the stores
+ * so they agree on the math.
+ */
+export function takeToken(
+  bucket: Bucket | undefined,
+  limit: RateLimit,
+  now: number,
+): { bucket: Bucket; result: RateLimitResult } {
+  const perMs = limit.requests / limit.intervalMs;
+  const elapsed = bucket ? Math.max(0, now - bucket.updatedAt) : 0;
+  const tokens = bucket
+    ? Math.min(limit.requests, bucket.tokens + elapsed * perMs)
+    : limit.requests;
+
+  if (tokens < 1) {
+    return {
+      bucket: { tokens, updatedAt: now },
+      result: {
+        allowed: false,
+        remaining: 0,
+        retryAfterMs: Math.ceil((1 - tokens) / perMs),
+      },
+    };
+  }
+  return {
+    bucket: { tokens: tokens - 1, updatedAt: now },
+    result: {
+      allowed: true,
+      remaining: Math.floor(tokens - 1),
+      retryAfterMs: 0,
+    },
+  };
+}
+
+/** When a bucket left alone is full again, after which it can be forgotten */
+export const refilledAt = (bucket: Bucket, limit: RateLimit) =>
+  bucket.updatedAt +
+  ((limit.requests - bucket.tokens) * limit.intervalMs) / limit.requests;
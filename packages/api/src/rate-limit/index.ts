@@ -0,0 +1,117 @@
+import { TRPCError } from "@trpc/server";
+
+import { db } from "@vibespeak/db/client";
+
+import type { RateLimitStore } from "./types";
+import { env } from "../env";
+import { logger } from "../logger";
+import { getRateLimitRule, MAX_RATE_LIMIT_INTERVAL_MS } from "./limits";
+import { createMemoryRateLimitStore } from "./memory";
+import { createPostgresRateLimitStore } from "./postgres";
+
+export type {
+  RateLimit,
+  RateLimitResult,
+  RateLimitRule,
+  RateLimitStore,
+} from "./types";
+export { DEFAULT_RATE_LIMIT, RATE_LIMITS } from "./limits";
+export { createMemoryRateLimitStore } from "./memory";
+export { createPostgresRateLimitStore } from "./postgres";
+
+/** Add new stores here and to `RATE_LIMIT_STORE` in `env.ts` */
+const stores: Record<typeof env.RATE_LIMIT_STORE, () => RateLimitStore> = {
+  memory: () => createMemoryRateLimitStore(),
+  postgres: () =>
+    createPostgresRateLimitStore(db, {
+      staleAfterMs: MAX_RATE_LIMIT_INTERVAL_MS,
+    }),
+};
+
+let instance: RateLimitStore | undefined;
+
+/** The configured rate limit store, created on first use */
+export const getRateLimitStore = () =>
+  (instance ??= stores[env.RATE_LIMIT_STORE]());
+
+/**
+ * The `cause` of TOO_MANY_REQUESTS errors, so the error formatter can tell
+ * clients when to retry
+ */
+export class RateLimitExceededError extends Error {
+  constructor(readonly retryAfterMs: number) {
+    super(`Rate limit exceeded, retry in ${Math.ceil(retryAfterMs / 1000)}s`);
+    this.name = "RateLimitExceededError";
+  }
+}
+
+// Raw input isn't validated yet, so the value is capped before it's a key
+const MAX_INPUT_KEY_LENGTH = 128;
+
+const getInputValue = (input: unknown, field: string) => {
+  const value =
+    typeof input === "object" && input !== null
+      ? (input as Record<string, unknown>)[field]
+      : undefined;
+  return typeof value === "string" && value
+    ? value.slice(0, MAX_INPUT_KEY_LENGTH)
+    : null;
+};
+
+/**
+ * Takes a token from the caller's buckets for `path`: one per user, one per
+ * IP and one per input value, as far as the rule limits them and the call
+ * has them. Throws TOO_MANY_REQUESTS when any bucket is empty. If the store
+ * fails the call is let through, an outage shouldn't take the API down with
+ * it.
+ */
+export async function enforceRateLimit(opts: {
+  path: string;
+  userId: string | null;
+  ip: string | null;
+  /** The raw procedure input, for rules limited per input value */
+  input?: unknown;
+}) {
+  const rule = getRateLimitRule(opts.path);
+  const inputValue = rule.input
+    ? getInputValue(opts.input, rule.input.field)
+    : null;
+  const checks = [
+    rule.user && opts.userId
+      ? { key: `${opts.path}:user:${opts.userId}`, limit: rule.user }
+      : null,
+    rule.ip && opts.ip
+      ? { key: `${opts.path}:ip:${opts.ip}`, limit: rule.ip }
+      : null,
+    rule.input && inputValue
+      ? {
+          key: `${opts.path}:${rule.input.field}:${inputValue}`,
+          limit: rule.input.limit,
+        }
+      : null,
+  ].filter((check) => check !== null);
+  if (checks.length === 0) return;
+
+  let results;
+  try {
+    const store = getRateLimitStore();
+    results = await Promise.all(
+      checks.map(({ key, limit }) => store.consume(key, limit)),
+    );
+  } catch (error) {
+    logger.error("Rate limit store error", { error });
+    return;
+  }
+
+  const denied = results.filter((result) => !result.allowed);
+  if (denied.length > 0) {
+    const cause = new RateLimitExceededError(
+      Math.max(...denied.map((result) => result.retryAfterMs)),
+    );
+    throw new TRPCError({
+      code: "TOO_MANY_REQUESTS",
+      message: cause.message,
+      cause,
+    });
+  }
+}
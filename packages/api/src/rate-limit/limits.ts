@@ -0,0 +1,64 @@
+import type { RateLimitRule } from "./types";
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+/** Applies to every procedure without an entry in `RATE_LIMITS` */
+export const DEFAULT_RATE_LIMIT: RateLimitRule = {
+  user: { requests: 300, intervalMs: MINUTE },
+  ip: { requests: 600, intervalMs: MINUTE },
+};
+
+/**
+ * Limits by procedure path. Expensive work and anything that can be
+ * brute-forced gets tighter limits than the default. `upload.chunk` is the
+ * raw chunk PUT handler, which isn't a procedure.
+ */
+export const RATE_LIMITS: Record<string, RateLimitRule> = {
+  "upload.initiate": {
+    user: { requests: 30, intervalMs: HOUR },
+    ip: { requests: 60, intervalMs: HOUR },
+  },
+  "upload.chunk": {
+    user: { requests: 600, intervalMs: MINUTE },
+    ip: { requests: 1_200, intervalMs: MINUTE },
+  },
+  "upload.finalize": {
+    user: { requests: 30, intervalMs: HOUR },
+  },
+  "recording.postProcess": {
+    user: { requests: 20, intervalMs: HOUR },
+  },
+  "recording.search": {
+    user: { requests: 60, intervalMs: MINUTE },
+  },
+  "transcription.request": {
+    user: { requests: 20, intervalMs: HOUR },
+  },
+  // Password guessing, from one IP or many against one link
+  "share.unlock": {
+    ip: { requests: 10, intervalMs: 15 * MINUTE },
+    input: { field: "slug", limit: { requests: 30, intervalMs: 15 * MINUTE } },
+  },
+  "share.view": {
+    ip: { requests: 120, intervalMs: MINUTE },
+  },
+  "workspace.invite": {
+    user: { requests: 20, intervalMs: HOUR },
+  },
+  "apiKey.create": {
+    user: { requests: 10, intervalMs: HOUR },
+  },
+};
+
+export const getRateLimitRule = (path: string) =>
+  RATE_LIMITS[path] ?? DEFAULT_RATE_LIMIT;
+
+/** The longest interval of any limit, after which every bucket is full */
+export const MAX_RATE_LIMIT_INTERVAL_MS = Math.max(
+  ...[DEFAULT_RATE_LIMIT, ...Object.values(RATE_LIMITS)].flatMap((rule) =>
+    [rule.user, rule.ip, rule.input?.limit].map(
+      (limit) => limit?.intervalMs ?? 0,
+    ),
+  ),
+);
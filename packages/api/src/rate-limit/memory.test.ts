@@ -0,0 +1,46 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { createMemoryRateLimitStore } from "./memory";
+
+const limit = { requests: 2, intervalMs: 60_000 };
+
+describe("createMemoryRateLimitStore", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("keeps a bucket per key", async () => {
+    const store = createMemoryRateLimitStore();
+    expect((await store.consume("a", limit)).remaining).toBe(1);
+    expect((await store.consume("a", limit)).remaining).toBe(0);
+    expect((await store.consume("a", limit)).allowed).toBe(false);
+    expect((await store.consume("b", limit)).allowed).toBe(true);
+  });
+
+  it("refills buckets as time passes", async () => {
+    const store = createMemoryRateLimitStore();
+    await store.consume("a", limit);
+    await store.consume("a", limit);
+
+    const denied = await store.consume("a", limit);
+    expect(denied.retryAfterMs).toBe(30_000);
+
+    vi.advanceTimersByTime(denied.retryAfterMs);
+    expect((await store.consume("a", limit)).allowed).toBe(true);
+  });
+
+  it("keeps buckets that aren't full when pruning", async () => {
+    const store = createMemoryRateLimitStore();
+    await store.consume("a", limit);
+    await store.consume("a", limit);
+
+    // Past the prune threshold, so adding more buckets prunes the full ones
+    for (let i = 0; i < 10_000; i++) await store.consume(`key-${i}`, limit);
+
+    expect((await store.consume("a", limit)).allowed).toBe(false);
+  });
+});
@@ -0,0 +1,32 @@
+import type { Bucket } from "./bucket";
+import type { RateLimitStore } from "./types";
+import { refilledAt, takeToken } from "./bucket";
+
+// Past this many buckets, full ones are dropped before adding another
+const PRUNE_THRESHOLD = 10_000;
+
+/**
+ * Keeps buckets in process memory. Limits are per server instance and reset
+ * on restart, which is fine for development and single-instance deployments.
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const buckets = new Map<string, Bucket & { refilledAt: number }>();
+
+  const prune = (now: number) => {
+    for (const [key, bucket] of buckets) {
+      if (bucket.refilledAt <= now) buckets.delete(key);
+    }
+  };
+
+  return {
+    consume(key, limit) {
+      const now = Date.now();
+      const { bucket, result } = takeToken(buckets.get(key), limit, now);
+
+      if (!buckets.has(key) && buckets.size >= PRUNE_THRESHOLD) prune(now);
+      buckets.set(key, { ...bucket, refilledAt: refilledAt(bucket, limit) });
+
+      return Promise.resolve(result);
+    },
+  };
+}
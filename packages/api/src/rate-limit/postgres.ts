@@ -0,0 +1,72 @@
+import type { db as dbClient } from "@vibespeak/db/client";
+import { eq, lt } from "@vibespeak/db";
+import { RateLimitBucket } from "@vibespeak/db/schema";
+
+import type { RateLimitStore } from "./types";
+import { logger } from "../logger";
+import { takeToken } from "./bucket";
+
+// Stale buckets are deleted at most this often per instance
+const PRUNE_INTERVAL_MS = 10 * 60 * 1000;
+
+/**
+ * Keeps buckets in the `rate_limit_bucket` table so every server instance
+ * shares them. Each call locks its bucket row for the read-modify-write.
+ *
+ * Buckets untouched for `staleAfterMs` (the longest configured interval)
+ * are full again, so they are deleted now and then in the background.
+ */
+export function createPostgresRateLimitStore(
+  db: typeof dbClient,
+  opts: { staleAfterMs: number },
+): RateLimitStore {
+  let lastPrunedAt = 0;
+
+  const prune = (now: number) => {
+    if (now - lastPrunedAt < PRUNE_INTERVAL_MS) return;
+    lastPrunedAt = now;
+    void db
+      .delete(RateLimitBucket)
+      .where(lt(RateLimitBucket.updatedAt, new Date(now - opts.staleAfterMs)))
+      .catch((error: unknown) => {
+        logger.error("Failed to prune rate limit buckets", { error });
+      });
+  };
+
+  return {
+    async consume(key, limit) {
+      const now = Date.now();
+      prune(now);
+
+      return db.transaction(async (tx) => {
+        await tx
+          .insert(RateLimitBucket)
+          .values({
+            key,
+            tokens: limit.requests,
+            updatedAt: new Date(now),
+          })
+          .onConflictDoNothing();
+        const [row] = await tx
+          .select({
+            tokens: RateLimitBucket.tokens,
+            updatedAt: RateLimitBucket.updatedAt,
+          })
+          .from(RateLimitBucket)
+          .where(eq(RateLimitBucket.key, key))
+          .for("update");
+
+        const { bucket, result } = takeToken(
+          row && { tokens: row.tokens, updatedAt: row.updatedAt.getTime() },
+          limit,
+          now,
+        );
+        await tx
+          .update(RateLimitBucket)
+          .set({ tokens: bucket.tokens, updatedAt: new Date(bucket.updatedAt) })
+          .where(eq(RateLimitBucket.key, key));
+        return result;
+      });
+    },
+  };
+}
@@ -0,0 +1,36 @@
+/**
+ * A token bucket holding `requests` tokens that refills evenly over
+ * `intervalMs`, e.g. 10 per minute allows a burst of 10 and then one call
+ * every 6 seconds.
+ */
+export interface RateLimit {
+  requests: number;
+  intervalMs: number;
+}
+
+/** Limits of one procedure; subjects without a limit aren't counted */
+export interface RateLimitRule {
+  /** Per signed-in user, including calls made with their API keys */
+  user?: RateLimit;
+  /** Per client IP, signed in or not */
+  ip?: RateLimit;
+  /**
+   * Per value of a string input field, whoever the caller is, e.g. per share
+   * link so guesses spread over many IPs still run out
+   */
+  input?: { field: string; limit: RateLimit };
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  /** Whole tokens left after this call */
+  remaining: number;
+  /** How long until the next call would be allowed, 0 when it already is */
+  retryAfterMs: number;
+}
+
+/** Keeps token buckets between requests */
+export interface RateLimitStore {
+  /** Takes one token from the bucket at `key`, creating it full if needed */
+  consume: (key: string, limit: RateLimit) => Promise<RateLimitResult>;
+}
@@ -0,0 +1,54 @@
+import { z } from "zod";
+
+import type { Session } from "@vibespeak/auth";
+import { and, eq } from "@vibespeak/db";
+import { db } from "@vibespeak/db/client";
+import { Recording } from "@vibespeak/db/schema";
+
+import { logger } from "../logger";
+import { audioResponse } from "../storage/audio-response";
+import { canAccessRecording } from "../workspace";
+
+const notFound = () => new Response("Not found", { status: 404 });
+
+/**
+ * Fetch handler for `GET /api/recordings/:recordingId/audio`, the audio for
+ * the dashboard player. Recordings the user can't view are 404.
+ * `?download` serves it as an attachment.
+ */
+export async function recordingAudioHandler(opts: {
+  req: Request;
+  session: Session | null;
+  recordingId: string;
+}) {
+  try {
+    if (!opts.session?.user) {
+      return new Response("Unauthorized", { status: 401 });
+    }
+    if (!z.string().uuid().safeParse(opts.recordingId).success) {
+      return notFound();
+    }
+
+    const recording = await db.query.Recording.findFirst({
+      columns: {
+        title: true,
+        mimeType: true,
+        storageKey: true,
+        processedStorageKey: true,
+      },
+      where: and(
+        eq(Recording.id, opts.recordingId),
+        canAccessRecording(db, opts.session.user.id, "viewer"),
+      ),
+    });
+    if (!recording) return notFound();
+
+    const download = new URL(opts.req.url).searchParams.has("download");
+    return (
+      (await audioResponse(opts.req, recording, { download })) ?? notFound()
+    );
+  } catch (error) {
+    logger.error("Recording audio error", { error });
+    return new Response("Internal server error", { status: 500 });
+  }
+}
@@ -0,0 +1,37 @@
+import type { Logger } from "@vibespeak/logger";
+
+import { logger } from "../logger";
+import { getStorage } from "../storage";
+
+/**
+ * Deletes the stored audio of recordings whose rows are gone for good, so
+ * call it only once the deleting transaction has committed. Audio left
+ * behind by a failed delete is unreachable and merely takes up space, so
+ * failures are logged instead of thrown.
+ */
+export async function deleteRecordingAudio(
+  recordings: {
+    id: string;
+    storageKey: string | null;
+    processedStorageKey: string | null;
+  }[],
+  log: Logger = logger,
+) {
+  await Promise.all(
+    recordings.flatMap((recording) =>
+      [recording.storageKey, recording.processedStorageKey]
+        .filter((key) => key !== null)
+        .map((key) =>
+          getStorage()
+            .delete(key)
+            .catch((error: unknown) => {
+              log.error("Failed to delete recording audio", {
+                recordingId: recording.id,
+                storageKey: key,
+                error,
+              });
+            }),
+        ),
+    ),
+  );
+}
@@ -1,8 +1,30 @@
+import { apiKeyRouter } from "./router/api-key";
+import { auditRouter } from "./router/audit";
 import { authRouter } from "./router/auth";
+import { deviceRouter } from "./router/device";
+import { folderRouter } from "./router/folder";
+import { recordingRouter } from "./router/recording";
+import { shareRouter } from "./router/share";
+import { tagRouter } from "./router/tag";
+import { transcriptionRouter } from "./router/transcription";
+import { uploadRouter } from "./router/upload";
+import { usageRouter } from "./router/usage";
+import { workspaceRouter } from "./router/workspace";
 import { createTRPCRouter } from "./trpc";
 
 export const appRouter = createTRPCRouter({
+  apiKey: apiKeyRouter,
+  audit: auditRouter,
   auth: authRouter,
+  device: deviceRouter,
+  folder: folderRouter,
+  recording: recordingRouter,
+  share: shareRouter,
+  tag: tagRouter,
+  transcription: transcriptionRouter,
+  upload: uploadRouter,
+  usage: usageRouter,
+  workspace: workspaceRouter,
 });
 
 // export type definition of API
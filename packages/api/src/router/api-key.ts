@@ -0,0 +1,84 @@
+import type { TRPCRouterRecord } from "@trpc/server";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+
+import { and, desc, eq, isNull } from "@vibespeak/db";
+import { ApiKey, CreateApiKeySchema } from "@vibespeak/db/schema";
+
+import { generateApiKey } from "../api-key";
+import { protectedProcedure } from "../trpc";
+
+// Never hand out the hash
+const summaryColumns = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  lastUsedAt: true,
+  expiresAt: true,
+  revokedAt: true,
+  createdAt: true,
+} as const;
+
+/**
+ * Personal API keys for scripts and CI, sent as `Authorization: Bearer vsk_...`.
+ * Keys only reach procedures built with `scopedProcedure`, and only for the
+ * scopes they were created with. Managing keys needs a signed-in session.
+ */
+export const apiKeyRouter = {
+  list: protectedProcedure.query(({ ctx }) =>
+    ctx.db.query.ApiKey.findMany({
+      columns: summaryColumns,
+      where: eq(ApiKey.userId, ctx.session.user.id),
+      orderBy: desc(ApiKey.createdAt),
+    }),
+  ),
+
+  // The plain key is only ever returned here
+  create: protectedProcedure
+    .input(CreateApiKeySchema)
+    .mutation(async ({ ctx, input }) => {
+      const { key, prefix, keyHash } = generateApiKey();
+
+      const [apiKey] = await ctx.db
+        .insert(ApiKey)
+        .values({
+          userId: ctx.session.user.id,
+          name: input.name,
+          scopes: [...new Set(input.scopes)],
+          expiresAt: input.expiresAt ?? null,
+          prefix,
+          keyHash,
+        })
+        .returning({
+          id: ApiKey.id,
+          name: ApiKey.name,
+          prefix: ApiKey.prefix,
+          scopes: ApiKey.scopes,
+          lastUsedAt: ApiKey.lastUsedAt,
+          expiresAt: ApiKey.expiresAt,
+          revokedAt: ApiKey.revokedAt,
+          createdAt: ApiKey.createdAt,
+        });
+
+      return { ...apiKey!, key };
+    }),
+
+  revoke: protectedProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const [apiKey] = await ctx.db
+        .update(ApiKey)
+        .set({ revokedAt: new Date() })
+        .where(
+          and(
+            eq(ApiKey.id, input.id),
+            eq(ApiKey.userId, ctx.session.user.id),
+            isNull(ApiKey.revokedAt),
+          ),
+        )
+        .returning({ id: ApiKey.id });
+      if (!apiKey) throw new TRPCError({ code: "NOT_FOUND" });
+      return apiKey;
+    }),
+} satisfies TRPCRouterRecord;
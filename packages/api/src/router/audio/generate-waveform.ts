@@ -0,0 +1,83 @@
+import type { DecodedAudio, WaveformPeaks } from "@vibespeak/audio";
+import type { db as dbClient } from "@vibespeak/db/client";
+import { computePeaks, decodeWav, isWav } from "@vibespeak/audio";
+import { RecordingWaveform } from "@vibespeak/db/schema";
+
+export interface AudioDecoder {
+  name: string;
+  canDecode: (bytes: Uint8Array, mimeType: string) => boolean;
+  decode: (bytes: Uint8Array) => DecodedAudio | Promise<DecodedAudio>;
+}
+
+/**
+ * Decoders are sniffed in order. Only WAV is built in; containers like
+ * WebM/Opus need a real codec and can be plugged in with `registerAudioDecoder`.
+ */
+const decoders: AudioDecoder[] = [
+  {
+    name: "wav",
+    canDecode: (bytes) => isWav(bytes),
+    decode: decodeWav,
+  },
+];
+
+export const registerAudioDecoder = (decoder: AudioDecoder) => {
+  decoders.unshift(decoder);
+};
+
+export const findAudioDecoder = (bytes: Uint8Array, mimeType: string) =>
+  decoders.find((decoder) => decoder.canDecode(bytes, mimeType)) ?? null;
+
+/**
+ * Decodes the uploaded audio and computes its waveform peaks.
+ * Returns null when no registered decoder understands the format.
+ */
+export async function generateWaveform(
+  bytes: Uint8Array,
+  mimeType: string,
+): Promise<WaveformPeaks | null> {
+  const decoder = findAudioDecoder(bytes, mimeType);
+  if (!decoder) return null;
+
+  const audio = await decoder.decode(bytes);
+  return computePeaks(audio);
+}
+
+/**
+ * Generates peaks for a recording and stores them alongside it,
+ * replacing any previously stored waveform.
+ */
+export async function saveRecordingWaveform(
+  db: typeof dbClient,
+  recordingId: string,
+  bytes: Uint8Array,
+  mimeType: string,
+) {
+  const peaks = await generateWaveform(bytes, mimeType);
+  if (!peaks) return null;
+
+  await storeRecordingWaveform(db, recordingId, peaks);
+  return peaks;
+}
+
+/**
+ * Stores already computed peaks, replacing any previous waveform
+ */
+export async function storeRecordingWaveform(
+  db: typeof dbClient,
+  recordingId: string,
+  peaks: WaveformPeaks,
+) {
+  await db
+    .insert(RecordingWaveform)
+    .values({ recordingId, ...peaks })
+    .onConflictDoUpdate({
+      target: RecordingWaveform.recordingId,
+      set: {
+        sampleRate: peaks.sampleRate,
+        length: peaks.length,
+        levels: peaks.levels,
+        createdAt: new Date(),
+      },
+    });
+}
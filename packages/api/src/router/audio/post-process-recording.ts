@@ -0,0 +1,144 @@
+import type { PostProcessOptions } from "@vibespeak/audio";
+import type { db as dbClient } from "@vibespeak/db/client";
+import { computePeaks, encodeWav, postProcessAudio } from "@vibespeak/audio";
+import { and, desc, eq, inArray } from "@vibespeak/db";
+import { PostProcessJob, Recording } from "@vibespeak/db/schema";
+
+import { logger } from "../../logger";
+import { getStorage } from "../../storage";
+import { processedRecordingKey } from "../../upload";
+import { findAudioDecoder, storeRecordingWaveform } from "./generate-waveform";
+
+/**
+ * Trims silence from a recording and normalizes its loudness. The result is
+ * stored as a 24-bit WAV next to the untouched upload, the measurements and
+ * the trimmed duration go on the recording row and the waveform is
+ * regenerated from the processed audio.
+ *
+ * Returns null when no registered decoder understands the format.
+ */
+async function postProcessRecording(
+  db: typeof dbClient,
+  recording: typeof Recording.$inferSelect,
+  options: PostProcessOptions,
+) {
+  const source = recording.storageKey
+    ? await getStorage().get(recording.storageKey)
+    : null;
+  if (!source) return null;
+
+  const decoder = findAudioDecoder(source, recording.mimeType);
+  if (!decoder) return null;
+
+  const processed = postProcessAudio(await decoder.decode(source), options);
+  const { analysis } = processed;
+
+  const processedStorageKey = processedRecordingKey(
+    recording.userId,
+    recording.id,
+  );
+  await getStorage().put(
+    processedStorageKey,
+    encodeWav(processed.audio, { sampleFormat: "pcm24" }),
+  );
+
+  const [updated] = await db
+    .update(Recording)
+    .set({
+      processedStorageKey,
+      durationMs: analysis.trimEndMs - analysis.trimStartMs,
+      trimStartMs: analysis.trimStartMs,
+      trimEndMs: analysis.trimEndMs,
+      loudnessLufs: analysis.loudnessLufs,
+      truePeakDb: analysis.truePeakDb,
+      gainDb: analysis.gainDb,
+    })
+    .where(eq(Recording.id, recording.id))
+    .returning();
+
+  await storeRecordingWaveform(db, recording.id, computePeaks(processed.audio));
+
+  return updated ?? null;
+}
+
+/**
+ * Runs a queued job to completion. Failures are stored on the job instead of
+ * being thrown; jobs that are no longer queued are left alone.
+ */
+async function runPostProcessJob(db: typeof dbClient, jobId: string) {
+  try {
+    const [job] = await db
+      .update(PostProcessJob)
+      .set({ status: "processing", startedAt: new Date() })
+      .where(
+        and(eq(PostProcessJob.id, jobId), eq(PostProcessJob.status, "queued")),
+      )
+      .returning();
+    if (!job) return;
+
+    const recording = await db.query.Recording.findFirst({
+      where: eq(Recording.id, job.recordingId),
+    });
+    if (!recording?.storageKey) {
+      throw new Error("The recording has no uploaded audio");
+    }
+    const processed = await postProcessRecording(db, recording, job.options);
+    if (!processed) {
+      throw new Error("The recording's audio format can't be processed");
+    }
+
+    await db
+      .update(PostProcessJob)
+      .set({ status: "completed", completedAt: new Date() })
+      .where(eq(PostProcessJob.id, job.id));
+  } catch (error) {
+    logger.error("Post-processing job failed", { jobId, error });
+    // Also covers a failed claim, so the job doesn't stay queued
+    await db
+      .update(PostProcessJob)
+      .set({
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+        completedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(PostProcessJob.id, jobId),
+          inArray(PostProcessJob.status, ["queued", "processing"]),
+        ),
+      );
+  }
+}
+
+/**
+ * Queues post-processing of a recording and starts it in-process after the
+ * response, or returns the job already queued or running for the recording.
+ */
+export async function queuePostProcessJob(
+  db: typeof dbClient,
+  recordingId: string,
+  userId: string,
+  options: PostProcessOptions,
+) {
+  // The partial unique index allows one active job per recording
+  const [queued] = await db
+    .insert(PostProcessJob)
+    .values({ recordingId, userId, options })
+    .onConflictDoNothing()
+    .returning();
+  if (!queued) {
+    const active = await db.query.PostProcessJob.findFirst({
+      where: eq(PostProcessJob.recordingId, recordingId),
+      orderBy: desc(PostProcessJob.createdAt),
+    });
+    return active!;
+  }
+
+  void runPostProcessJob(db, queued.id).catch((error: unknown) =>
+    logger.error("Failed to run post-processing job", {
+      jobId: queued.id,
+      error,
+    }),
+  );
+  return queued;
+}
@@ -0,0 +1,82 @@
+import type { TRPCRouterRecord } from "@trpc/server";
+import { z } from "zod";
+
+import { and, desc, eq, gte, like, lt, or } from "@vibespeak/db";
+import { AuditEvent, User } from "@vibespeak/db/schema";
+
+import { workspaceProcedure } from "../trpc";
+
+export const auditRouter = {
+  // A workspace's audit log for its owners, newest first
+  list: workspaceProcedure("owner")
+    .input(
+      z.object({
+        limit: z.number().int().min(1).max(100).default(50),
+        // Keyset cursor: the (createdAt, id) of the last item of the previous page
+        cursor: z
+          .object({ createdAt: z.date(), id: z.string().uuid() })
+          .nullish(),
+        actorId: z.string().uuid().optional(),
+        // A procedure path like `recording.delete`, or a router like `recording.`
+        action: z
+          .string()
+          .regex(/^[a-zA-Z.]+$/)
+          .max(128)
+          .optional(),
+        targetId: z.string().min(1).max(255).optional(),
+        since: z.date().optional(),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      const { cursor, limit, actorId, action, targetId, since } = input;
+
+      const items = await ctx.db
+        .select({
+          id: AuditEvent.id,
+          action: AuditEvent.action,
+          targetType: AuditEvent.targetType,
+          targetId: AuditEvent.targetId,
+          ipAddress: AuditEvent.ipAddress,
+          metadata: AuditEvent.metadata,
+          apiKeyId: AuditEvent.apiKeyId,
+          createdAt: AuditEvent.createdAt,
+          actor: { id: User.id, name: User.name, email: User.email },
+        })
+        .from(AuditEvent)
+        .leftJoin(User, eq(User.id, AuditEvent.actorId))
+        .where(
+          and(
+            eq(AuditEvent.workspaceId, ctx.workspace.id),
+            actorId ? eq(AuditEvent.actorId, actorId) : undefined,
+            action
+              ? action.endsWith(".")
+                ? like(AuditEvent.action, `${action}%`)
+                : eq(AuditEvent.action, action)
+              : undefined,
+            targetId ? eq(AuditEvent.targetId, targetId) : undefined,
+            since ? gte(AuditEvent.createdAt, since) : undefined,
+            cursor
+              ? or(
+                  lt(AuditEvent.createdAt, cursor.createdAt),
+                  and(
+                    eq(AuditEvent.createdAt, cursor.createdAt),
+                    lt(AuditEvent.id, cursor.id),
+                  ),
+                )
+              : undefined,
+          ),
+        )
+        .orderBy(desc(AuditEvent.createdAt), desc(AuditEvent.id))
+        // Fetch one extra row to know whether there is another page
+        .limit(limit + 1);
+
+      let nextCursor: { createdAt: Date; id: string } | null = null;
+      if (items.length > limit) {
+        items.pop();
+        const last = items[items.length - 1];
+        if (last) nextCursor = { createdAt: last.createdAt, id: last.id };
+      }
+
+      return { items, nextCursor };
+    }),
+} satisfies TRPCRouterRecord;
@@ -0,0 +1,82 @@
+import type { TRPCRouterRecord } from "@trpc/server";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+
+import { and, desc, eq, gt, ne, sql } from "@vibespeak/db";
+import { Session } from "@vibespeak/db/schema";
+
+import { describeDevice } from "../session";
+import { protectedProcedure } from "../trpc";
+
+/**
+ * The user's signed-in sessions ("devices"). Sessions are addressed by their
+ * public id; tokens never leave the server.
+ */
+export const deviceRouter = {
+  list: protectedProcedure.query(async ({ ctx }) => {
+    const sessions = await ctx.db
+      .select({
+        id: Session.id,
+        userAgent: Session.userAgent,
+        platform: Session.platform,
+        ipAddress: Session.ipAddress,
+        lastSeenAt: Session.lastSeenAt,
+        createdAt: Session.createdAt,
+        expires: Session.expires,
+        isCurrent: ctx.sessionToken
+          ? sql<boolean>`${Session.sessionToken} = ${ctx.sessionToken}`
+          : sql<boolean>`false`,
+      })
+      .from(Session)
+      .where(
+        and(
+          eq(Session.userId, ctx.session.user.id),
+          gt(Session.expires, new Date()),
+        ),
+      )
+      .orderBy(desc(Session.lastSeenAt), desc(Session.createdAt));
+
+    return sessions.map((session) => ({
+      ...session,
+      name: describeDevice(session.userAgent, session.platform),
+    }));
+  }),
+
+  // Signs a device out; revoking the current session is the same as signing out
+  revoke: protectedProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const [session] = await ctx.db
+        .delete(Session)
+        .where(
+          and(
+            eq(Session.id, input.id),
+            eq(Session.userId, ctx.session.user.id),
+          ),
+        )
+        .returning({ id: Session.id });
+      if (!session) throw new TRPCError({ code: "NOT_FOUND" });
+      return session;
+    }),
+
+  // Signs out every device except the one making the request
+  revokeOthers: protectedProcedure.mutation(async ({ ctx }) => {
+    if (!ctx.sessionToken) {
+      throw new TRPCError({
+        code: "PRECONDITION_FAILED",
+        message: "The current session could not be identified",
+      });
+    }
+
+    const revoked = await ctx.db
+      .delete(Session)
+      .where(
+        and(
+          eq(Session.userId, ctx.session.user.id),
+          ne(Session.sessionToken, ctx.sessionToken),
+        ),
+      )
+      .returning({ id: Session.id });
+    return { count: revoked.length };
+  }),
+} satisfies TRPCRouterRecord;
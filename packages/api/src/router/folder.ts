@@ -0,0 +1,139 @@
+import type { TRPCRouterRecord } from "@trpc/server";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+
+import { and, asc, eq, inArray, isNull } from "@vibespeak/db";
+import {
+  CreateFolderSchema,
+  Folder,
+  Recording,
+  UpdateFolderSchema,
+} from "@vibespeak/db/schema";
+
+import { deleteRecordingAudio } from "../recording";
+import { protectedProcedure } from "../trpc";
+import { getRecordingStorage, recordUsage } from "../usage";
+import { assertOwnedFolder, getFolderSubtreeIds } from "./library/folders";
+
+export const folderRouter = {
+  // Flat list, clients build the tree from `parentId`
+  list: protectedProcedure.query(({ ctx }) =>
+    ctx.db.query.Folder.findMany({
+      where: eq(Folder.userId, ctx.session.user.id),
+      orderBy: asc(Folder.name),
+    }),
+  ),
+
+  create: protectedProcedure
+    .input(CreateFolderSchema)
+    .mutation(async ({ ctx, input }) => {
+      await assertOwnedFolder(ctx.db, ctx.session.user.id, input.parentId);
+
+      const [folder] = await ctx.db
+        .insert(Folder)
+        .values({ ...input, userId: ctx.session.user.id })
+        .returning();
+      return folder!;
+    }),
+
+  // Renames and/or moves a folder; parentId null moves it to the top level
+  update: protectedProcedure
+    .input(UpdateFolderSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { id, ...values } = input;
+      const userId = ctx.session.user.id;
+
+      if (values.parentId) {
+        await assertOwnedFolder(ctx.db, userId, values.parentId);
+        const subtree = await getFolderSubtreeIds(ctx.db, userId, id);
+        if (subtree.includes(values.parentId)) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "A folder can't be moved into itself",
+          });
+        }
+      }
+
+      const [folder] = await ctx.db
+        .update(Folder)
+        .set(values)
+        .where(and(eq(Folder.id, id), eq(Folder.userId, userId)))
+        .returning();
+      if (!folder) throw new TRPCError({ code: "NOT_FOUND" });
+      return folder;
+    }),
+
+  // "cascade" deletes the folder with all subfolders and the personal
+  // recordings in them, audio included; "move-to-parent" hands its
+  // subfolders and recordings to its parent
+  delete: protectedProcedure
+    .input(
+      z.object({
+        id: z.string().uuid(),
+        mode: z.enum(["cascade", "move-to-parent"]),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      const folder = await ctx.db.query.Folder.findFirst({
+        where: and(eq(Folder.id, input.id), eq(Folder.userId, userId)),
+      });
+      if (!folder) throw new TRPCError({ code: "NOT_FOUND" });
+
+      const subtree =
+        input.mode === "cascade"
+          ? await getFolderSubtreeIds(ctx.db, userId, folder.id)
+          : [];
+
+      const deleted = await ctx.db.transaction(async (tx) => {
+        if (input.mode === "move-to-parent") {
+          await tx
+            .update(Recording)
+            .set({ folderId: folder.parentId })
+            .where(eq(Recording.folderId, folder.id));
+          await tx
+            .update(Folder)
+            .set({ parentId: folder.parentId })
+            .where(eq(Folder.parentId, folder.id));
+        }
+
+        // Folders are personal, so only personal recordings go with them.
+        // Workspace recordings filed in one fall back to the root.
+        const recordings =
+          input.mode === "cascade"
+            ? await tx
+                .select({
+                  id: Recording.id,
+                  storageKey: Recording.storageKey,
+                  processedStorageKey: Recording.processedStorageKey,
+                })
+                .from(Recording)
+                .where(
+                  and(
+                    eq(Recording.userId, userId),
+                    isNull(Recording.workspaceId),
+                    inArray(Recording.folderId, subtree),
+                  ),
+                )
+            : [];
+        if (recordings.length > 0) {
+          const ids = recordings.map((recording) => recording.id);
+          // Before the delete, which unlinks the usage from the recordings
+          const storageBytes = await getRecordingStorage(tx, ids);
+          await tx.delete(Recording).where(inArray(Recording.id, ids));
+          await recordUsage(
+            tx,
+            { userId, workspaceId: null },
+            { storageBytes: -storageBytes },
+          );
+        }
+
+        // Subfolders left below the folder go with it (on delete cascade)
+        await tx.delete(Folder).where(eq(Folder.id, folder.id));
+        return recordings;
+      });
+
+      await deleteRecordingAudio(deleted, ctx.log);
+      return { id: folder.id };
+    }),
+} satisfies TRPCRouterRecord;
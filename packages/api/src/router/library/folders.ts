@@ -0,0 +1,55 @@
+import { TRPCError } from "@trpc/server";
+
+import type { db as dbClient } from "@vibespeak/db/client";
+import { and, eq } from "@vibespeak/db";
+import { Folder } from "@vibespeak/db/schema";
+
+/**
+ * Throws NOT_FOUND unless the folder exists and belongs to the user.
+ * null (the root) is always allowed.
+ */
+export async function assertOwnedFolder(
+  db: typeof dbClient,
+  userId: string,
+  folderId: string | null | undefined,
+) {
+  if (!folderId) return;
+
+  const folder = await db.query.Folder.findFirst({
+    columns: { id: true },
+    where: and(eq(Folder.id, folderId), eq(Folder.userId, userId)),
+  });
+  if (!folder) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Folder not found" });
+  }
+}
+
+/**
+ * The ids of a folder and everything nested below it. Loads the user's
+ * whole folder list, which stays small enough to walk in memory.
+ */
+export async function getFolderSubtreeIds(
+  db: typeof dbClient,
+  userId: string,
+  folderId: string,
+) {
+  const folders = await db
+    .select({ id: Folder.id, parentId: Folder.parentId })
+    .from(Folder)
+    .where(eq(Folder.userId, userId));
+
+  const children = new Map<string, string[]>();
+  for (const { id, parentId } of folders) {
+    if (!parentId) continue;
+    children.set(parentId, [...(children.get(parentId) ?? []), id]);
+  }
+
+  const subtree: string[] = [];
+  const pending = [folderId];
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+    subtree.push(id);
+    pending.push(...(children.get(id) ?? []));
+  }
+  return subtree;
+}
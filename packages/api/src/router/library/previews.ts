@@ -0,0 +1,60 @@
+import type { WaveformLevel } from "@vibespeak/audio";
+import type { db as dbClient } from "@vibespeak/db/client";
+import { peaksToBars } from "@vibespeak/audio";
+import { inArray, sql } from "@vibespeak/db";
+import { RecordingTranscript, RecordingWaveform } from "@vibespeak/db/schema";
+
+/** Bars in a list thumbnail */
+export const THUMBNAIL_BARS = 48;
+const TRANSCRIPT_PREVIEW_LENGTH = 200;
+
+/**
+ * Adds a waveform thumbnail and the opening of the transcript to each
+ * recording of a list page. Only the coarsest waveform level and the start
+ * of the transcript are read, so a page stays cheap to load.
+ */
+export async function withPreviews<T extends { id: string }>(
+  db: typeof dbClient,
+  recordings: T[],
+) {
+  const ids = recordings.map((recording) => recording.id);
+  if (ids.length === 0) return [];
+
+  const [waveforms, transcripts] = await Promise.all([
+    db
+      .select({
+        recordingId: RecordingWaveform.recordingId,
+        sampleRate: RecordingWaveform.sampleRate,
+        length: RecordingWaveform.length,
+        // Levels are ordered finest first
+        coarsest: sql<WaveformLevel | null>`${RecordingWaveform.levels} -> -1`,
+      })
+      .from(RecordingWaveform)
+      .where(inArray(RecordingWaveform.recordingId, ids)),
+    db
+      .select({
+        recordingId: RecordingTranscript.recordingId,
+        preview: sql<string>`left(${RecordingTranscript.text}, ${TRANSCRIPT_PREVIEW_LENGTH})`,
+      })
+      .from(RecordingTranscript)
+      .where(inArray(RecordingTranscript.recordingId, ids)),
+  ]);
+
+  const thumbnails = new Map(
+    waveforms.map(({ recordingId, coarsest, ...peaks }) => [
+      recordingId,
+      coarsest
+        ? peaksToBars({ ...peaks, levels: [coarsest] }, THUMBNAIL_BARS)
+        : [],
+    ]),
+  );
+  const previews = new Map(
+    transcripts.map(({ recordingId, preview }) => [recordingId, preview]),
+  );
+
+  return recordings.map((recording) => ({
+    ...recording,
+    thumbnail: thumbnails.get(recording.id) ?? [],
+    transcriptPreview: previews.get(recording.id) ?? null,
+  }));
+}
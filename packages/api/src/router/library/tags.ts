@@ -0,0 +1,39 @@
+import { TRPCError } from "@trpc/server";
+
+import type { db as dbClient } from "@vibespeak/db/client";
+import { and, countDistinct, eq, inArray } from "@vibespeak/db";
+import { Recording, RecordingTag, Tag } from "@vibespeak/db/schema";
+
+/** Throws NOT_FOUND unless every tag exists and belongs to the user */
+export async function assertOwnedTags(
+  db: typeof dbClient,
+  userId: string,
+  tagIds: string[],
+) {
+  const unique = [...new Set(tagIds)];
+  if (unique.length === 0) return;
+
+  const tags = await db
+    .select({ id: Tag.id })
+    .from(Tag)
+    .where(and(inArray(Tag.id, unique), eq(Tag.userId, userId)));
+  if (tags.length !== unique.length) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Tag not found" });
+  }
+}
+
+/**
+ * Filter condition for recordings carrying every one of the given tags
+ */
+export function hasAllTags(db: typeof dbClient, tagIds: string[]) {
+  const unique = [...new Set(tagIds)];
+  return inArray(
+    Recording.id,
+    db
+      .select({ recordingId: RecordingTag.recordingId })
+      .from(RecordingTag)
+      .where(inArray(RecordingTag.tagId, unique))
+      .groupBy(RecordingTag.recordingId)
+      .having(eq(countDistinct(RecordingTag.tagId), unique.length)),
+  );
+}
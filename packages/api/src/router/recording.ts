@@ -0,0 +1,427 @@
+import type { TRPCRouterRecord } from "@trpc/server";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+
+import { selectLevel } from "@vibespeak/audio";
+import {
+  and,
+  desc,
+  eq,
+  inArray,
+  isNotNull,
+  isNull,
+  lt,
+  or,
+} from "@vibespeak/db";
+import {
+  CreateRecordingSchema,
+  PostProcessJob,
+  Recording,
+  RecordingTag,
+  RecordingWaveform,
+  UpdateRecordingSchema,
+} from "@vibespeak/db/schema";
+import { PostProcessOptionsSchema } from "@vibespeak/validators";
+
+import { deleteRecordingAudio } from "../recording";
+import { scopedProcedure } from "../trpc";
+import { assertQuota, getRecordingStorage, recordUsage } from "../usage";
+import { assertWorkspaceRole, canAccessRecording } from "../workspace";
+import { queuePostProcessJob } from "./audio/post-process-recording";
+import { assertOwnedFolder } from "./library/folders";
+import { withPreviews } from "./library/previews";
+import { assertOwnedTags, hasAllTags } from "./library/tags";
+import { searchRecordings } from "./search/search-recordings";
+
+export const recordingRouter = {
+  // Newest first, each with a waveform thumbnail and transcript preview
+  list: scopedProcedure("recordings:read")
+    .input(
+      z.object({
+        limit: z.number().int().min(1).max(100).default(20),
+        // Keyset cursor: the (createdAt, id) of the last item of the previous page
+        cursor: z
+          .object({ createdAt: z.date(), id: z.string().uuid() })
+          .nullish(),
+        // Only recordings directly in this folder, null for the root;
+        // omitted lists every folder
+        folderId: z.string().uuid().nullish(),
+        // Only recordings carrying all of these tags
+        tagIds: z.array(z.string().uuid()).max(20).optional(),
+        // A workspace's recordings instead of the user's personal ones
+        workspaceId: z.string().uuid().optional(),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      const { cursor, limit, folderId, tagIds, workspaceId } = input;
+      if (workspaceId) {
+        await assertWorkspaceRole(
+          ctx.db,
+          ctx.session.user.id,
+          workspaceId,
+          "viewer",
+        );
+      }
+
+      const items = await ctx.db.query.Recording.findMany({
+        columns: { searchVector: false },
+        with: { tags: { columns: { tagId: true } } },
+        where: and(
+          workspaceId
+            ? eq(Recording.workspaceId, workspaceId)
+            : and(
+                eq(Recording.userId, ctx.session.user.id),
+                isNull(Recording.workspaceId),
+              ),
+          folderId === null ? isNull(Recording.folderId) : undefined,
+          folderId ? eq(Recording.folderId, folderId) : undefined,
+          tagIds?.length ? hasAllTags(ctx.db, tagIds) : undefined,
+          cursor
+            ? or(
+                lt(Recording.createdAt, cursor.createdAt),
+                and(
+                  eq(Recording.createdAt, cursor.createdAt),
+                  lt(Recording.id, cursor.id),
+                ),
+              )
+            : undefined,
+        ),
+        orderBy: [desc(Recording.createdAt), desc(Recording.id)],
+        // Fetch one extra row to know whether there is another page
+        limit: limit + 1,
+      });
+
+      let nextCursor: { createdAt: Date; id: string } | null = null;
+      if (items.length > limit) {
+        items.pop();
+        const last = items[items.length - 1];
+        if (last) nextCursor = { createdAt: last.createdAt, id: last.id };
+      }
+
+      return { items: await withPreviews(ctx.db, items), nextCursor };
+    }),
+
+  // Full-text search over titles, notes and transcripts. Ranked results
+  // can't use a keyset cursor, so pages are offsets.
+  search: scopedProcedure("recordings:read")
+    .input(
+      z
+        .object({
+          query: z.string().trim().min(1).max(200),
+          createdAfter: z.date().optional(),
+          createdBefore: z.date().optional(),
+          minDurationMs: z.number().int().nonnegative().optional(),
+          maxDurationMs: z.number().int().nonnegative().optional(),
+          tagIds: z.array(z.string().uuid()).max(20).optional(),
+          limit: z.number().int().min(1).max(50).default(20),
+          offset: z.number().int().min(0).max(1_000).default(0),
+        })
+        .refine(
+          ({ minDurationMs, maxDurationMs }) =>
+            minDurationMs === undefined ||
+            maxDurationMs === undefined ||
+            minDurationMs <= maxDurationMs,
+          { message: "minDurationMs must not exceed maxDurationMs" },
+        ),
+    )
+    .query(({ ctx, input }) =>
+      searchRecordings(ctx.db, ctx.session.user.id, input),
+    ),
+
+  get: scopedProcedure("recordings:read")
+    .input(z.object({ id: z.string().uuid() }))
+    .query(async ({ ctx, input }) => {
+      const recording = await ctx.db.query.Recording.findFirst({
+        where: and(
+          eq(Recording.id, input.id),
+          canAccessRecording(ctx.db, ctx.session.user.id, "viewer"),
+        ),
+      });
+      if (!recording) throw new TRPCError({ code: "NOT_FOUND" });
+      return recording;
+    }),
+
+  waveform: scopedProcedure("recordings:read")
+    .input(
+      z.object({
+        id: z.string().uuid(),
+        // Roughly how many peaks the client wants to draw at its zoom level
+        peaks: z.number().int().min(1).max(65_536).default(1_000),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      const [row] = await ctx.db
+        .select({
+          sampleRate: RecordingWaveform.sampleRate,
+          length: RecordingWaveform.length,
+          levels: RecordingWaveform.levels,
+        })
+        .from(RecordingWaveform)
+        .innerJoin(Recording, eq(Recording.id, RecordingWaveform.recordingId))
+        .where(
+          and(
+            eq(Recording.id, input.id),
+            canAccessRecording(ctx.db, ctx.session.user.id, "viewer"),
+          ),
+        );
+      if (!row) return null;
+
+      const level = selectLevel(row, input.peaks);
+      if (!level) return null;
+
+      return { sampleRate: row.sampleRate, length: row.length, level };
+    }),
+
+  // A recording without audio; audio only ever comes in through `upload`,
+  // which sets the storage key and size on the server
+  create: scopedProcedure("recordings:write")
+    .input(CreateRecordingSchema)
+    .mutation(async ({ ctx, input }) => {
+      await assertOwnedFolder(ctx.db, ctx.session.user.id, input.folderId);
+      if (input.workspaceId) {
+        await assertWorkspaceRole(
+          ctx.db,
+          ctx.session.user.id,
+          input.workspaceId,
+          "editor",
+        );
+      }
+      const usageSubject = {
+        userId: ctx.session.user.id,
+        workspaceId: input.workspaceId ?? null,
+      };
+
+      return ctx.db.transaction(async (tx) => {
+        await assertQuota(tx, usageSubject, { recordedMs: input.durationMs });
+        const [recording] = await tx
+          .insert(Recording)
+          .values({ ...input, userId: ctx.session.user.id, byteSize: 0 })
+          .returning();
+        await recordUsage(
+          tx,
+          usageSubject,
+          { recordedMs: input.durationMs },
+          recording!.id,
+        );
+        return recording!;
+      });
+    }),
+
+  update: scopedProcedure("recordings:write")
+    .input(UpdateRecordingSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { id, ...values } = input;
+      const [recording] = await ctx.db
+        .update(Recording)
+        .set(values)
+        .where(
+          and(
+            eq(Recording.id, id),
+            canAccessRecording(ctx.db, ctx.session.user.id, "editor"),
+          ),
+        )
+        .returning();
+      if (!recording) throw new TRPCError({ code: "NOT_FOUND" });
+      return recording;
+    }),
+
+  // Moves recordings into a folder, null for the root. Folders are
+  // personal, so workspace recordings can only be moved to the root.
+  move: scopedProcedure("recordings:write")
+    .input(
+      z.object({
+        ids: z.array(z.string().uuid()).min(1).max(500),
+        folderId: z.string().uuid().nullable(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      await assertOwnedFolder(ctx.db, ctx.session.user.id, input.folderId);
+      if (input.folderId) {
+        const shared = await ctx.db.query.Recording.findFirst({
+          columns: { id: true },
+          where: and(
+            inArray(Recording.id, input.ids),
+            isNotNull(Recording.workspaceId),
+            canAccessRecording(ctx.db, ctx.session.user.id, "editor"),
+          ),
+        });
+        if (shared) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message:
+              "Workspace recordings can't be moved into a personal folder",
+          });
+        }
+      }
+
+      const moved = await ctx.db
+        .update(Recording)
+        .set({ folderId: input.folderId })
+        .where(
+          and(
+            inArray(Recording.id, input.ids),
+            input.folderId ? isNull(Recording.workspaceId) : undefined,
+            canAccessRecording(ctx.db, ctx.session.user.id, "editor"),
+          ),
+        )
+        .returning({ id: Recording.id });
+      return { count: moved.length };
+    }),
+
+  addTags: scopedProcedure("recordings:write")
+    .input(
+      z.object({
+        ids: z.array(z.string().uuid()).min(1).max(500),
+        tagIds: z.array(z.string().uuid()).min(1).max(20),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      await assertOwnedTags(ctx.db, ctx.session.user.id, input.tagIds);
+
+      const recordings = await ctx.db
+        .select({ id: Recording.id })
+        .from(Recording)
+        .where(
+          and(
+            inArray(Recording.id, input.ids),
+            canAccessRecording(ctx.db, ctx.session.user.id, "editor"),
+          ),
+        );
+      if (recordings.length === 0) return { count: 0 };
+
+      const tagIds = [...new Set(input.tagIds)];
+      const added = await ctx.db
+        .insert(RecordingTag)
+        .values(
+          recordings.flatMap(({ id }) =>
+            tagIds.map((tagId) => ({ recordingId: id, tagId })),
+          ),
+        )
+        .onConflictDoNothing()
+        .returning({ recordingId: RecordingTag.recordingId });
+      return { count: added.length };
+    }),
+
+  removeTags: scopedProcedure("recordings:write")
+    .input(
+      z.object({
+        ids: z.array(z.string().uuid()).min(1).max(500),
+        tagIds: z.array(z.string().uuid()).min(1).max(20),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      await assertOwnedTags(ctx.db, ctx.session.user.id, input.tagIds);
+
+      const removed = await ctx.db
+        .delete(RecordingTag)
+        .where(
+          and(
+            inArray(RecordingTag.tagId, input.tagIds),
+            inArray(
+              RecordingTag.recordingId,
+              ctx.db
+                .select({ id: Recording.id })
+                .from(Recording)
+                .where(
+                  and(
+                    inArray(Recording.id, input.ids),
+                    canAccessRecording(ctx.db, ctx.session.user.id, "editor"),
+                  ),
+                ),
+            ),
+          ),
+        )
+        .returning({ recordingId: RecordingTag.recordingId });
+      return { count: removed.length };
+    }),
+
+  // Queues silence trimming and loudness normalization from the original
+  // upload, e.g. with a different threshold or loudness target. Returns the
+  // job already queued or running instead, if there is one; poll
+  // `postProcessStatus` until it completes.
+  postProcess: scopedProcedure("recordings:write")
+    .input(
+      z.object({
+        id: z.string().uuid(),
+        options: PostProcessOptionsSchema.default({}),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const recording = await ctx.db.query.Recording.findFirst({
+        columns: { id: true, storageKey: true },
+        where: and(
+          eq(Recording.id, input.id),
+          canAccessRecording(ctx.db, ctx.session.user.id, "editor"),
+        ),
+      });
+      if (!recording) throw new TRPCError({ code: "NOT_FOUND" });
+      if (!recording.storageKey) {
+        throw new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message: "The recording has no uploaded audio",
+        });
+      }
+
+      return queuePostProcessJob(
+        ctx.db,
+        recording.id,
+        ctx.session.user.id,
+        input.options,
+      );
+    }),
+
+  // The latest post-processing job of the recording, null if it never had one
+  postProcessStatus: scopedProcedure("recordings:read")
+    .input(z.object({ id: z.string().uuid() }))
+    .query(async ({ ctx, input }) => {
+      const recording = await ctx.db.query.Recording.findFirst({
+        columns: { id: true },
+        where: and(
+          eq(Recording.id, input.id),
+          canAccessRecording(ctx.db, ctx.session.user.id, "viewer"),
+        ),
+      });
+      if (!recording) throw new TRPCError({ code: "NOT_FOUND" });
+
+      const job = await ctx.db.query.PostProcessJob.findFirst({
+        where: eq(PostProcessJob.recordingId, recording.id),
+        orderBy: desc(PostProcessJob.createdAt),
+      });
+      return job ?? null;
+    }),
+
+  // Frees the storage the recording counted against its owner's quota
+  delete: scopedProcedure("recordings:write")
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const recording = await ctx.db.transaction(async (tx) => {
+        const storageBytes = await getRecordingStorage(tx, [input.id]);
+        const [deleted] = await tx
+          .delete(Recording)
+          .where(
+            and(
+              eq(Recording.id, input.id),
+              canAccessRecording(ctx.db, ctx.session.user.id, "editor"),
+            ),
+          )
+          .returning({
+            id: Recording.id,
+            workspaceId: Recording.workspaceId,
+            storageKey: Recording.storageKey,
+            processedStorageKey: Recording.processedStorageKey,
+          });
+        if (!deleted) throw new TRPCError({ code: "NOT_FOUND" });
+
+        await recordUsage(
+          tx,
+          { userId: ctx.session.user.id, workspaceId: deleted.workspaceId },
+          { storageBytes: -storageBytes },
+        );
+        return deleted;
+      });
+
+      await deleteRecordingAudio([recording], ctx.log);
+
+      return { id: recording.id, workspaceId: recording.workspaceId };
+    }),
+} satisfies TRPCRouterRecord;
@@ -0,0 +1,134 @@
+import type { db as dbClient } from "@vibespeak/db/client";
+import { and, desc, eq, gte, lte, sql } from "@vibespeak/db";
+import { Recording, RecordingTranscript } from "@vibespeak/db/schema";
+
+import { canAccessRecording } from "../../workspace";
+import { hasAllTags } from "../library/tags";
+
+export interface SearchRecordingsInput {
+  /** Web search syntax: quoted phrases, `or`, `-excluded` */
+  query: string;
+  createdAfter?: Date;
+  createdBefore?: Date;
+  minDurationMs?: number;
+  maxDurationMs?: number;
+  /** Only recordings carrying all of these tags */
+  tagIds?: string[];
+  limit: number;
+  offset: number;
+}
+
+export type SearchMatchField = "title" | "notes" | "transcript";
+
+export interface HeadlinePart {
+  text: string;
+  highlight: boolean;
+}
+
+// Control characters can't occur in titles or transcripts, so they mark
+// highlights unambiguously without trusting markup from the database
+const HIGHLIGHT_START = "\u0002";
+const HIGHLIGHT_END = "\u0003";
+const HEADLINE_OPTIONS = [
+  `StartSel=${HIGHLIGHT_START}`,
+  `StopSel=${HIGHLIGHT_END}`,
+  "MaxFragments=2",
+  "MaxWords=24",
+  "MinWords=8",
+  `FragmentDelimiter=" … "`,
+].join(", ");
+
+/** Splits a `ts_headline` result into plain and highlighted runs */
+export function splitHeadline(headline: string): HeadlinePart[] {
+  const parts: HeadlinePart[] = [];
+  for (const [i, chunk] of headline.split(HIGHLIGHT_START).entries()) {
+    const [highlighted, rest] =
+      i === 0 ? [null, chunk] : chunk.split(HIGHLIGHT_END, 2);
+    if (highlighted) parts.push({ text: highlighted, highlight: true });
+    if (rest) parts.push({ text: rest, highlight: false });
+  }
+  return parts;
+}
+
+/**
+ * Ranked full-text search over a user's recordings: title and notes from the
+ * recording's search vector, spoken words from its transcript. Each result
+ * says where it matched, with a highlighted snippet and, for transcript
+ * matches, the start of the first matching segment to seek to.
+ */
+export async function searchRecordings(
+  db: typeof dbClient,
+  userId: string,
+  input: SearchRecordingsInput,
+) {
+  const query = sql`websearch_to_tsquery('english', ${input.query})`;
+  const document = sql`(${Recording.searchVector} || coalesce(${RecordingTranscript.searchVector}, ''::tsvector))`;
+  const rank = sql<number>`ts_rank_cd(${document}, ${query})`;
+
+  const matchedIn = sql<SearchMatchField>`case
+    when ${RecordingTranscript.searchVector} @@ ${query} then 'transcript'
+    when to_tsvector('english', coalesce(${Recording.notes}, '')) @@ ${query} then 'notes'
+    else 'title' end`;
+  const matchedText = sql<string>`case
+    when ${RecordingTranscript.searchVector} @@ ${query} then ${RecordingTranscript.text}
+    when to_tsvector('english', coalesce(${Recording.notes}, '')) @@ ${query} then ${Recording.notes}
+    else ${Recording.title} end`;
+
+  const rows = await db
+    .select({
+      id: Recording.id,
+      title: Recording.title,
+      durationMs: Recording.durationMs,
+      createdAt: Recording.createdAt,
+      rank,
+      matchedIn,
+      headline: sql<string>`ts_headline('english', ${matchedText}, ${query}, ${HEADLINE_OPTIONS})`,
+      matchStartMs: sql<number | null>`(
+        select (segment->>'startMs')::integer
+        from jsonb_array_elements(${RecordingTranscript.segments})
+          with ordinality as s(segment, segment_index)
+        where to_tsvector('english', segment->>'text') @@ ${query}
+        order by segment_index
+        limit 1
+      )`,
+    })
+    .from(Recording)
+    .leftJoin(
+      RecordingTranscript,
+      eq(RecordingTranscript.recordingId, Recording.id),
+    )
+    .where(
+      and(
+        canAccessRecording(db, userId, "viewer"),
+        sql`${document} @@ ${query}`,
+        input.createdAfter
+          ? gte(Recording.createdAt, input.createdAfter)
+          : undefined,
+        input.createdBefore
+          ? lte(Recording.createdAt, input.createdBefore)
+          : undefined,
+        input.minDurationMs !== undefined
+          ? gte(Recording.durationMs, input.minDurationMs)
+          : undefined,
+        input.maxDurationMs !== undefined
+          ? lte(Recording.durationMs, input.maxDurationMs)
+          : undefined,
+        input.tagIds?.length ? hasAllTags(db, input.tagIds) : undefined,
+      ),
+    )
+    .orderBy(desc(rank), desc(Recording.createdAt), desc(Recording.id))
+    // Fetch one extra row to know whether there is another page
+    .limit(input.limit + 1)
+    .offset(input.offset);
+
+  const hasMore = rows.length > input.limit;
+  if (hasMore) rows.pop();
+
+  return {
+    items: rows.map(({ headline, ...row }) => ({
+      ...row,
+      headline: splitHeadline(headline),
+    })),
+    nextOffset: hasMore ? input.offset + input.limit : null,
+  };
+}
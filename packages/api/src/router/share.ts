@@ -0,0 +1,178 @@
+import type { TRPCRouterRecord } from "@trpc/server";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+
+import { peaksToBars } from "@vibespeak/audio";
+import { and, desc, eq, isNull, sql } from "@vibespeak/db";
+import {
+  CreateShareSchema,
+  Recording,
+  RecordingShare,
+  RecordingWaveform,
+} from "@vibespeak/db/schema";
+
+import {
+  createShareAccessToken,
+  createShareSlug,
+  findActiveShare,
+  hashSharePassword,
+  hasShareAccess,
+  verifySharePassword,
+} from "../share";
+import { protectedProcedure, publicProcedure } from "../trpc";
+import { canAccessRecording } from "../workspace";
+
+// Bars drawn by the public player
+const SHARE_WAVEFORM_BARS = 200;
+
+// The owner sees whether a link has a password, never the hash
+const toShareSummary = ({
+  passwordHash,
+  ...share
+}: typeof RecordingShare.$inferSelect) => ({
+  ...share,
+  hasPassword: passwordHash !== null,
+});
+
+export const shareRouter = {
+  create: protectedProcedure
+    .input(CreateShareSchema)
+    .mutation(async ({ ctx, input }) => {
+      const recording = await ctx.db.query.Recording.findFirst({
+        columns: { id: true },
+        where: and(
+          eq(Recording.id, input.recordingId),
+          canAccessRecording(ctx.db, ctx.session.user.id, "editor"),
+        ),
+      });
+      if (!recording) throw new TRPCError({ code: "NOT_FOUND" });
+
+      const [share] = await ctx.db
+        .insert(RecordingShare)
+        .values({
+          recordingId: recording.id,
+          userId: ctx.session.user.id,
+          slug: createShareSlug(),
+          passwordHash: input.password
+            ? await hashSharePassword(input.password)
+            : null,
+          expiresAt: input.expiresAt,
+          allowDownload: input.allowDownload,
+        })
+        .returning();
+      return toShareSummary(share!);
+    }),
+
+  // Every link of a recording, including revoked and expired ones
+  list: protectedProcedure
+    .input(z.object({ recordingId: z.string().uuid() }))
+    .query(async ({ ctx, input }) => {
+      const shares = await ctx.db.query.RecordingShare.findMany({
+        where: and(
+          eq(RecordingShare.recordingId, input.recordingId),
+          eq(RecordingShare.userId, ctx.session.user.id),
+        ),
+        orderBy: desc(RecordingShare.createdAt),
+      });
+      return shares.map(toShareSummary);
+    }),
+
+  revoke: protectedProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const [share] = await ctx.db
+        .update(RecordingShare)
+        .set({ revokedAt: new Date() })
+        .where(
+          and(
+            eq(RecordingShare.id, input.id),
+            eq(RecordingShare.userId, ctx.session.user.id),
+            isNull(RecordingShare.revokedAt),
+          ),
+        )
+        .returning();
+      if (!share) throw new TRPCError({ code: "NOT_FOUND" });
+      return toShareSummary(share);
+    }),
+
+  // Link unfurling and oEmbed, doesn't count as a view. Password protected
+  // links reveal nothing about their recording.
+  preview: publicProcedure
+    .input(z.object({ slug: z.string().min(1).max(32) }))
+    .query(async ({ ctx, input }) => {
+      const share = await findActiveShare(ctx.db, input.slug);
+      if (!share) throw new TRPCError({ code: "NOT_FOUND" });
+      if (share.passwordHash) return { isLocked: true as const };
+
+      return {
+        isLocked: false as const,
+        title: share.recording.title,
+        durationMs: share.recording.durationMs,
+        mimeType: share.recording.processedStorageKey
+          ? "audio/wav"
+          : share.recording.mimeType,
+      };
+    }),
+
+  // What the public share page renders. Each unlocked call counts as a view;
+  // password protected links report "locked" until `unlock` succeeds.
+  view: publicProcedure
+    .input(
+      z.object({
+        slug: z.string().min(1).max(32),
+        accessToken: z.string().max(128).nullish(),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      const share = await findActiveShare(ctx.db, input.slug);
+      if (!share) throw new TRPCError({ code: "NOT_FOUND" });
+      if (!hasShareAccess(share, input.accessToken)) {
+        return { status: "locked" as const };
+      }
+
+      await ctx.db
+        .update(RecordingShare)
+        .set({
+          viewCount: sql`${RecordingShare.viewCount} + 1`,
+          lastViewedAt: new Date(),
+        })
+        .where(eq(RecordingShare.id, share.id));
+
+      const waveform = await ctx.db.query.RecordingWaveform.findFirst({
+        where: eq(RecordingWaveform.recordingId, share.recordingId),
+      });
+
+      return {
+        status: "ok" as const,
+        title: share.recording.title,
+        durationMs: share.recording.durationMs,
+        createdAt: share.recording.createdAt,
+        allowDownload: share.allowDownload,
+        bars: waveform ? peaksToBars(waveform, SHARE_WAVEFORM_BARS) : [],
+      };
+    }),
+
+  // Checks a link's password and returns the token the share cookie holds
+  unlock: publicProcedure
+    .input(
+      z.object({
+        slug: z.string().min(1).max(32),
+        password: z.string().max(128),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const share = await findActiveShare(ctx.db, input.slug);
+      if (!share) throw new TRPCError({ code: "NOT_FOUND" });
+
+      if (
+        share.passwordHash &&
+        !(await verifySharePassword(input.password, share.passwordHash))
+      ) {
+        throw new TRPCError({
+          code: "UNAUTHORIZED",
+          message: "Wrong password",
+        });
+      }
+      return { accessToken: createShareAccessToken(share) };
+    }),
+} satisfies TRPCRouterRecord;
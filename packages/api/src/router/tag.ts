@@ -0,0 +1,87 @@
+import type { TRPCRouterRecord } from "@trpc/server";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+
+import { and, asc, count, eq } from "@vibespeak/db";
+import {
+  CreateTagSchema,
+  RecordingTag,
+  Tag,
+  UpdateTagSchema,
+} from "@vibespeak/db/schema";
+
+import { protectedProcedure } from "../trpc";
+
+// Postgres unique_violation, tag names are unique per user
+const isDuplicateName = (error: unknown) =>
+  (error as { code?: string } | null)?.code === "23505";
+
+const duplicateNameError = () =>
+  new TRPCError({
+    code: "CONFLICT",
+    message: "A tag with this name already exists",
+  });
+
+export const tagRouter = {
+  // All tags with how many recordings carry each
+  list: protectedProcedure.query(({ ctx }) =>
+    ctx.db
+      .select({
+        id: Tag.id,
+        name: Tag.name,
+        color: Tag.color,
+        createdAt: Tag.createdAt,
+        recordingCount: count(RecordingTag.recordingId),
+      })
+      .from(Tag)
+      .leftJoin(RecordingTag, eq(RecordingTag.tagId, Tag.id))
+      .where(eq(Tag.userId, ctx.session.user.id))
+      .groupBy(Tag.id)
+      .orderBy(asc(Tag.name)),
+  ),
+
+  create: protectedProcedure
+    .input(CreateTagSchema)
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const [tag] = await ctx.db
+          .insert(Tag)
+          .values({ ...input, userId: ctx.session.user.id })
+          .returning();
+        return tag!;
+      } catch (error) {
+        if (isDuplicateName(error)) throw duplicateNameError();
+        throw error;
+      }
+    }),
+
+  update: protectedProcedure
+    .input(UpdateTagSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { id, ...values } = input;
+      try {
+        const [tag] = await ctx.db
+          .update(Tag)
+          .set(values)
+          .where(and(eq(Tag.id, id), eq(Tag.userId, ctx.session.user.id)))
+          .returning();
+        if (!tag) throw new TRPCError({ code: "NOT_FOUND" });
+        return tag;
+      } catch (error) {
+        if (isDuplicateName(error)) throw duplicateNameError();
+        throw error;
+      }
+    }),
+
+  // Removes the tag from every recording that carries it
+  delete: protectedProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const [tag] = await ctx.db
+        .delete(Tag)
+        .where(and(eq(Tag.id, input.id), eq(Tag.userId, ctx.session.user.id)))
+        .returning({ id: Tag.id });
+      if (!tag) throw new TRPCError({ code: "NOT_FOUND" });
+      return tag;
+    }),
+} satisfies TRPCRouterRecord;
@@ -0,0 +1,203 @@
+import type { TRPCRouterRecord } from "@trpc/server";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+
+import { editSegmentText } from "@vibespeak/audio";
+import { and, desc, eq, inArray } from "@vibespeak/db";
+import {
+  Recording,
+  RecordingTranscript,
+  TranscriptionJob,
+} from "@vibespeak/db/schema";
+
+import { getTranscriptionEngine, runTranscriptionJob } from "../transcription";
+import { scopedProcedure } from "../trpc";
+import { assertQuota, recordUsage } from "../usage";
+import { canAccessRecording } from "../workspace";
+
+export const transcriptionRouter = {
+  // Queues a transcription of the recording, or returns the one already
+  // queued or running. Poll `status` until the job completes, then `get`.
+  request: scopedProcedure("recordings:write")
+    .input(
+      z.object({
+        recordingId: z.string().uuid(),
+        language: z.string().min(2).max(16).optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const recording = await ctx.db.query.Recording.findFirst({
+        where: and(
+          eq(Recording.id, input.recordingId),
+          canAccessRecording(ctx.db, ctx.session.user.id, "editor"),
+        ),
+      });
+      if (!recording) throw new TRPCError({ code: "NOT_FOUND" });
+      if (!recording.storageKey) {
+        throw new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message: "The recording has no uploaded audio",
+        });
+      }
+
+      const active = await ctx.db.query.TranscriptionJob.findFirst({
+        where: and(
+          eq(TranscriptionJob.recordingId, recording.id),
+          inArray(TranscriptionJob.status, ["queued", "processing"]),
+        ),
+        orderBy: desc(TranscriptionJob.createdAt),
+      });
+      if (active) return active;
+
+      // Charged up front so queued jobs count too; failed jobs give it back
+      const usageSubject = {
+        userId: ctx.session.user.id,
+        workspaceId: recording.workspaceId,
+      };
+
+      // The partial unique index allows one active job per recording, so of
+      // two concurrent requests only one inserts a job and charges for it
+      const job = await ctx.db.transaction(async (tx) => {
+        await assertQuota(tx, usageSubject, {
+          transcriptionMs: recording.durationMs,
+        });
+        const [job] = await tx
+          .insert(TranscriptionJob)
+          .values({
+            recordingId: recording.id,
+            userId: ctx.session.user.id,
+            engine: getTranscriptionEngine().name,
+            language: input.language,
+            transcriptionMs: recording.durationMs,
+          })
+          .onConflictDoNothing()
+          .returning();
+        if (!job) return null;
+
+        await recordUsage(
+          tx,
+          usageSubject,
+          { transcriptionMs: job.transcriptionMs },
+          recording.id,
+        );
+        return job;
+      });
+      if (!job) {
+        const latest = await ctx.db.query.TranscriptionJob.findFirst({
+          where: eq(TranscriptionJob.recordingId, recording.id),
+          orderBy: desc(TranscriptionJob.createdAt),
+        });
+        return latest!;
+      }
+
+      // Runs in-process after the response; failures are stored on the job
+      void runTranscriptionJob(ctx.db, job.id).catch((error: unknown) =>
+        ctx.log.error("Failed to run transcription job", {
+          jobId: job.id,
+          error,
+        }),
+      );
+
+      return job;
+    }),
+
+  // Any job on a recording the user can view, whoever started it
+  status: scopedProcedure("recordings:read")
+    .input(z.object({ jobId: z.string().uuid() }))
+    .query(async ({ ctx, input }) => {
+      const [row] = await ctx.db
+        .select({ job: TranscriptionJob })
+        .from(TranscriptionJob)
+        .innerJoin(Recording, eq(Recording.id, TranscriptionJob.recordingId))
+        .where(
+          and(
+            eq(TranscriptionJob.id, input.jobId),
+            canAccessRecording(ctx.db, ctx.session.user.id, "viewer"),
+          ),
+        );
+      if (!row) throw new TRPCError({ code: "NOT_FOUND" });
+      return row.job;
+    }),
+
+  // The latest completed transcript, null until one exists
+  get: scopedProcedure("recordings:read")
+    .input(z.object({ recordingId: z.string().uuid() }))
+    .query(async ({ ctx, input }) => {
+      const [row] = await ctx.db
+        .select({
+          recordingId: RecordingTranscript.recordingId,
+          jobId: RecordingTranscript.jobId,
+          engine: RecordingTranscript.engine,
+          language: RecordingTranscript.language,
+          text: RecordingTranscript.text,
+          segments: RecordingTranscript.segments,
+          editedAt: RecordingTranscript.editedAt,
+          createdAt: RecordingTranscript.createdAt,
+        })
+        .from(RecordingTranscript)
+        .innerJoin(Recording, eq(Recording.id, RecordingTranscript.recordingId))
+        .where(
+          and(
+            eq(Recording.id, input.recordingId),
+            canAccessRecording(ctx.db, ctx.session.user.id, "viewer"),
+          ),
+        );
+      return row ?? null;
+    }),
+
+  // Corrects the text of segments by index. Word timing is carried over from
+  // the words that survive the edit; segments edited down to nothing are
+  // removed.
+  edit: scopedProcedure("recordings:write")
+    .input(
+      z.object({
+        recordingId: z.string().uuid(),
+        edits: z
+          .array(
+            z.object({
+              segmentIndex: z.number().int().nonnegative(),
+              text: z.string().max(2_000),
+            }),
+          )
+          .min(1)
+          .max(100),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const [transcript] = await ctx.db
+        .select({ segments: RecordingTranscript.segments })
+        .from(RecordingTranscript)
+        .innerJoin(Recording, eq(Recording.id, RecordingTranscript.recordingId))
+        .where(
+          and(
+            eq(Recording.id, input.recordingId),
+            canAccessRecording(ctx.db, ctx.session.user.id, "editor"),
+          ),
+        );
+      if (!transcript) throw new TRPCError({ code: "NOT_FOUND" });
+
+      const segments = [...transcript.segments];
+      for (const { segmentIndex, text } of input.edits) {
+        const segment = segments[segmentIndex];
+        if (!segment) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: `Segment ${segmentIndex} does not exist`,
+          });
+        }
+        segments[segmentIndex] = editSegmentText(segment, text);
+      }
+      const kept = segments.filter((segment) => segment.words.length > 0);
+
+      const [updated] = await ctx.db
+        .update(RecordingTranscript)
+        .set({
+          segments: kept,
+          text: kept.map((segment) => segment.text).join(" "),
+          editedAt: new Date(),
+        })
+        .where(eq(RecordingTranscript.recordingId, input.recordingId))
+        .returning();
+      return updated!;
+    }),
+} satisfies TRPCRouterRecord;
@@ -0,0 +1,266 @@
+import { createHash, randomUUID } from "node:crypto";
+import type { TRPCRouterRecord } from "@trpc/server";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+
+import { and, eq } from "@vibespeak/db";
+import {
+  InitiateUploadSchema,
+  Recording,
+  RecordingUpload,
+} from "@vibespeak/db/schema";
+import { PostProcessOptionsSchema } from "@vibespeak/validators";
+
+import { getStorage } from "../storage";
+import { scopedProcedure } from "../trpc";
+import {
+  getChunkCount,
+  getPendingUpload,
+  listReceivedChunks,
+  readUploadChunks,
+  recordingKey,
+  removeUploadChunks,
+  sweepExpiredUploads,
+  UPLOAD_TTL_MS,
+} from "../upload";
+import { assertQuota, recordUsage } from "../usage";
+import { assertWorkspaceRole } from "../workspace";
+import { saveRecordingWaveform } from "./audio/generate-waveform";
+import { queuePostProcessJob } from "./audio/post-process-recording";
+import { assertOwnedFolder } from "./library/folders";
+
+/**
+ * Resumable chunked uploads.
+ *
+ * 1. `initiate` reserves an upload and fixes the chunk size
+ * 2. chunks are sent as raw bytes to `PUT /api/upload/:uploadId/:index`
+ * 3. `status` reports which chunks (and offsets) are already stored
+ * 4. `finalize` streams the chunks into one file, verifies the SHA-256
+ *    checksum and creates the recording, optionally queueing silence
+ *    trimming and loudness normalization; `abort` discards everything instead
+ */
+export const uploadRouter = {
+  initiate: scopedProcedure("recordings:write")
+    .input(InitiateUploadSchema)
+    .mutation(async ({ ctx, input }) => {
+      await assertOwnedFolder(ctx.db, ctx.session.user.id, input.folderId);
+      if (input.workspaceId) {
+        await assertWorkspaceRole(
+          ctx.db,
+          ctx.session.user.id,
+          input.workspaceId,
+          "editor",
+        );
+      }
+      // Fails early; `finalize` checks again when it charges the usage
+      await assertQuota(
+        ctx.db,
+        { userId: ctx.session.user.id, workspaceId: input.workspaceId ?? null },
+        { storageBytes: input.totalBytes, recordedMs: input.durationMs },
+      );
+      sweepExpiredUploads(ctx.db);
+
+      const [upload] = await ctx.db
+        .insert(RecordingUpload)
+        .values({
+          ...input,
+          userId: ctx.session.user.id,
+          expiresAt: new Date(Date.now() + UPLOAD_TTL_MS),
+        })
+        .returning();
+
+      return {
+        uploadId: upload!.id,
+        chunkSize: upload!.chunkSize,
+        chunkCount: getChunkCount(upload!),
+        expiresAt: upload!.expiresAt,
+      };
+    }),
+
+  status: scopedProcedure("recordings:write")
+    .input(z.object({ uploadId: z.string().uuid() }))
+    .query(async ({ ctx, input }) => {
+      const upload = await getPendingUpload(
+        ctx.db,
+        ctx.session.user.id,
+        input.uploadId,
+      );
+      const received = await listReceivedChunks(upload);
+      const receivedIndexes = new Set(received.map((chunk) => chunk.index));
+
+      return {
+        uploadId: upload.id,
+        totalBytes: upload.totalBytes,
+        chunkSize: upload.chunkSize,
+        chunkCount: getChunkCount(upload),
+        received,
+        missing: Array.from(
+          { length: getChunkCount(upload) },
+          (_, index) => index,
+        ).filter((index) => !receivedIndexes.has(index)),
+        expiresAt: upload.expiresAt,
+      };
+    }),
+
+  finalize: scopedProcedure("recordings:write")
+    .input(
+      z.object({
+        uploadId: z.string().uuid(),
+        // Hex-encoded SHA-256 of the complete file
+        checksum: z.string().regex(/^[a-f0-9]{64}$/i),
+        // Trim silence and normalize loudness once the file is assembled
+        postProcess: PostProcessOptionsSchema.optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      const upload = await getPendingUpload(ctx.db, userId, input.uploadId);
+
+      const received = await listReceivedChunks(upload);
+      if (received.length !== getChunkCount(upload)) {
+        throw new TRPCError({
+          code: "PRECONDITION_FAILED",
+          message: `Upload is missing ${getChunkCount(upload) - received.length} chunk(s)`,
+        });
+      }
+
+      const usageSubject = { userId, workspaceId: upload.workspaceId };
+
+      // Claim the upload so a concurrent finalize can't create a duplicate
+      const [claimed] = await ctx.db
+        .update(RecordingUpload)
+        .set({ status: "finalizing" })
+        .where(
+          and(
+            eq(RecordingUpload.id, upload.id),
+            eq(RecordingUpload.status, "pending"),
+          ),
+        )
+        .returning({ id: RecordingUpload.id });
+      if (!claimed) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: "Upload was finalized concurrently",
+        });
+      }
+
+      const recordingId = randomUUID();
+      const storageKey = recordingKey(userId, recordingId);
+      let recording;
+      try {
+        const hash = createHash("sha256");
+        await getStorage().put(storageKey, readUploadChunks(upload, hash));
+        if (hash.digest("hex") !== input.checksum.toLowerCase()) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Checksum does not match the uploaded data",
+          });
+        }
+
+        recording = await ctx.db.transaction(async (tx) => {
+          // Checked again in case other uploads used up the quota meanwhile
+          await assertQuota(tx, usageSubject, {
+            storageBytes: upload.totalBytes,
+            recordedMs: upload.durationMs,
+          });
+          const [created] = await tx
+            .insert(Recording)
+            .values({
+              id: recordingId,
+              userId,
+              title: upload.title,
+              notes: upload.notes,
+              folderId: upload.folderId,
+              workspaceId: upload.workspaceId,
+              durationMs: upload.durationMs,
+              mimeType: upload.mimeType,
+              sampleRate: upload.sampleRate,
+              channelCount: upload.channelCount,
+              byteSize: upload.totalBytes,
+              storageKey,
+            })
+            .returning();
+
+          await tx
+            .update(RecordingUpload)
+            .set({ status: "completed", recordingId })
+            .where(eq(RecordingUpload.id, upload.id));
+          await recordUsage(
+            tx,
+            usageSubject,
+            { storageBytes: upload.totalBytes, recordedMs: upload.durationMs },
+            recordingId,
+          );
+
+          return created!;
+        });
+      } catch (error) {
+        // Hand the upload back so chunks can be re-sent and finalized again
+        await getStorage().delete(storageKey);
+        await ctx.db
+          .update(RecordingUpload)
+          .set({ status: "pending" })
+          .where(eq(RecordingUpload.id, upload.id));
+        throw error;
+      }
+
+      await removeUploadChunks(upload.id);
+
+      // Processing runs as a job, poll `recording.postProcessStatus`. It
+      // redraws the waveform from the processed audio once it is done.
+      if (input.postProcess) {
+        try {
+          await queuePostProcessJob(
+            ctx.db,
+            recording.id,
+            userId,
+            input.postProcess,
+          );
+          return recording;
+        } catch (error) {
+          ctx.log.error("Failed to queue post-processing", {
+            recordingId: recording.id,
+            error,
+          });
+        }
+      }
+
+      // A waveform is a nice-to-have; a file we can't decode is still a recording
+      try {
+        const bytes = await getStorage().get(storageKey);
+        if (bytes) {
+          await saveRecordingWaveform(
+            ctx.db,
+            recording.id,
+            bytes,
+            recording.mimeType,
+          );
+        }
+      } catch (error) {
+        ctx.log.error("Failed to generate waveform", {
+          recordingId: recording.id,
+          error,
+        });
+      }
+
+      return recording;
+    }),
+
+  abort: scopedProcedure("recordings:write")
+    .input(z.object({ uploadId: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const upload = await getPendingUpload(
+        ctx.db,
+        ctx.session.user.id,
+        input.uploadId,
+      );
+
+      await ctx.db
+        .update(RecordingUpload)
+        .set({ status: "aborted" })
+        .where(eq(RecordingUpload.id, upload.id));
+      await removeUploadChunks(upload.id);
+
+      return { success: true };
+    }),
+} satisfies TRPCRouterRecord;
@@ -0,0 +1,25 @@
+import type { TRPCRouterRecord } from "@trpc/server";
+import { z } from "zod";
+
+import { scopedProcedure } from "../trpc";
+import { getUsage } from "../usage";
+import { assertWorkspaceRole } from "../workspace";
+
+export const usageRouter = {
+  // What the user (or a workspace they belong to) used of its plan, for
+  // usage meters. Storage is the current total, the rest this month's.
+  get: scopedProcedure("recordings:read")
+    .input(z.object({ workspaceId: z.string().uuid().optional() }).optional())
+    .query(async ({ ctx, input }) => {
+      const workspaceId = input?.workspaceId ?? null;
+      if (workspaceId) {
+        await assertWorkspaceRole(
+          ctx.db,
+          ctx.session.user.id,
+          workspaceId,
+          "viewer",
+        );
+      }
+      return getUsage(ctx.db, { userId: ctx.session.user.id, workspaceId });
+    }),
+} satisfies TRPCRouterRecord;
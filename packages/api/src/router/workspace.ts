@@ -0,0 +1,370 @@
+import type { TRPCRouterRecord } from "@trpc/server";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+
+import type { db as dbClient } from "@vibespeak/db/client";
+import type { WorkspaceRole } from "@vibespeak/db/schema";
+import { and, asc, eq, gt, isNull, sql } from "@vibespeak/db";
+import {
+  CreateWorkspaceSchema,
+  InviteMemberSchema,
+  Membership,
+  Recording,
+  User,
+  Workspace,
+  WorkspaceInvitation,
+  WorkspaceRoleSchema,
+} from "@vibespeak/db/schema";
+import { sendMail } from "@vibespeak/mail";
+
+import { env } from "../env";
+import { deleteRecordingAudio } from "../recording";
+import { protectedProcedure, workspaceProcedure } from "../trpc";
+import {
+  createInvitationToken,
+  hashInvitationToken,
+  INVITATION_TTL_MS,
+} from "../workspace";
+
+/**
+ * Throws unless the workspace keeps at least one owner once `userId` stops
+ * being one. Run it in the transaction that demotes or removes them: it
+ * locks the owner memberships until that commits, so two owners demoting
+ * each other at once can't both pass.
+ */
+async function assertNotLastOwner(
+  tx: Pick<typeof dbClient, "select">,
+  workspaceId: string,
+  userId: string,
+) {
+  const owners = await tx
+    .select({ userId: Membership.userId })
+    .from(Membership)
+    .where(
+      and(
+        eq(Membership.workspaceId, workspaceId),
+        eq(Membership.role, "owner"),
+      ),
+    )
+    .for("update");
+  if (!owners.some((owner) => owner.userId === userId)) return;
+
+  if (owners.length <= 1) {
+    throw new TRPCError({
+      code: "PRECONDITION_FAILED",
+      message: "A workspace needs at least one owner",
+    });
+  }
+}
+
+/**
+ * Shared team spaces. Members hold one role each: owners manage the
+ * workspace and its members, editors change its recordings, viewers only
+ * read them. People join through emailed invitations.
+ */
+export const workspaceRouter = {
+  // Workspaces the user belongs to, with their role in each
+  list: protectedProcedure.query(({ ctx }) =>
+    ctx.db
+      .select({
+        id: Workspace.id,
+        name: Workspace.name,
+        role: Membership.role,
+        createdAt: Workspace.createdAt,
+      })
+      .from(Membership)
+      .innerJoin(Workspace, eq(Workspace.id, Membership.workspaceId))
+      .where(eq(Membership.userId, ctx.session.user.id))
+      .orderBy(asc(Workspace.name)),
+  ),
+
+  create: protectedProcedure
+    .input(CreateWorkspaceSchema)
+    .mutation(({ ctx, input }) =>
+      ctx.db.transaction(async (tx) => {
+        const [workspace] = await tx
+          .insert(Workspace)
+          .values({ name: input.name })
+          .returning();
+        await tx.insert(Membership).values({
+          workspaceId: workspace!.id,
+          userId: ctx.session.user.id,
+          role: "owner",
+        });
+        return { ...workspace!, role: "owner" as WorkspaceRole };
+      }),
+    ),
+
+  // The workspace with its members; owners also see pending invitations
+  get: workspaceProcedure("viewer").query(async ({ ctx }) => {
+    const workspace = await ctx.db.query.Workspace.findFirst({
+      where: eq(Workspace.id, ctx.workspace.id),
+    });
+    if (!workspace) throw new TRPCError({ code: "NOT_FOUND" });
+
+    const members = await ctx.db
+      .select({
+        userId: Membership.userId,
+        role: Membership.role,
+        joinedAt: Membership.createdAt,
+        name: User.name,
+        email: User.email,
+        image: User.image,
+      })
+      .from(Membership)
+      .innerJoin(User, eq(User.id, Membership.userId))
+      .where(eq(Membership.workspaceId, workspace.id))
+      .orderBy(asc(Membership.createdAt));
+
+    const invitations =
+      ctx.workspace.role === "owner"
+        ? await ctx.db
+            .select({
+              id: WorkspaceInvitation.id,
+              email: WorkspaceInvitation.email,
+              role: WorkspaceInvitation.role,
+              expiresAt: WorkspaceInvitation.expiresAt,
+              createdAt: WorkspaceInvitation.createdAt,
+            })
+            .from(WorkspaceInvitation)
+            .where(
+              and(
+                eq(WorkspaceInvitation.workspaceId, workspace.id),
+                isNull(WorkspaceInvitation.acceptedAt),
+                isNull(WorkspaceInvitation.revokedAt),
+                gt(WorkspaceInvitation.expiresAt, new Date()),
+              ),
+            )
+            .orderBy(asc(WorkspaceInvitation.createdAt))
+        : [];
+
+    return { ...workspace, role: ctx.workspace.role, members, invitations };
+  }),
+
+  rename: workspaceProcedure("owner")
+    .input(CreateWorkspaceSchema)
+    .mutation(async ({ ctx, input }) => {
+      const [workspace] = await ctx.db
+        .update(Workspace)
+        .set({ name: input.name })
+        .where(eq(Workspace.id, ctx.workspace.id))
+        .returning();
+      return workspace!;
+    }),
+
+  // Also deletes the workspace's recordings and their audio
+  delete: workspaceProcedure("owner").mutation(async ({ ctx }) => {
+    const recordings = await ctx.db.transaction(async (tx) => {
+      // Holds off new recordings, whose audio would be missed below
+      await tx
+        .select({ id: Workspace.id })
+        .from(Workspace)
+        .where(eq(Workspace.id, ctx.workspace.id))
+        .for("update");
+      const deleted = await tx
+        .delete(Recording)
+        .where(eq(Recording.workspaceId, ctx.workspace.id))
+        .returning({
+          id: Recording.id,
+          storageKey: Recording.storageKey,
+          processedStorageKey: Recording.processedStorageKey,
+        });
+      await tx.delete(Workspace).where(eq(Workspace.id, ctx.workspace.id));
+      return deleted;
+    });
+
+    await deleteRecordingAudio(recordings, ctx.log);
+    return { id: ctx.workspace.id };
+  }),
+
+  // Emails a link that adds whoever signs in with that address
+  invite: workspaceProcedure("owner")
+    .input(InviteMemberSchema)
+    .mutation(async ({ ctx, input }) => {
+      const email = input.email.toLowerCase();
+
+      const [existing] = await ctx.db
+        .select({ userId: Membership.userId })
+        .from(Membership)
+        .innerJoin(User, eq(User.id, Membership.userId))
+        .where(
+          and(
+            eq(Membership.workspaceId, ctx.workspace.id),
+            eq(sql`lower(${User.email})`, email),
+          ),
+        );
+      if (existing) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: "That person is already a member",
+        });
+      }
+
+      const workspace = await ctx.db.query.Workspace.findFirst({
+        columns: { name: true },
+        where: eq(Workspace.id, ctx.workspace.id),
+      });
+      const { token, tokenHash } = createInvitationToken();
+      const [invitation] = await ctx.db
+        .insert(WorkspaceInvitation)
+        .values({
+          workspaceId: ctx.workspace.id,
+          email,
+          role: input.role,
+          tokenHash,
+          invitedById: ctx.session.user.id,
+          expiresAt: new Date(Date.now() + INVITATION_TTL_MS),
+        })
+        .returning({
+          id: WorkspaceInvitation.id,
+          email: WorkspaceInvitation.email,
+          role: WorkspaceInvitation.role,
+          expiresAt: WorkspaceInvitation.expiresAt,
+          createdAt: WorkspaceInvitation.createdAt,
+        });
+
+      const inviter = ctx.session.user.name ?? ctx.session.user.email;
+      const url = new URL(`/invite/${token}`, env.APP_URL).toString();
+      await sendMail({
+        to: email,
+        subject: `Join ${workspace?.name ?? "a workspace"} on VibeSpeak`,
+        text: [
+          `${inviter ?? "Someone"} invited you to the ${workspace?.name ?? ""} workspace as ${input.role}.`,
+          "",
+          `Sign in with ${email} and open this link to join:`,
+          url,
+          "",
+          "The link expires in 7 days.",
+        ].join("\n"),
+      });
+
+      return invitation!;
+    }),
+
+  revokeInvitation: workspaceProcedure("owner")
+    .input(z.object({ invitationId: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const [invitation] = await ctx.db
+        .update(WorkspaceInvitation)
+        .set({ revokedAt: new Date() })
+        .where(
+          and(
+            eq(WorkspaceInvitation.id, input.invitationId),
+            eq(WorkspaceInvitation.workspaceId, ctx.workspace.id),
+            isNull(WorkspaceInvitation.acceptedAt),
+            isNull(WorkspaceInvitation.revokedAt),
+          ),
+        )
+        .returning({ id: WorkspaceInvitation.id });
+      if (!invitation) throw new TRPCError({ code: "NOT_FOUND" });
+      return invitation;
+    }),
+
+  // Invitations are bound to an address: the signed-in user's email must match
+  acceptInvitation: protectedProcedure
+    .input(z.object({ token: z.string().min(1).max(128) }))
+    .mutation(async ({ ctx, input }) => {
+      const invitation = await ctx.db.query.WorkspaceInvitation.findFirst({
+        where: and(
+          eq(WorkspaceInvitation.tokenHash, hashInvitationToken(input.token)),
+          isNull(WorkspaceInvitation.acceptedAt),
+          isNull(WorkspaceInvitation.revokedAt),
+          gt(WorkspaceInvitation.expiresAt, new Date()),
+        ),
+      });
+      if (!invitation) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "This invitation is invalid or has expired",
+        });
+      }
+      if (ctx.session.user.email?.toLowerCase() !== invitation.email) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: `This invitation is for ${invitation.email}`,
+        });
+      }
+
+      await ctx.db.transaction(async (tx) => {
+        // Someone who is already a member keeps their current role
+        await tx
+          .insert(Membership)
+          .values({
+            workspaceId: invitation.workspaceId,
+            userId: ctx.session.user.id,
+            role: invitation.role,
+          })
+          .onConflictDoNothing();
+        await tx
+          .update(WorkspaceInvitation)
+          .set({ acceptedAt: new Date() })
+          .where(eq(WorkspaceInvitation.id, invitation.id));
+      });
+
+      return { workspaceId: invitation.workspaceId };
+    }),
+
+  updateMember: workspaceProcedure("owner")
+    .input(z.object({ userId: z.string().uuid(), role: WorkspaceRoleSchema }))
+    .mutation(({ ctx, input }) =>
+      ctx.db.transaction(async (tx) => {
+        if (input.role !== "owner") {
+          await assertNotLastOwner(tx, ctx.workspace.id, input.userId);
+        }
+
+        const [membership] = await tx
+          .update(Membership)
+          .set({ role: input.role })
+          .where(
+            and(
+              eq(Membership.workspaceId, ctx.workspace.id),
+              eq(Membership.userId, input.userId),
+            ),
+          )
+          .returning();
+        if (!membership) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Member not found",
+          });
+        }
+        return membership;
+      }),
+    ),
+
+  // Owners can remove anyone; everyone can remove themselves to leave
+  removeMember: workspaceProcedure("viewer")
+    .input(z.object({ userId: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      if (
+        input.userId !== ctx.session.user.id &&
+        ctx.workspace.role !== "owner"
+      ) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Only owners can remove other members",
+        });
+      }
+
+      return ctx.db.transaction(async (tx) => {
+        await assertNotLastOwner(tx, ctx.workspace.id, input.userId);
+
+        const [membership] = await tx
+          .delete(Membership)
+          .where(
+            and(
+              eq(Membership.workspaceId, ctx.workspace.id),
+              eq(Membership.userId, input.userId),
+            ),
+          )
+          .returning({ userId: Membership.userId });
+        if (!membership) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Member not found",
+          });
+        }
+        return membership;
+      });
+    }),
+} satisfies TRPCRouterRecord;
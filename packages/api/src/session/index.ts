@@ -0,0 +1,83 @@
+import type { db as dbClient } from "@vibespeak/db/client";
+import { getClientIp } from "@vibespeak/auth";
+import { and, eq, isNull, lt, or } from "@vibespeak/db";
+import { Session } from "@vibespeak/db/schema";
+
+import { logger } from "../logger";
+
+// Device details don't need to be fresher than this, so most requests skip the write
+const LAST_SEEN_RESOLUTION_MS = 5 * 60 * 1000;
+
+/**
+ * Records which device is using a session and when it was last seen.
+ * Runs in the background; a failed write only loses device details.
+ */
+export function touchSession(
+  db: typeof dbClient,
+  sessionToken: string,
+  headers: Headers,
+) {
+  const now = new Date();
+  const userAgent = headers.get("user-agent");
+  const platform = headers.get("x-trpc-source");
+
+  void db
+    .update(Session)
+    .set({
+      lastSeenAt: now,
+      ipAddress: getClientIp(headers)?.slice(0, 45) ?? null,
+      // Requests without these headers (e.g. raw uploads) keep what we know
+      ...(userAgent && { userAgent }),
+      ...(platform && { platform: platform.slice(0, 64) }),
+    })
+    .where(
+      and(
+        eq(Session.sessionToken, sessionToken),
+        or(
+          isNull(Session.lastSeenAt),
+          lt(
+            Session.lastSeenAt,
+            new Date(now.getTime() - LAST_SEEN_RESOLUTION_MS),
+          ),
+        ),
+      ),
+    )
+    .catch((error: unknown) => {
+      logger.error("Failed to record session activity", { error });
+    });
+}
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/OPR\//, "Opera"],
+  [/Firefox\//, "Firefox"],
+  [/Chrome\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const SYSTEMS: [RegExp, string][] = [
+  [/iPhone|iPad|CFNetwork/, "iOS"],
+  [/Android|okhttp/, "Android"],
+  [/Mac OS X/, "macOS"],
+  [/Windows/, "Windows"],
+  [/Linux/, "Linux"],
+];
+
+const match = (patterns: [RegExp, string][], value: string) =>
+  patterns.find(([pattern]) => pattern.test(value))?.[1];
+
+/** A readable name for a session, e.g. "Firefox on Windows" */
+export function describeDevice(
+  userAgent: string | null,
+  platform: string | null,
+) {
+  const system = userAgent ? match(SYSTEMS, userAgent) : undefined;
+  const client = platform?.startsWith("expo")
+    ? "Mobile app"
+    : userAgent
+      ? match(BROWSERS, userAgent)
+      : undefined;
+
+  if (client && system) return `${client} on ${system}`;
+  return client ?? system ?? "Unknown device";
+}
@@ -0,0 +1,43 @@
+import { readCookie } from "@vibespeak/auth";
+import { db } from "@vibespeak/db/client";
+
+import { logger } from "../logger";
+import { audioResponse } from "../storage/audio-response";
+import { findActiveShare, hasShareAccess, shareCookieName } from "./index";
+
+const notFound = () => new Response("Not found", { status: 404 });
+
+/**
+ * Fetch handler for `GET /s/:slug/audio`, the audio behind a public share.
+ *
+ * Access is checked on every request the same way the share page does it:
+ * unknown, revoked, expired and still-locked links are all 404 so a link's
+ * state isn't leaked. `?download` adds an attachment disposition when the
+ * owner allowed downloads. Single byte ranges are honored so players can
+ * seek.
+ */
+export async function shareAudioHandler(opts: { req: Request; slug: string }) {
+  try {
+    const share = await findActiveShare(db, opts.slug);
+    if (
+      !share ||
+      !hasShareAccess(
+        share,
+        readCookie(opts.req.headers, shareCookieName(opts.slug)),
+      )
+    ) {
+      return notFound();
+    }
+
+    const download = new URL(opts.req.url).searchParams.has("download");
+    if (download && !share.allowDownload) return notFound();
+
+    return (
+      (await audioResponse(opts.req, share.recording, { download })) ??
+      notFound()
+    );
+  } catch (error) {
+    logger.error("Share audio error", { error });
+    return new Response("Internal server error", { status: 500 });
+  }
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  createShareAccessToken,
+  createShareSlug,
+  hashSharePassword,
+  hasShareAccess,
+  verifySharePassword,
+} from "./index";
+
+describe("share passwords", () => {
+  it("verifies the password it hashed", async () => {
+    const hash = await hashSharePassword("correct horse");
+    expect(hash).toMatch(/^scrypt\$[\w-]+\$[\w-]+$/);
+    expect(await verifySharePassword("correct horse", hash)).toBe(true);
+    expect(await verifySharePassword("wrong horse", hash)).toBe(false);
+  });
+
+  it("salts every hash", async () => {
+    expect(await hashSharePassword("secret")).not.toBe(
+      await hashSharePassword("secret"),
+    );
+  });
+
+  it("compares the normalized password", async () => {
+    // "é" precomposed and as "e" plus a combining accent
+    const hash = await hashSharePassword("caf\u00e9");
+    expect(await verifySharePassword("cafe\u0301", hash)).toBe(true);
+  });
+
+  it("rejects malformed hashes", async () => {
+    expect(await verifySharePassword("secret", "")).toBe(false);
+    expect(await verifySharePassword("secret", "bcrypt$a$b")).toBe(false);
+  });
+});
+
+describe("share access tokens", () => {
+  const share = { id: "share-1", passwordHash: "scrypt$salt$key" };
+
+  it("grants access with the token for the share", () => {
+    expect(hasShareAccess(share, createShareAccessToken(share))).toBe(true);
+  });
+
+  it("denies access without a valid token", () => {
+    const other = { ...share, id: "share-2" };
+    expect(hasShareAccess(share, null)).toBe(false);
+    expect(hasShareAccess(share, "")).toBe(false);
+    expect(hasShareAccess(share, createShareAccessToken(other))).toBe(false);
+  });
+
+  it("stops working when the password changes", () => {
+    const token = createShareAccessToken(share);
+    expect(
+      hasShareAccess({ ...share, passwordHash: "scrypt$salt$other" }, token),
+    ).toBe(false);
+  });
+
+  it("lets anyone open links without a password", () => {
+    expect(hasShareAccess({ id: "share-1", passwordHash: null }, null)).toBe(
+      true,
+    );
+  });
+});
+
+describe("createShareSlug", () => {
+  it("makes unique URL safe slugs", () => {
+    const slug = createShareSlug();
+    expect(slug).toMatch(/^[\w-]{22}$/);
+    expect(createShareSlug()).not.toBe(slug);
+  });
+});
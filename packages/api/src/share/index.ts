@@ -0,0 +1,101 @@
+import { createHmac, randomBytes, scrypt, timingSafeEqual } from "node:crypto";
+import { promisify } from "node:util";
+
+import type { db as dbClient } from "@vibespeak/db/client";
+import { and, eq, gt, isNull, or } from "@vibespeak/db";
+import { RecordingShare } from "@vibespeak/db/schema";
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keyLength: number,
+) => Promise<Buffer>;
+
+const PASSWORD_KEY_LENGTH = 32;
+
+type Share = typeof RecordingShare.$inferSelect;
+
+/** 128 random bits, URL safe */
+export const createShareSlug = () => randomBytes(16).toString("base64url");
+
+export async function hashSharePassword(password: string) {
+  const salt = randomBytes(16);
+  const key = await scryptAsync(
+    password.normalize("NFKC"),
+    salt,
+    PASSWORD_KEY_LENGTH,
+  );
+  return `scrypt$${salt.toString("base64url")}$${key.toString("base64url")}`;
+}
+
+export async function verifySharePassword(password: string, hash: string) {
+  const [scheme, salt, key] = hash.split("$");
+  if (scheme !== "scrypt" || !salt || !key) return false;
+
+  const expected = Buffer.from(key, "base64url");
+  const actual = await scryptAsync(
+    password.normalize("NFKC"),
+    Buffer.from(salt, "base64url"),
+    expected.length,
+  );
+  return timingSafeEqual(expected, actual);
+}
+
+/** Cookie that remembers a visitor entered the link's password */
+export const shareCookieName = (slug: string) => `share_${slug}`;
+
+/**
+ * Proof of having entered the password, stored in the share cookie. It is
+ * keyed by the password hash, so it can't be forged without database access
+ * and stops working when the password changes.
+ */
+export const createShareAccessToken = (
+  share: Pick<Share, "id" | "passwordHash">,
+) =>
+  createHmac("sha256", share.passwordHash ?? "")
+    .update(share.id)
+    .digest("base64url");
+
+export function hasShareAccess(
+  share: Pick<Share, "id" | "passwordHash">,
+  accessToken: string | null | undefined,
+) {
+  if (!share.passwordHash) return true;
+  if (!accessToken) return false;
+
+  const expected = Buffer.from(createShareAccessToken(share));
+  const actual = Buffer.from(accessToken);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Looks up a share that can currently be opened, with its recording.
+ * Unknown, revoked and expired links all come back as null.
+ */
+export async function findActiveShare(db: typeof dbClient, slug: string) {
+  const share = await db.query.RecordingShare.findFirst({
+    where: and(
+      eq(RecordingShare.slug, slug),
+      isNull(RecordingShare.revokedAt),
+      or(
+        isNull(RecordingShare.expiresAt),
+        gt(RecordingShare.expiresAt, new Date()),
+      ),
+    ),
+    with: {
+      recording: {
+        columns: {
+          id: true,
+          userId: true,
+          title: true,
+          durationMs: true,
+          mimeType: true,
+          storageKey: true,
+          processedStorageKey: true,
+          createdAt: true,
+        },
+      },
+    },
+  });
+  return share ?? null;
+}
@@ -0,0 +1,67 @@
+import { getStorage } from "./index";
+
+export interface StoredAudio {
+  title: string;
+  mimeType: string;
+  storageKey: string | null;
+  processedStorageKey: string | null;
+}
+
+/** Parses a single `bytes=start-end` range, null when absent or unusable */
+const parseRange = (header: string | null, size: number) => {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header ?? "");
+  if (!match || (!match[1] && !match[2])) return null;
+
+  const start = match[1]
+    ? Number(match[1])
+    : Math.max(0, size - Number(match[2]));
+  const end =
+    match[1] && match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+  return start <= end && start < size ? { start, end } : null;
+};
+
+/**
+ * Streams a recording's audio, preferring the post-processed version.
+ * Single byte ranges are honored so players can seek; `download` adds an
+ * attachment disposition named after the recording. Null when nothing is
+ * stored for the recording.
+ */
+export async function audioResponse(
+  req: Request,
+  recording: StoredAudio,
+  opts: { download: boolean },
+) {
+  const key = recording.processedStorageKey ?? recording.storageKey;
+  const bytes = key ? await getStorage().get(key) : null;
+  if (!bytes) return null;
+
+  const headers = new Headers({
+    "Content-Type": recording.processedStorageKey
+      ? "audio/wav"
+      : recording.mimeType,
+    "Accept-Ranges": "bytes",
+    "Cache-Control": "private, no-store",
+  });
+
+  if (opts.download) {
+    const extension = recording.processedStorageKey ? ".wav" : "";
+    headers.set(
+      "Content-Disposition",
+      `attachment; filename*=UTF-8''${encodeURIComponent(recording.title + extension)}`,
+    );
+  }
+
+  const range = parseRange(req.headers.get("range"), bytes.byteLength);
+  if (range) {
+    headers.set(
+      "Content-Range",
+      `bytes ${range.start}-${range.end}/${bytes.byteLength}`,
+    );
+    return new Response(bytes.slice(range.start, range.end + 1), {
+      status: 206,
+      headers,
+    });
+  }
+
+  return new Response(bytes, { headers });
+}
@@ -0,0 +1,19 @@
+import type { StorageBackend } from "./types";
+import { env } from "../env";
+import { createLocalStorage } from "./local";
+
+export type { StorageBackend } from "./types";
+export { createLocalStorage } from "./local";
+
+/** Add new backends here and to `STORAGE_DRIVER` in `env.ts` */
+const drivers: Record<typeof env.STORAGE_DRIVER, () => StorageBackend> = {
+  local: () => createLocalStorage(env.STORAGE_LOCAL_DIR),
+};
+
+let instance: StorageBackend | undefined;
+
+/**
+ * The configured storage backend, created on first use so that importing the
+ * API (e.g. during a build) doesn't touch the filesystem or env.
+ */
+export const getStorage = () => (instance ??= drivers[env.STORAGE_DRIVER]());
@@ -0,0 +1,84 @@
+import { randomUUID } from "node:crypto";
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  rm,
+  writeFile,
+} from "node:fs/promises";
+import path from "node:path";
+
+import type { StorageBackend } from "./types";
+
+const isMissing = (err: unknown) =>
+  err instanceof Error && "code" in err && err.code === "ENOENT";
+
+/**
+ * Stores every key as a file below `rootDir`. Meant for local development
+ * and tests, not for multi-instance deployments.
+ */
+export function createLocalStorage(rootDir: string): StorageBackend {
+  const root = path.resolve(rootDir);
+
+  const resolveKey = (key: string) => {
+    const file = path.resolve(root, key);
+    if (file !== root && !file.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return file;
+  };
+
+  const toKey = (file: string) =>
+    path.relative(root, file).split(path.sep).join("/");
+
+  return {
+    async put(key, data) {
+      const file = resolveKey(key);
+      await mkdir(path.dirname(file), { recursive: true });
+      // Write to a temp file first so readers never see a partial object;
+      // concurrent writes of the same key each get their own
+      const tmp = `${file}.${randomUUID()}.tmp`;
+      try {
+        await writeFile(tmp, data);
+        await rename(tmp, file);
+      } catch (err) {
+        await rm(tmp, { force: true });
+        throw err;
+      }
+    },
+
+    async get(key) {
+      try {
+        return new Uint8Array(await readFile(resolveKey(key)));
+      } catch (err) {
+        if (isMissing(err)) return null;
+        throw err;
+      }
+    },
+
+    async delete(key) {
+      await rm(resolveKey(key), { force: true, recursive: true });
+    },
+
+    async list(prefix) {
+      // Walk the deepest directory the prefix names, then filter by prefix
+      const dir = prefix.endsWith("/") ? prefix : path.posix.dirname(prefix);
+      let entries;
+      try {
+        entries = await readdir(resolveKey(dir), {
+          recursive: true,
+          withFileTypes: true,
+        });
+      } catch (err) {
+        if (isMissing(err)) return [];
+        throw err;
+      }
+      return entries
+        .filter((entry) => entry.isFile() && !entry.name.endsWith(".tmp"))
+        .map((entry) => toKey(path.join(entry.parentPath, entry.name)))
+        .filter((key) => key.startsWith(prefix))
+        .sort();
+    },
+  };
+}
@@ -0,0 +1,17 @@
+/**
+ * Blob storage used for recordings and in-flight upload chunks.
+ * Keys are `/`-separated paths, e.g. `uploads/<uploadId>/00000003`.
+ */
+export interface StorageBackend {
+  /** Streams an iterable to storage; nothing is stored if it throws */
+  put: (
+    key: string,
+    data: Uint8Array | AsyncIterable<Uint8Array>,
+  ) => Promise<void>;
+  /** Returns null when the key does not exist */
+  get: (key: string) => Promise<Uint8Array | null>;
+  /** Deleting a missing key is not an error */
+  delete: (key: string) => Promise<void>;
+  /** Lists all keys starting with the given prefix */
+  list: (prefix: string) => Promise<string[]>;
+}
@@ -0,0 +1,116 @@
+import { randomBytes } from "node:crypto";
+
+import type {
+  FinishedSpan,
+  SpanAttributes,
+  SpanContext,
+  SpanExporter,
+} from "./types";
+import { env } from "../env";
+import { logger } from "../logger";
+import { createOtlpExporter } from "./otlp";
+
+export type {
+  FinishedSpan,
+  SpanAttributes,
+  SpanContext,
+  SpanExporter,
+} from "./types";
+export { createOtlpExporter } from "./otlp";
+
+// Finished spans are sent in batches, when this many are queued or on a timer
+const BATCH_SIZE = 100;
+const FLUSH_INTERVAL_MS = 5_000;
+// Beyond this, spans are dropped while the collector is slow or down
+const MAX_QUEUE_SIZE = 2_000;
+
+let exporter: SpanExporter | null | undefined;
+
+/** The OTLP exporter when `OTEL_EXPORTER_OTLP_ENDPOINT` is set, else null */
+const getSpanExporter = () =>
+  (exporter ??= env.OTEL_EXPORTER_OTLP_ENDPOINT
+    ? createOtlpExporter({
+        endpoint: env.OTEL_EXPORTER_OTLP_ENDPOINT,
+        serviceName: env.OTEL_SERVICE_NAME,
+      })
+    : null);
+
+const queue: FinishedSpan[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | undefined;
+
+function flush() {
+  clearTimeout(flushTimer);
+  flushTimer = undefined;
+
+  const spans = queue.splice(0, queue.length);
+  const target = getSpanExporter();
+  if (!target || spans.length === 0) return;
+
+  void target.export(spans).catch((error: unknown) => {
+    logger.warn("Failed to export spans", { count: spans.length, error });
+  });
+}
+
+function enqueue(span: FinishedSpan) {
+  if (!getSpanExporter() || queue.length >= MAX_QUEUE_SIZE) return;
+
+  queue.push(span);
+  if (queue.length >= BATCH_SIZE) {
+    flush();
+  } else {
+    // Don't keep the process alive just to export
+    flushTimer ??= setTimeout(flush, FLUSH_INTERVAL_MS).unref();
+  }
+}
+
+const TRACEPARENT = /^00-([0-9a-f]{32})-([0-9a-f]{16})-[0-9a-f]{2}$/;
+
+/** The caller's span from a W3C `traceparent` header, if it sent a valid one */
+export function parseTraceparent(headers: Headers): SpanContext | null {
+  const match = TRACEPARENT.exec(headers.get("traceparent") ?? "");
+  if (!match?.[1] || !match[2]) return null;
+  if (/^0+$/.test(match[1]) || /^0+$/.test(match[2])) return null;
+  return { traceId: match[1], spanId: match[2] };
+}
+
+/**
+ * Starts a span, as a child of `parent` or as the root of a new trace.
+ * Spans are always created so their ids can go into logs; they are only
+ * exported when a collector is configured.
+ */
+export function startSpan(
+  name: string,
+  opts: {
+    parent?: SpanContext | null;
+    kind?: FinishedSpan["kind"];
+    attributes?: SpanAttributes;
+  } = {},
+) {
+  const context: SpanContext = {
+    traceId: opts.parent?.traceId ?? randomBytes(16).toString("hex"),
+    spanId: randomBytes(8).toString("hex"),
+  };
+  const startTimeMs = performance.timeOrigin + performance.now();
+  const attributes: SpanAttributes = { ...opts.attributes };
+
+  return {
+    context,
+    setAttribute(key: string, value: SpanAttributes[string]) {
+      attributes[key] = value;
+    },
+    /** Ends the span, failed when an error message is given */
+    end(errorMessage?: string) {
+      enqueue({
+        ...context,
+        parentSpanId: opts.parent?.spanId ?? null,
+        name,
+        kind: opts.kind ?? "internal",
+        startTimeMs,
+        endTimeMs: performance.timeOrigin + performance.now(),
+        attributes,
+        status: errorMessage === undefined ? "ok" : "error",
+        statusMessage: errorMessage,
+      });
+    },
+  };
+}
@@ -0,0 +1,74 @@
+import type { FinishedSpan, SpanAttributes, SpanExporter } from "./types";
+
+// https://opentelemetry.io/docs/specs/otlp/ (SpanKind and StatusCode enums)
+const SPAN_KIND = { internal: 1, server: 2 } as const;
+const STATUS_CODE = { ok: 1, error: 2 } as const;
+
+const toAttributes = (attributes: SpanAttributes) =>
+  Object.entries(attributes).map(([key, value]) => ({
+    key,
+    value:
+      typeof value === "string"
+        ? { stringValue: value }
+        : typeof value === "boolean"
+          ? { boolValue: value }
+          : Number.isInteger(value)
+            ? { intValue: String(value) }
+            : { doubleValue: value },
+  }));
+
+const toUnixNano = (ms: number) =>
+  (BigInt(Math.round(ms * 1000)) * 1000n).toString();
+
+/**
+ * Posts spans as OTLP/HTTP JSON to `${endpoint}/v1/traces`, which every
+ * OpenTelemetry collector accepts on port 4318 by default.
+ */
+export function createOtlpExporter(opts: {
+  endpoint: string;
+  serviceName: string;
+}): SpanExporter {
+  const url = new URL("v1/traces", opts.endpoint.replace(/\/?$/, "/"));
+
+  return {
+    async export(spans) {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          resourceSpans: [
+            {
+              resource: {
+                attributes: toAttributes({ "service.name": opts.serviceName }),
+              },
+              scopeSpans: [
+                {
+                  scope: { name: "@vibespeak/api" },
+                  spans: spans.map((span: FinishedSpan) => ({
+                    traceId: span.traceId,
+                    spanId: span.spanId,
+                    parentSpanId: span.parentSpanId ?? undefined,
+                    name: span.name,
+                    kind: SPAN_KIND[span.kind],
+                    startTimeUnixNano: toUnixNano(span.startTimeMs),
+                    endTimeUnixNano: toUnixNano(span.endTimeMs),
+                    attributes: toAttributes(span.attributes),
+                    status: {
+                      code: STATUS_CODE[span.status],
+                      message: span.statusMessage,
+                    },
+                  })),
+                },
+              ],
+            },
+          ],
+        }),
+      });
+      if (!res.ok) {
+        throw new Error(
+          `OTLP export failed with ${res.status} ${res.statusText}`,
+        );
+      }
+    },
+  };
+}
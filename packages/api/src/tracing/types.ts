@@ -0,0 +1,25 @@
+export type SpanAttributes = Record<string, string | number | boolean>;
+
+/** Identifies a span across services, as carried by a W3C `traceparent` */
+export interface SpanContext {
+  /** 32 hex characters */
+  traceId: string;
+  /** 16 hex characters */
+  spanId: string;
+}
+
+export interface FinishedSpan extends SpanContext {
+  parentSpanId: string | null;
+  name: string;
+  kind: "server" | "internal";
+  startTimeMs: number;
+  endTimeMs: number;
+  attributes: SpanAttributes;
+  status: "ok" | "error";
+  statusMessage?: string;
+}
+
+/** Ships finished spans somewhere, e.g. an OpenTelemetry collector */
+export interface SpanExporter {
+  export: (spans: FinishedSpan[]) => Promise<void>;
+}
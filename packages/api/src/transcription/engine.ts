@@ -0,0 +1,17 @@
+import type { TranscriptionEngine } from "./types";
+import { env } from "../env";
+import { createStubEngine } from "./stub";
+
+/** Add new engines here and to `TRANSCRIPTION_ENGINE` in `env.ts` */
+const engines: Record<
+  typeof env.TRANSCRIPTION_ENGINE,
+  () => TranscriptionEngine
+> = {
+  stub: createStubEngine,
+};
+
+let instance: TranscriptionEngine | undefined;
+
+/** The configured speech-to-text engine, created on first use */
+export const getTranscriptionEngine = () =>
+  (instance ??= engines[env.TRANSCRIPTION_ENGINE]());
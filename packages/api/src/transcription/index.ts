@@ -0,0 +1,10 @@
+export type {
+  TranscriptionEngine,
+  TranscriptionRequest,
+  TranscriptionResult,
+  TranscriptSegment,
+  TranscriptWord,
+} from "./types";
+export { getTranscriptionEngine } from "./engine";
+export { createStubEngine } from "./stub";
+export { runTranscriptionJob } from "./run-job";
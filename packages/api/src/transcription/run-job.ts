@@ -0,0 +1,124 @@
+import type { db as dbClient } from "@vibespeak/db/client";
+import { and, eq, inArray } from "@vibespeak/db";
+import {
+  Recording,
+  RecordingTranscript,
+  TranscriptionJob,
+} from "@vibespeak/db/schema";
+
+import { logger } from "../logger";
+import { getStorage } from "../storage";
+import { recordUsage } from "../usage";
+import { getTranscriptionEngine } from "./engine";
+
+/**
+ * Runs a queued job to completion: transcribes the recording (the processed
+ * audio when there is one, so timestamps line up with its waveform), replaces
+ * the recording's transcript and marks the job completed. Failures are stored
+ * on the job instead of being thrown. Jobs that are no longer queued, e.g.
+ * already claimed by another run, are left alone.
+ */
+export async function runTranscriptionJob(db: typeof dbClient, jobId: string) {
+  try {
+    const [job] = await db
+      .update(TranscriptionJob)
+      .set({ status: "processing", startedAt: new Date() })
+      .where(
+        and(
+          eq(TranscriptionJob.id, jobId),
+          eq(TranscriptionJob.status, "queued"),
+        ),
+      )
+      .returning();
+    if (!job) return;
+
+    const recording = await db.query.Recording.findFirst({
+      where: eq(Recording.id, job.recordingId),
+    });
+    const storageKey =
+      recording?.processedStorageKey ?? recording?.storageKey ?? null;
+    const audio = storageKey ? await getStorage().get(storageKey) : null;
+    if (!recording || !audio) {
+      throw new Error("The recording has no uploaded audio");
+    }
+
+    const engine = getTranscriptionEngine();
+    const result = await engine.transcribe({
+      audio,
+      mimeType: recording.processedStorageKey
+        ? "audio/wav"
+        : recording.mimeType,
+      durationMs: recording.durationMs,
+      language: job.language ?? undefined,
+    });
+
+    const transcript = {
+      jobId: job.id,
+      engine: engine.name,
+      language: result.language,
+      text: result.segments.map((segment) => segment.text).join(" "),
+      segments: result.segments,
+      editedAt: null,
+      createdAt: new Date(),
+    };
+
+    await db.transaction(async (tx) => {
+      await tx
+        .insert(RecordingTranscript)
+        .values({ recordingId: recording.id, ...transcript })
+        .onConflictDoUpdate({
+          target: RecordingTranscript.recordingId,
+          set: transcript,
+        });
+      await tx
+        .update(TranscriptionJob)
+        .set({ status: "completed", completedAt: new Date() })
+        .where(eq(TranscriptionJob.id, job.id));
+    });
+  } catch (error) {
+    logger.error("Transcription job failed", { jobId, error });
+    await failTranscriptionJob(db, jobId, error);
+  }
+}
+
+/**
+ * Marks a queued or running job failed and gives back what
+ * `transcription.request` charged. Only the run that moves the job to failed
+ * refunds, so the charge is never returned twice.
+ */
+async function failTranscriptionJob(
+  db: typeof dbClient,
+  jobId: string,
+  error: unknown,
+) {
+  await db.transaction(async (tx) => {
+    const [job] = await tx
+      .update(TranscriptionJob)
+      .set({
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+        completedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(TranscriptionJob.id, jobId),
+          inArray(TranscriptionJob.status, ["queued", "processing"]),
+        ),
+      )
+      .returning();
+    if (!job) return;
+
+    const recording = await tx.query.Recording.findFirst({
+      columns: { id: true, workspaceId: true },
+      where: eq(Recording.id, job.recordingId),
+    });
+    if (recording) {
+      await recordUsage(
+        tx,
+        { userId: job.userId, workspaceId: recording.workspaceId },
+        { transcriptionMs: -job.transcriptionMs },
+        recording.id,
+      );
+    }
+  });
+}
@@ -0,0 +1,91 @@
+import { createHash } from "node:crypto";
+
+import { detectSpeechSegments, spreadWords } from "@vibespeak/audio";
+
+import type { TranscriptionEngine, TranscriptSegment } from "./types";
+import { findAudioDecoder } from "../router/audio/generate-waveform";
+
+const WORDS = [
+  "voice",
+  "sound",
+  "record",
+  "listen",
+  "speak",
+  "signal",
+  "quiet",
+  "wave",
+  "echo",
+  "tone",
+  "note",
+  "level",
+  "clear",
+  "bright",
+  "steady",
+  "again",
+];
+const WORDS_PER_SECOND = 2.5;
+
+// mulberry32, so the same audio always yields the same transcript
+function createRandom(seed: number) {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4_294_967_296;
+  };
+}
+
+/**
+ * A deterministic engine for tests and local development. It doesn't
+ * recognize speech: segments follow the voice activity detector when the
+ * audio can be decoded (one segment spanning the recording otherwise) and
+ * are filled with placeholder words picked from a hash of the audio bytes,
+ * each timed in proportion to its length.
+ */
+export function createStubEngine(): TranscriptionEngine {
+  return {
+    name: "stub",
+    async transcribe({ audio, mimeType, durationMs, language }) {
+      const decoder = findAudioDecoder(audio, mimeType);
+      const spans = decoder
+        ? detectSpeechSegments(await decoder.decode(audio))
+        : [{ startMs: 0, endMs: durationMs }];
+
+      const digest = createHash("sha256").update(audio).digest();
+      const random = createRandom(digest.readUInt32LE(0));
+
+      const segments: TranscriptSegment[] = spans.map((span) => {
+        const startMs = Math.round(span.startMs);
+        const endMs = Math.round(span.endMs);
+        const count = Math.max(
+          1,
+          Math.round(((endMs - startMs) / 1000) * WORDS_PER_SECOND),
+        );
+        const tokens = Array.from(
+          { length: count },
+          () => WORDS[Math.floor(random() * WORDS.length)]!,
+        );
+        tokens[0] = `${tokens[0]!.charAt(0).toUpperCase()}${tokens[0]!.slice(1)}`;
+        tokens[count - 1] = `${tokens[count - 1]}.`;
+
+        const words = spreadWords(tokens, startMs, endMs, 0).map((word) => ({
+          ...word,
+          confidence: Math.round((0.75 + random() * 0.2) * 100) / 100,
+        }));
+
+        return {
+          startMs,
+          endMs,
+          text: tokens.join(" "),
+          confidence:
+            words.reduce((sum, word) => sum + word.confidence, 0) /
+            words.length,
+          words,
+        };
+      });
+
+      return { language: language ?? "en", segments };
+    },
+  };
+}
@@ -0,0 +1,31 @@
+import type { TranscriptSegment } from "@vibespeak/audio";
+
+export type { TranscriptSegment, TranscriptWord } from "@vibespeak/audio";
+
+export interface TranscriptionRequest {
+  audio: Uint8Array;
+  mimeType: string;
+  durationMs: number;
+  /** BCP 47 tag, undefined lets the engine detect the language */
+  language?: string;
+}
+
+export interface TranscriptionResult {
+  /** The requested language, or the one the engine detected */
+  language: string | null;
+  /**
+   * Ordered by start time, timestamps relative to the start of the audio.
+   * Engines that only time whole segments can fill in words with `spreadWords`.
+   */
+  segments: TranscriptSegment[];
+}
+
+/**
+ * A speech-to-text backend. Engines may call out to a remote service, so
+ * `transcribe` should reject rather than return partial results on failure.
+ */
+export interface TranscriptionEngine {
+  /** Stored on jobs and transcripts to tell which engine produced them */
+  name: string;
+  transcribe: (request: TranscriptionRequest) => Promise<TranscriptionResult>;
+}
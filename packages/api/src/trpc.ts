@@ -8,21 +8,47 @@
  */
 import { initTRPC, TRPCError } from "@trpc/server";
 import superjson from "superjson";
-import { ZodError } from "zod";
+import { z, ZodError } from "zod";
 
 import type { Session } from "@vibespeak/auth";
-import { auth, validateToken } from "@vibespeak/auth";
+import type { ApiKeyScope, WorkspaceRole } from "@vibespeak/db/schema";
+import {
+  auth,
+  getClientIp,
+  getSessionToken,
+  validateToken,
+} from "@vibespeak/auth";
 import { db } from "@vibespeak/db/client";
 
+import type { ApiKeyAuth } from "./api-key";
+import { isApiKey, resolveApiKey } from "./api-key";
+import { recordMutation } from "./audit";
+import { getRequestId, logger } from "./logger";
+import { enforceRateLimit, RateLimitExceededError } from "./rate-limit";
+import { touchSession } from "./session";
+import { parseTraceparent, startSpan } from "./tracing";
+import { assertWorkspaceRole } from "./workspace";
+
 /**
  * Isomorphic Session getter for API requests
+ * - Scripts and CI send a personal API key (`vsk_...`) in the Authorization header
  * - Expo requests will have a session token in the Authorization header
  * - Next.js requests will have a session token in cookies
  */
-const isomorphicGetSession = async (headers: Headers) => {
+const isomorphicGetSession = async (
+  headers: Headers,
+): Promise<{ session: Session | null; apiKey: ApiKeyAuth | null }> => {
   const authToken = headers.get("Authorization") ?? null;
-  if (authToken) return validateToken(authToken);
-  return auth();
+  if (authToken && isApiKey(authToken)) {
+    const resolved = await resolveApiKey(db, authToken);
+    return {
+      session: resolved?.session ?? null,
+      apiKey: resolved?.apiKey ?? null,
+    };
+  }
+  if (authToken)
+    return { session: await validateToken(authToken), apiKey: null };
+  return { session: await auth(), apiKey: null };
 };
 
 /**
@@ -42,15 +68,34 @@ export const createTRPCContext = async (opts: {
   session: Session | null;
 }) => {
   const authToken = opts.headers.get("Authorization") ?? null;
-  const session = await isomorphicGetSession(opts.headers);
+  const { session, apiKey } = await isomorphicGetSession(opts.headers);
+  const sessionToken =
+    session && !apiKey ? getSessionToken(opts.headers) : null;
+  if (sessionToken) touchSession(db, sessionToken, opts.headers);
 
+  const requestId = getRequestId(opts.headers);
   const source = opts.headers.get("x-trpc-source") ?? "unknown";
-  console.log(">>> tRPC Request from", source, "by", session?.user);
 
   return {
     session,
+    // Set when the request authenticated with an API key
+    apiKey,
     db,
     token: authToken,
+    // The Auth.js session behind the request, for telling the current device apart
+    sessionToken,
+    clientIp: getClientIp(opts.headers),
+    // Echoed in the `x-request-id` response header
+    requestId,
+    // Logs ids only, never user details
+    log: logger.child({
+      requestId,
+      source,
+      userId: session?.user.id ?? null,
+      apiKeyId: apiKey?.id ?? null,
+    }),
+    // The caller's span when it sent a `traceparent` header
+    traceParent: parseTraceparent(opts.headers),
   };
 };
 
@@ -67,6 +112,10 @@ const t = initTRPC.context<typeof createTRPCContext>().create({
     data: {
       ...shape.data,
       zodError: error.cause instanceof ZodError ? error.cause.flatten() : null,
+      retryAfterMs:
+        error.cause instanceof RateLimitExceededError
+          ? error.cause.retryAfterMs
+          : null,
     },
   }),
 });
@@ -93,11 +142,24 @@ export const createTRPCRouter = t.router;
 /**
  * Middleware for timing procedure execution and adding an articifial delay in development.
  *
- * You can remove this if you don't like it, but it can help catch unwanted waterfalls by simulating
- * network latency that would occur in production but not in local development.
+ * You can remove the delay if you don't like it, but it can help catch unwanted waterfalls by
+ * simulating network latency that would occur in production but not in local development.
+ *
+ * Every call is logged with its latency and error code, and traced as a span.
  */
-const timingMiddleware = t.middleware(async ({ next, path }) => {
+const timingMiddleware = t.middleware(async ({ ctx, next, path, type }) => {
   const start = Date.now();
+  const span = startSpan(`trpc ${path}`, {
+    parent: ctx.traceParent,
+    kind: "server",
+    attributes: {
+      "rpc.system": "trpc",
+      "rpc.method": path,
+      "trpc.type": type,
+      "request.id": ctx.requestId,
+    },
+  });
+  if (ctx.session?.user) span.setAttribute("enduser.id", ctx.session.user.id);
 
   if (t._config.isDev) {
     // artificial delay in dev 100-500ms
@@ -107,12 +169,69 @@ const timingMiddleware = t.middleware(async ({ next, path }) => {
 
   const result = await next();
 
-  const end = Date.now();
-  console.log(`[TRPC] ${path} took ${end - start}ms to execute`);
+  const errorCode = result.ok ? null : result.error.code;
+  if (errorCode) span.setAttribute("trpc.error_code", errorCode);
+  span.end(errorCode ?? undefined);
+
+  const log =
+    errorCode === "INTERNAL_SERVER_ERROR" ? ctx.log.error : ctx.log.info;
+  log("tRPC call", {
+    path,
+    type,
+    durationMs: Date.now() - start,
+    errorCode,
+    traceId: span.context.traceId,
+  });
 
   return result;
 });
 
+/**
+ * Middleware for rate limiting by procedure path, per user, per client IP and, for some
+ * procedures, per input value. See `RATE_LIMITS` for the limits. Over-limit calls fail with
+ * TOO_MANY_REQUESTS and `data.retryAfterMs` set.
+ */
+const rateLimitMiddleware = t.middleware(
+  async ({ ctx, next, path, getRawInput }) => {
+    await enforceRateLimit({
+      path,
+      userId: ctx.session?.user.id ?? null,
+      ip: ctx.clientIp,
+      input: await getRawInput().catch(() => undefined),
+    });
+    return next();
+  },
+);
+
+// Failed mutations worth auditing: attempts to do something without access
+const AUDITED_ERROR_CODES = new Set(["UNAUTHORIZED", "FORBIDDEN"]);
+
+/**
+ * Middleware for the audit log. Records who called which mutation on what, from where, when it
+ * went through or was turned away for lack of access. Inputs are stored with secrets redacted.
+ */
+const auditMiddleware = t.middleware(
+  async ({ ctx, next, path, type, getRawInput }) => {
+    const result = await next();
+    if (type !== "mutation") return result;
+
+    const errorCode = result.ok ? null : result.error.code;
+    if (errorCode && !AUDITED_ERROR_CODES.has(errorCode)) return result;
+
+    recordMutation(ctx.db, {
+      path,
+      input: await getRawInput().catch(() => undefined),
+      result: result.ok ? result.data : undefined,
+      errorCode,
+      actorId: ctx.session?.user.id ?? null,
+      apiKeyId: ctx.apiKey?.id ?? null,
+      ipAddress: ctx.clientIp,
+      requestId: ctx.requestId,
+    });
+    return result;
+  },
+);
+
 /**
  * Public (unauthed) procedure
  *
@@ -120,22 +239,34 @@ const timingMiddleware = t.middleware(async ({ next, path }) => {
  * tRPC API. It does not guarantee that a user querying is authorized, but you
  * can still access user session data if they are logged in
  */
-export const publicProcedure = t.procedure.use(timingMiddleware);
+export const publicProcedure = t.procedure
+  .use(timingMiddleware)
+  .use(rateLimitMiddleware)
+  .use(auditMiddleware);
 
 /**
  * Protected (authenticated) procedure
  *
  * If you want a query or mutation to ONLY be accessible to logged in users, use this. It verifies
- * the session is valid and guarantees `ctx.session.user` is not null.
+ * the session is valid and guarantees `ctx.session.user` is not null. API keys are turned away,
+ * they can only call scoped procedures.
  *
  * @see https://trpc.io/docs/procedures
  */
 export const protectedProcedure = t.procedure
   .use(timingMiddleware)
+  .use(rateLimitMiddleware)
+  .use(auditMiddleware)
   .use(({ ctx, next }) => {
     if (!ctx.session?.user) {
       throw new TRPCError({ code: "UNAUTHORIZED" });
     }
+    if (ctx.apiKey) {
+      throw new TRPCError({
+        code: "FORBIDDEN",
+        message: "API keys can't be used for this procedure",
+      });
+    }
     return next({
       ctx: {
         // infers the `session` as non-nullable
@@ -143,3 +274,51 @@ export const protectedProcedure = t.procedure
       },
     });
   });
+
+/**
+ * Scoped (authenticated) procedure
+ *
+ * Like `protectedProcedure`, but also open to API keys that were granted `scope`. Signed-in
+ * users have every scope. Use it for what scripts and CI need, e.g. uploading recordings.
+ */
+export const scopedProcedure = (scope: ApiKeyScope) =>
+  t.procedure
+    .use(timingMiddleware)
+    .use(rateLimitMiddleware)
+    .use(auditMiddleware)
+    .use(({ ctx, next }) => {
+      if (!ctx.session?.user) {
+        throw new TRPCError({ code: "UNAUTHORIZED" });
+      }
+      if (ctx.apiKey && !ctx.apiKey.scopes.includes(scope)) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: `API key is missing the ${scope} scope`,
+        });
+      }
+      return next({
+        ctx: {
+          session: { ...ctx.session, user: ctx.session.user },
+        },
+      });
+    });
+
+/**
+ * Workspace (authenticated) procedure
+ *
+ * Takes a `workspaceId` input, resolves the caller's membership and checks that it holds at least
+ * `role` (owner > editor > viewer) before the resolver runs. Adds `ctx.workspace` with the id and
+ * the caller's actual role. Non-members get NOT_FOUND.
+ */
+export const workspaceProcedure = (role: WorkspaceRole) =>
+  protectedProcedure
+    .input(z.object({ workspaceId: z.string().uuid() }))
+    .use(async ({ ctx, input, next }) => {
+      const workspace = await assertWorkspaceRole(
+        ctx.db,
+        ctx.session.user.id,
+        input.workspaceId,
+        role,
+      );
+      return next({ ctx: { workspace } });
+    });
@@ -0,0 +1,134 @@
+import { createHash } from "node:crypto";
+import { TRPCError } from "@trpc/server";
+import { getHTTPStatusCodeFromError } from "@trpc/server/http";
+import { z } from "zod";
+
+import type { Session } from "@vibespeak/auth";
+
+import { logger } from "../logger";
+import { enforceRateLimit, RateLimitExceededError } from "../rate-limit";
+import { getStorage } from "../storage";
+import { createTRPCContext } from "../trpc";
+import {
+  chunkKey,
+  getChunkCount,
+  getChunkSize,
+  getPendingUpload,
+} from "./index";
+
+/**
+ * Fetch handler for `PUT /api/upload/:uploadId/:index`.
+ *
+ * Chunk bodies are raw bytes, which is why this lives next to the tRPC
+ * handler instead of inside it. Re-sending a chunk overwrites it, so clients
+ * can simply retry after a dropped connection.
+ * An optional `x-chunk-sha256` header is verified against the body.
+ */
+export async function uploadChunkHandler(opts: {
+  req: Request;
+  session: Session | null;
+  uploadId: string;
+  index: string;
+}) {
+  try {
+    const ctx = await createTRPCContext({
+      headers: opts.req.headers,
+      session: opts.session,
+    });
+    if (!ctx.session?.user) throw new TRPCError({ code: "UNAUTHORIZED" });
+    await enforceRateLimit({
+      path: "upload.chunk",
+      userId: ctx.session.user.id,
+      ip: ctx.clientIp,
+    });
+    // Same scope as the upload procedures
+    if (ctx.apiKey && !ctx.apiKey.scopes.includes("recordings:write")) {
+      throw new TRPCError({
+        code: "FORBIDDEN",
+        message: "API key is missing the recordings:write scope",
+      });
+    }
+
+    // Postgres would throw on the uuid cast, it's just a missing upload
+    if (!z.string().uuid().safeParse(opts.uploadId).success) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "Upload not found" });
+    }
+    const upload = await getPendingUpload(
+      ctx.db,
+      ctx.session.user.id,
+      opts.uploadId,
+    );
+
+    const index = Number(opts.index);
+    if (
+      !Number.isInteger(index) ||
+      index < 0 ||
+      index >= getChunkCount(upload)
+    ) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: `Chunk index out of range: ${opts.index}`,
+      });
+    }
+
+    // Turn oversized bodies away before buffering them
+    const expectedSize = getChunkSize(upload, index);
+    const contentLength = Number(opts.req.headers.get("content-length"));
+    if (contentLength > expectedSize) {
+      throw new TRPCError({
+        code: "PAYLOAD_TOO_LARGE",
+        message: `Chunk ${index} must be ${expectedSize} bytes, got ${contentLength}`,
+      });
+    }
+
+    const bytes = new Uint8Array(await opts.req.arrayBuffer());
+    if (bytes.byteLength !== expectedSize) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: `Chunk ${index} must be ${expectedSize} bytes, got ${bytes.byteLength}`,
+      });
+    }
+
+    const checksum = opts.req.headers.get("x-chunk-sha256");
+    if (
+      checksum &&
+      createHash("sha256").update(bytes).digest("hex") !==
+        checksum.toLowerCase()
+    ) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: `Checksum mismatch for chunk ${index}`,
+      });
+    }
+
+    await getStorage().put(chunkKey(upload.id, index), bytes);
+
+    return Response.json({
+      index,
+      offset: index * upload.chunkSize,
+      size: bytes.byteLength,
+    });
+  } catch (cause) {
+    const error =
+      cause instanceof TRPCError
+        ? cause
+        : new TRPCError({ code: "INTERNAL_SERVER_ERROR", cause });
+    if (error.code === "INTERNAL_SERVER_ERROR") {
+      logger.error("Upload error", { error });
+    }
+    return Response.json(
+      { error: { code: error.code, message: error.message } },
+      {
+        status: getHTTPStatusCodeFromError(error),
+        headers:
+          error.cause instanceof RateLimitExceededError
+            ? {
+                "Retry-After": String(
+                  Math.ceil(error.cause.retryAfterMs / 1000),
+                ),
+              }
+            : undefined,
+      },
+    );
+  }
+}
@@ -0,0 +1,140 @@
+import type { Hash } from "node:crypto";
+import { TRPCError } from "@trpc/server";
+
+import type { db as dbClient } from "@vibespeak/db/client";
+import { and, eq, inArray, lt } from "@vibespeak/db";
+import { RecordingUpload } from "@vibespeak/db/schema";
+
+import { logger } from "../logger";
+import { getStorage } from "../storage";
+
+/** How long an upload may stay pending before it can no longer be resumed */
+export const UPLOAD_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Expired uploads are swept at most this often per instance
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+type Upload = typeof RecordingUpload.$inferSelect;
+
+export const uploadPrefix = (uploadId: string) => `uploads/${uploadId}/`;
+
+export const chunkKey = (uploadId: string, index: number) =>
+  uploadPrefix(uploadId) + index.toString().padStart(8, "0");
+
+export const recordingKey = (userId: string, recordingId: string) =>
+  `recordings/${userId}/${recordingId}`;
+
+/** Trimmed and normalized rendition written by post-processing */
+export const processedRecordingKey = (userId: string, recordingId: string) =>
+  `${recordingKey(userId, recordingId)}.processed.wav`;
+
+export const getChunkCount = (upload: Upload) =>
+  Math.ceil(upload.totalBytes / upload.chunkSize);
+
+/** Every chunk is `chunkSize` bytes except the last, which holds the remainder */
+export const getChunkSize = (upload: Upload, index: number) =>
+  index < getChunkCount(upload) - 1
+    ? upload.chunkSize
+    : upload.totalBytes - upload.chunkSize * (getChunkCount(upload) - 1);
+
+/**
+ * Loads an upload owned by the user that can still receive chunks.
+ */
+export async function getPendingUpload(
+  db: typeof dbClient,
+  userId: string,
+  uploadId: string,
+) {
+  const upload = await db.query.RecordingUpload.findFirst({
+    where: and(
+      eq(RecordingUpload.id, uploadId),
+      eq(RecordingUpload.userId, userId),
+    ),
+  });
+  if (!upload || upload.expiresAt < new Date()) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Upload not found" });
+  }
+  if (upload.status !== "pending") {
+    throw new TRPCError({
+      code: "CONFLICT",
+      message: `Upload is already ${upload.status}`,
+    });
+  }
+  return upload;
+}
+
+/**
+ * Lists the chunks already in storage, which is what a client needs to resume.
+ */
+export async function listReceivedChunks(upload: Upload) {
+  const keys = new Set(await getStorage().list(uploadPrefix(upload.id)));
+  const chunks: { index: number; offset: number; size: number }[] = [];
+  for (let index = 0; index < getChunkCount(upload); index++) {
+    if (keys.has(chunkKey(upload.id, index))) {
+      chunks.push({
+        index,
+        offset: index * upload.chunkSize,
+        size: getChunkSize(upload, index),
+      });
+    }
+  }
+  return chunks;
+}
+
+/**
+ * Yields the chunks of a complete upload in order, feeding each into `hash`,
+ * so the file can be streamed to storage without assembling it in memory.
+ */
+export async function* readUploadChunks(upload: Upload, hash: Hash) {
+  for (let index = 0; index < getChunkCount(upload); index++) {
+    const data = await getStorage().get(chunkKey(upload.id, index));
+    if (data?.byteLength !== getChunkSize(upload, index)) {
+      throw new TRPCError({
+        code: "PRECONDITION_FAILED",
+        message: `Chunk ${index} is missing or truncated`,
+      });
+    }
+    hash.update(data);
+    yield data;
+  }
+}
+
+/** Deletes every stored chunk of an upload */
+export async function removeUploadChunks(uploadId: string) {
+  const keys = await getStorage().list(uploadPrefix(uploadId));
+  await Promise.all(keys.map((key) => getStorage().delete(key)));
+}
+
+let lastSweptAt = 0;
+
+/**
+ * Aborts uploads that expired before they were finalized and deletes their
+ * chunks, in the background and at most once per interval.
+ */
+export function sweepExpiredUploads(db: typeof dbClient) {
+  const now = Date.now();
+  if (now - lastSweptAt < SWEEP_INTERVAL_MS) return;
+  lastSweptAt = now;
+
+  void (async () => {
+    const expired = await db
+      .select({ id: RecordingUpload.id })
+      .from(RecordingUpload)
+      .where(
+        and(
+          lt(RecordingUpload.expiresAt, new Date(now)),
+          inArray(RecordingUpload.status, ["pending", "finalizing"]),
+        ),
+      );
+    // Chunks go first so a failed sweep is simply repeated next time
+    for (const upload of expired) {
+      await removeUploadChunks(upload.id);
+      await db
+        .update(RecordingUpload)
+        .set({ status: "aborted" })
+        .where(eq(RecordingUpload.id, upload.id));
+    }
+  })().catch((error: unknown) => {
+    logger.error("Failed to sweep expired uploads", { error });
+  });
+}
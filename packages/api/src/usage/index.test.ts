@@ -0,0 +1,198 @@
+import { describe, expect, it, vi } from "vitest";
+
+import type { db as dbClient } from "@vibespeak/db/client";
+import type { Plan, UsageMetric } from "@vibespeak/db/schema";
+
+import { assertQuota, getUsagePeriod, PLAN_LIMITS, recordUsage } from "./index";
+
+const GIB = 1024 * 1024 * 1024;
+const HOUR_MS = 60 * 60 * 1000;
+
+const user = { userId: "user-1", workspaceId: null };
+const workspace = { userId: "user-1", workspaceId: "workspace-1" };
+
+interface Sums {
+  /** Everything ever recorded */
+  total: number;
+  /** Recorded in the current month */
+  inPeriod: number;
+}
+
+// The advisory lock, then the two selects `getUsage` makes: the owner's plan
+// and the sums per metric
+function fakeDb(plan: Plan, sums: Partial<Record<UsageMetric, Sums>>) {
+  const rows = Object.entries(sums).map(([metric, sum]) => ({
+    metric,
+    ...sum,
+  }));
+  const calls: string[] = [];
+  const execute = vi.fn(() => {
+    calls.push("lock");
+    return Promise.resolve([]);
+  });
+  const select = vi
+    .fn()
+    .mockReturnValueOnce({
+      from: () => ({ where: () => Promise.resolve([{ plan }]) }),
+    })
+    .mockReturnValueOnce({
+      from: () => ({ where: () => ({ groupBy: () => Promise.resolve(rows) }) }),
+    });
+  select.mockImplementation(() => {
+    throw new Error("unexpected select");
+  });
+  return {
+    db: {
+      execute,
+      select: (...args: unknown[]) => {
+        calls.push("select");
+        return select(...args) as unknown;
+      },
+    } as unknown as typeof dbClient,
+    calls,
+  };
+}
+
+// Usage of a metric that all happened this month
+const thisMonth = (amount: number): Sums => ({
+  total: amount,
+  inPeriod: amount,
+});
+
+describe("getUsagePeriod", () => {
+  it("is the calendar month in UTC", () => {
+    expect(getUsagePeriod(new Date("2026-03-15T12:00:00Z"))).toEqual({
+      start: new Date("2026-03-01T00:00:00Z"),
+      end: new Date("2026-04-01T00:00:00Z"),
+    });
+  });
+
+  it("includes the first instant and excludes the next month's", () => {
+    const start = new Date("2026-03-01T00:00:00Z");
+    expect(getUsagePeriod(start).start).toEqual(start);
+    expect(getUsagePeriod(new Date("2026-02-28T23:59:59.999Z")).end).toEqual(
+      start,
+    );
+  });
+
+  it("rolls over into the next year", () => {
+    expect(getUsagePeriod(new Date("2026-12-31T23:00:00Z"))).toEqual({
+      start: new Date("2026-12-01T00:00:00Z"),
+      end: new Date("2027-01-01T00:00:00Z"),
+    });
+  });
+});
+
+describe("assertQuota", () => {
+  const { transcriptionMs: limit } = PLAN_LIMITS.free;
+
+  it("allows usage below the limit", async () => {
+    const { db } = fakeDb("free", { transcriptionMs: thisMonth(limit / 2) });
+    await expect(
+      assertQuota(db, user, { transcriptionMs: limit / 4 }),
+    ).resolves.toBeUndefined();
+  });
+
+  it("allows usage that reaches the limit exactly", async () => {
+    const { db } = fakeDb("free", { transcriptionMs: thisMonth(limit / 2) });
+    await expect(
+      assertQuota(db, user, { transcriptionMs: limit / 2 }),
+    ).resolves.toBeUndefined();
+  });
+
+  it("refuses usage past the limit", async () => {
+    const { db } = fakeDb("free", { transcriptionMs: thisMonth(limit / 2) });
+    await expect(
+      assertQuota(db, user, { transcriptionMs: limit / 2 + 1 }),
+    ).rejects.toMatchObject({
+      code: "FORBIDDEN",
+      message: "Not enough transcription time left on your plan",
+    });
+  });
+
+  it("counts monthly metrics from the start of the month", async () => {
+    // Well past the monthly limit in total, but only an hour of it this month
+    const { db } = fakeDb("free", {
+      recordedMs: { total: 100 * HOUR_MS, inPeriod: HOUR_MS },
+    });
+    await expect(
+      assertQuota(db, user, { recordedMs: 4 * HOUR_MS }),
+    ).resolves.toBeUndefined();
+  });
+
+  it("counts storage as a running total", async () => {
+    // Uploaded in earlier months, nothing this month
+    const { db } = fakeDb("free", {
+      storageBytes: { total: 1 * GIB, inPeriod: 0 },
+    });
+    await expect(
+      assertQuota(db, user, { storageBytes: 1 }),
+    ).rejects.toMatchObject({
+      message: "Not enough storage left on your plan",
+    });
+  });
+
+  it("checks against the workspace's plan", async () => {
+    const below = fakeDb("pro", { storageBytes: thisMonth(50 * GIB) });
+    await expect(
+      assertQuota(below.db, workspace, { storageBytes: 10 * GIB }),
+    ).resolves.toBeUndefined();
+
+    const above = fakeDb("pro", { storageBytes: thisMonth(95 * GIB) });
+    await expect(
+      assertQuota(above.db, workspace, { storageBytes: 10 * GIB }),
+    ).rejects.toMatchObject({
+      message: "Not enough storage left on the workspace's plan",
+    });
+  });
+
+  it("counts refunds that went below zero as no usage", async () => {
+    const { db } = fakeDb("free", { recordedMs: thisMonth(-HOUR_MS) });
+    await expect(
+      assertQuota(db, user, { recordedMs: PLAN_LIMITS.free.recordedMs + 1 }),
+    ).rejects.toMatchObject({ code: "FORBIDDEN" });
+  });
+
+  it("locks the subject before reading its usage", async () => {
+    const { db, calls } = fakeDb("free", {});
+    await assertQuota(db, user, { recordedMs: 1 });
+    expect(calls).toEqual(["lock", "select", "select"]);
+  });
+});
+
+describe("recordUsage", () => {
+  it("writes one ledger entry per nonzero amount", async () => {
+    const values = vi.fn(() => Promise.resolve());
+    const db = { insert: vi.fn(() => ({ values })) };
+
+    await recordUsage(
+      db as unknown as typeof dbClient,
+      workspace,
+      { storageBytes: -1_000, recordedMs: 0, transcriptionMs: 2_000 },
+      "recording-1",
+    );
+
+    expect(values).toHaveBeenCalledWith([
+      {
+        ...workspace,
+        metric: "storageBytes",
+        amount: -1_000,
+        recordingId: "recording-1",
+      },
+      {
+        ...workspace,
+        metric: "transcriptionMs",
+        amount: 2_000,
+        recordingId: "recording-1",
+      },
+    ]);
+  });
+
+  it("writes nothing when there is nothing to record", async () => {
+    const db = { insert: vi.fn() };
+    await recordUsage(db as unknown as typeof dbClient, user, {
+      recordedMs: 0,
+    });
+    expect(db.insert).not.toHaveBeenCalled();
+  });
+});
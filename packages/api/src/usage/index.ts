@@ -0,0 +1,167 @@
+import { TRPCError } from "@trpc/server";
+
+import type { db as dbClient } from "@vibespeak/db/client";
+import type { UsageMetric } from "@vibespeak/db/schema";
+import { and, eq, inArray, isNull, sql } from "@vibespeak/db";
+import { UsageEvent, User, Workspace } from "@vibespeak/db/schema";
+
+import { PLAN_LIMITS } from "./plans";
+
+export { PLAN_LIMITS } from "./plans";
+
+/**
+ * Whose quota a call counts against: the workspace's when `workspaceId` is
+ * set, otherwise the user's own. `userId` is who caused the usage.
+ */
+export interface UsageSubject {
+  userId: string;
+  workspaceId: string | null;
+}
+
+export type UsageAmounts = Partial<Record<UsageMetric, number>>;
+
+const METRIC_LABELS: Record<UsageMetric, string> = {
+  storageBytes: "storage",
+  recordedMs: "recording time",
+  transcriptionMs: "transcription time",
+};
+
+/** The current calendar month in UTC, over which monthly metrics add up */
+export function getUsagePeriod(now = new Date()) {
+  return {
+    start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+    end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+  };
+}
+
+const subjectCondition = (subject: UsageSubject) =>
+  subject.workspaceId
+    ? eq(UsageEvent.workspaceId, subject.workspaceId)
+    : and(
+        eq(UsageEvent.userId, subject.userId),
+        isNull(UsageEvent.workspaceId),
+      );
+
+/** Consumption and limits of the subject's plan for every metric */
+export async function getUsage(
+  db: Pick<typeof dbClient, "select">,
+  subject: UsageSubject,
+) {
+  const period = getUsagePeriod();
+
+  const [owner] = subject.workspaceId
+    ? await db
+        .select({ plan: Workspace.plan })
+        .from(Workspace)
+        .where(eq(Workspace.id, subject.workspaceId))
+    : await db
+        .select({ plan: User.plan })
+        .from(User)
+        .where(eq(User.id, subject.userId));
+  const plan = owner?.plan ?? "free";
+
+  const rows = await db
+    .select({
+      metric: UsageEvent.metric,
+      total: sql<number>`coalesce(sum(${UsageEvent.amount}), 0)`.mapWith(
+        Number,
+      ),
+      inPeriod:
+        sql<number>`coalesce(sum(${UsageEvent.amount}) filter (where ${UsageEvent.createdAt} >= ${period.start.toISOString()}), 0)`.mapWith(
+          Number,
+        ),
+    })
+    .from(UsageEvent)
+    .where(subjectCondition(subject))
+    .groupBy(UsageEvent.metric);
+
+  const limits = PLAN_LIMITS[plan];
+  const used = (metric: UsageMetric) => {
+    const row = rows.find((row) => row.metric === metric);
+    // Storage is a running total, everything else starts over monthly
+    const amount = metric === "storageBytes" ? row?.total : row?.inPeriod;
+    return Math.max(0, amount ?? 0);
+  };
+
+  return {
+    plan,
+    period,
+    metrics: {
+      storageBytes: { used: used("storageBytes"), limit: limits.storageBytes },
+      recordedMs: { used: used("recordedMs"), limit: limits.recordedMs },
+      transcriptionMs: {
+        used: used("transcriptionMs"),
+        limit: limits.transcriptionMs,
+      },
+    } satisfies Record<UsageMetric, { used: number; limit: number }>,
+  };
+}
+
+/**
+ * Throws FORBIDDEN unless the subject has room for `needed` on top of what
+ * it already used. Call it in the transaction that records the usage: it
+ * locks the subject until that commits, so concurrent calls can't all pass
+ * on the same headroom.
+ */
+export async function assertQuota(
+  tx: Pick<typeof dbClient, "select" | "execute">,
+  subject: UsageSubject,
+  needed: UsageAmounts,
+) {
+  const lockKey = subject.workspaceId
+    ? `usage:workspace:${subject.workspaceId}`
+    : `usage:user:${subject.userId}`;
+  await tx.execute(
+    sql`select pg_advisory_xact_lock(hashtextextended(${lockKey}, 0))`,
+  );
+
+  const { metrics } = await getUsage(tx, subject);
+  for (const [metric, amount] of Object.entries(needed) as [
+    UsageMetric,
+    number,
+  ][]) {
+    const { used, limit } = metrics[metric];
+    if (used + amount > limit) {
+      throw new TRPCError({
+        code: "FORBIDDEN",
+        message: `Not enough ${METRIC_LABELS[metric]} left on ${subject.workspaceId ? "the workspace's" : "your"} plan`,
+      });
+    }
+  }
+}
+
+/** Adds ledger entries, negative amounts give usage back */
+export async function recordUsage(
+  db: Pick<typeof dbClient, "insert">,
+  subject: UsageSubject,
+  amounts: UsageAmounts,
+  recordingId: string | null = null,
+) {
+  const values = (Object.entries(amounts) as [UsageMetric, number][])
+    .filter(([, amount]) => amount !== 0)
+    .map(([metric, amount]) => ({ ...subject, metric, amount, recordingId }));
+  if (values.length === 0) return;
+  await db.insert(UsageEvent).values(values);
+}
+
+/** Bytes charged for recordings' audio, to give back when they are deleted */
+export async function getRecordingStorage(
+  db: Pick<typeof dbClient, "select">,
+  recordingIds: string[],
+) {
+  if (recordingIds.length === 0) return 0;
+  const [row] = await db
+    .select({
+      bytes: sql<number>`coalesce(sum(${UsageEvent.amount}), 0)`.mapWith(
+        Number,
+      ),
+    })
+    .from(UsageEvent)
+    .where(
+      and(
+        inArray(UsageEvent.recordingId, recordingIds),
+        eq(UsageEvent.metric, "storageBytes"),
+      ),
+    );
+  return row?.bytes ?? 0;
+}
@@ -0,0 +1,21 @@
+import type { Plan, UsageMetric } from "@vibespeak/db/schema";
+
+const GIB = 1024 * 1024 * 1024;
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Limits per plan. `storageBytes` caps the uploaded audio kept at any time
+ * (processed copies aren't counted); the others cap each calendar month.
+ */
+export const PLAN_LIMITS: Record<Plan, Record<UsageMetric, number>> = {
+  free: {
+    storageBytes: 1 * GIB,
+    recordedMs: 5 * HOUR_MS,
+    transcriptionMs: 1 * HOUR_MS,
+  },
+  pro: {
+    storageBytes: 100 * GIB,
+    recordedMs: 200 * HOUR_MS,
+    transcriptionMs: 50 * HOUR_MS,
+  },
+};
@@ -0,0 +1,85 @@
+import { createHash, randomBytes } from "node:crypto";
+import { TRPCError } from "@trpc/server";
+
+import type { db as dbClient } from "@vibespeak/db/client";
+import type { WorkspaceRole } from "@vibespeak/db/schema";
+import { and, eq, inArray, isNull, or } from "@vibespeak/db";
+import { Membership, Recording } from "@vibespeak/db/schema";
+
+/** Invitations can be accepted for a week */
+export const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Each role can do everything the roles after it can
+const ROLES: WorkspaceRole[] = ["owner", "editor", "viewer"];
+
+/** The roles that satisfy `required`, e.g. owner and editor for editor */
+export const rolesAtLeast = (required: WorkspaceRole) =>
+  ROLES.slice(0, ROLES.indexOf(required) + 1);
+
+export const hasRole = (role: WorkspaceRole, required: WorkspaceRole) =>
+  rolesAtLeast(required).includes(role);
+
+/**
+ * The user's membership of a workspace, checked against `required`.
+ * Non-members get NOT_FOUND so workspace ids can't be probed.
+ */
+export async function assertWorkspaceRole(
+  db: typeof dbClient,
+  userId: string,
+  workspaceId: string,
+  required: WorkspaceRole,
+) {
+  const membership = await db.query.Membership.findFirst({
+    columns: { workspaceId: true, role: true },
+    where: and(
+      eq(Membership.workspaceId, workspaceId),
+      eq(Membership.userId, userId),
+    ),
+  });
+  if (!membership) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Workspace not found" });
+  }
+  if (!hasRole(membership.role, required)) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: `This needs the ${required} role in the workspace`,
+    });
+  }
+  return { id: membership.workspaceId, role: membership.role };
+}
+
+/**
+ * Filter condition for recordings the user may act on with `required`:
+ * their personal recordings, and recordings of workspaces where they hold
+ * at least that role.
+ */
+export function canAccessRecording(
+  db: typeof dbClient,
+  userId: string,
+  required: WorkspaceRole,
+) {
+  return or(
+    and(eq(Recording.userId, userId), isNull(Recording.workspaceId)),
+    inArray(
+      Recording.workspaceId,
+      db
+        .select({ workspaceId: Membership.workspaceId })
+        .from(Membership)
+        .where(
+          and(
+            eq(Membership.userId, userId),
+            inArray(Membership.role, rolesAtLeast(required)),
+          ),
+        ),
+    ),
+  );
+}
+
+export const hashInvitationToken = (token: string) =>
+  createHash("sha256").update(token).digest("hex");
+
+/** A new invitation token for the emailed link, and the hash to store */
+export function createInvitationToken() {
+  const token = randomBytes(32).toString("base64url");
+  return { token, tokenHash: hashInvitationToken(token) };
+}
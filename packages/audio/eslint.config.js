@@ -0,0 +1,9 @@
+import baseConfig from "@vibespeak/eslint-config/base";
+
+/** @type {import('typescript-eslint').Config} */
+export default [
+  {
+    ignores: ["dist/**"],
+  },
+  ...baseConfig,
+];
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+
+import { downmixToMono, quantizeSample, resample } from "./convert";
+import { exportAudio } from "./export";
+import { decodeWav } from "./wav";
+
+const tone = (sampleRate: number, frequency: number, seconds = 0.5) =>
+  Float32Array.from(
+    { length: sampleRate * seconds },
+    (_, i) => 0.5 * Math.sin((2 * Math.PI * frequency * i) / sampleRate),
+  );
+
+// RMS of the middle half, away from the edges the kernel can't fully see
+const rms = (samples: Float32Array) => {
+  const middle = samples.subarray(samples.length / 4, (samples.length * 3) / 4);
+  return Math.sqrt(middle.reduce((sum, x) => sum + x * x, 0) / middle.length);
+};
+
+describe("quantizeSample", () => {
+  it("scales and clamps to the bit depth", () => {
+    expect(quantizeSample(0.5, 16)).toBe(16384);
+    expect(quantizeSample(1, 16)).toBe(32767);
+    expect(quantizeSample(-1, 16)).toBe(-32768);
+    expect(quantizeSample(-2, 24)).toBe(-8388608);
+  });
+});
+
+describe("downmixToMono", () => {
+  it("averages the channels", () => {
+    const mono = downmixToMono({
+      sampleRate: 8000,
+      channels: [Float32Array.of(1, 0.5), Float32Array.of(0, -0.5)],
+    });
+    expect(mono.channels).toEqual([Float32Array.of(0.5, 0)]);
+  });
+});
+
+describe("resample", () => {
+  it("keeps a tone below the new Nyquist frequency", () => {
+    const source = tone(48000, 1000);
+    const [output] = resample(
+      { sampleRate: 48000, channels: [source] },
+      16000,
+    ).channels;
+
+    expect(output).toHaveLength(8000);
+    expect(rms(output!)).toBeCloseTo(rms(source), 2);
+    // Every third source sample lines up with an output sample
+    for (let i = 2000; i < 6000; i += 97) {
+      expect(output![i]).toBeCloseTo(source[i * 3]!, 2);
+    }
+  });
+
+  it("removes content above the new Nyquist frequency", () => {
+    const [output] = resample(
+      { sampleRate: 48000, channels: [tone(48000, 12000)] },
+      16000,
+    ).channels;
+    expect(rms(output!)).toBeLessThan(0.005);
+  });
+
+  it("interpolates when upsampling", () => {
+    const [output] = resample(
+      { sampleRate: 16000, channels: [tone(16000, 1000)] },
+      44100,
+    ).channels;
+    const expected = tone(44100, 1000);
+    expect(output).toHaveLength(expected.length);
+    for (let i = 5000; i < 17000; i += 101) {
+      expect(output![i]).toBeCloseTo(expected[i]!, 2);
+    }
+  });
+
+  it("returns the input when the rate doesn't change", () => {
+    const audio = { sampleRate: 8000, channels: [tone(8000, 440)] };
+    expect(resample(audio, 8000)).toBe(audio);
+  });
+
+  it("rejects invalid rates", () => {
+    const audio = { sampleRate: 8000, channels: [tone(8000, 440)] };
+    expect(() => resample(audio, 0)).toThrow("Invalid sample rate");
+  });
+});
+
+describe("exportAudio", () => {
+  it("downmixes and resamples before encoding", () => {
+    const exported = exportAudio(
+      { sampleRate: 48000, channels: [tone(48000, 440), tone(48000, 440)] },
+      { format: "wav", mono: true, sampleRate: 24000 },
+    );
+    expect(exported).toMatchObject({ mimeType: "audio/wav", extension: "wav" });
+
+    const decoded = decodeWav(exported.bytes);
+    expect(decoded.sampleRate).toBe(24000);
+    expect(decoded.channels).toHaveLength(1);
+    expect(decoded.channels[0]).toHaveLength(12000);
+  });
+
+  it("encodes FLAC", () => {
+    const exported = exportAudio(
+      { sampleRate: 8000, channels: [tone(8000, 440)] },
+      { format: "flac", bitDepth: 24 },
+    );
+    expect(exported).toMatchObject({
+      mimeType: "audio/flac",
+      extension: "flac",
+    });
+    expect(new TextDecoder().decode(exported.bytes.subarray(0, 4))).toBe(
+      "fLaC",
+    );
+  });
+});
@@ -0,0 +1,103 @@
+import type { DecodedAudio } from "./types";
+
+/**
+ * Quantizes a -1..1 float sample to a signed integer of the given bit depth,
+ * the inverse of the scaling `decodeWav` applies.
+ */
+export function quantizeSample(sample: number, bitDepth: number) {
+  const scale = 2 ** (bitDepth - 1);
+  const value = Math.round(sample * scale);
+  return Math.max(-scale, Math.min(scale - 1, value));
+}
+
+/**
+ * Averages all channels into one
+ */
+export function downmixToMono(audio: DecodedAudio): DecodedAudio {
+  if (audio.channels.length <= 1) return audio;
+
+  const length = audio.channels[0]!.length;
+  const mono = new Float32Array(length);
+  for (const channel of audio.channels) {
+    for (let i = 0; i < length; i++) {
+      mono[i] = mono[i]! + channel[i]! / audio.channels.length;
+    }
+  }
+
+  return { sampleRate: audio.sampleRate, channels: [mono] };
+}
+
+// Kernel half-width in zero crossings of the sinc, and table resolution
+const ZERO_CROSSINGS = 24;
+const TABLE_STEPS = 512;
+// Cutoff just below the lower Nyquist frequency, leaving room for the
+// window's transition band so nothing folds back when downsampling
+const CUTOFF = 0.95;
+
+let kernelTable: Float32Array | null = null;
+
+// Blackman-windowed sinc over [0, ZERO_CROSSINGS], sampled TABLE_STEPS times
+// per zero crossing and linearly interpolated at lookup
+function getKernelTable() {
+  if (kernelTable) return kernelTable;
+
+  const size = ZERO_CROSSINGS * TABLE_STEPS + 2;
+  kernelTable = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    const x = i / TABLE_STEPS;
+    if (x >= ZERO_CROSSINGS) continue;
+    const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+    const phase = Math.PI * (x / ZERO_CROSSINGS + 1);
+    const window = 0.42 - 0.5 * Math.cos(phase) + 0.08 * Math.cos(2 * phase);
+    kernelTable[i] = sinc * window;
+  }
+  return kernelTable;
+}
+
+/**
+ * Band-limited sample rate conversion with a windowed-sinc interpolator.
+ * When downsampling the kernel is stretched so content above the new
+ * Nyquist frequency is removed instead of aliasing.
+ */
+export function resample(
+  audio: DecodedAudio,
+  targetSampleRate: number,
+): DecodedAudio {
+  if (!Number.isFinite(targetSampleRate) || targetSampleRate <= 0) {
+    throw new Error(`Invalid sample rate: ${targetSampleRate}`);
+  }
+  if (targetSampleRate === audio.sampleRate) return audio;
+
+  const table = getKernelTable();
+  const ratio = audio.sampleRate / targetSampleRate;
+  const cutoff = Math.min(1, 1 / ratio) * CUTOFF;
+  const halfWidth = ZERO_CROSSINGS / cutoff;
+
+  const channels = audio.channels.map((input) => {
+    const outputLength = Math.floor(
+      (input.length * targetSampleRate) / audio.sampleRate,
+    );
+    const output = new Float32Array(outputLength);
+
+    for (let i = 0; i < outputLength; i++) {
+      const center = i * ratio;
+      const first = Math.max(0, Math.ceil(center - halfWidth));
+      const last = Math.min(input.length - 1, Math.floor(center + halfWidth));
+
+      let sum = 0;
+      for (let j = first; j <= last; j++) {
+        const position = Math.abs(center - j) * cutoff * TABLE_STEPS;
+        const index = Math.floor(position);
+        const fraction = position - index;
+        const weight =
+          table[index]! + (table[index + 1]! - table[index]!) * fraction;
+        sum += input[j]! * weight;
+      }
+      output[i] = sum * cutoff;
+    }
+
+    return output;
+  });
+
+  return { sampleRate: targetSampleRate, channels };
+}
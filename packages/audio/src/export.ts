@@ -0,0 +1,59 @@
+import type { FlacBitDepth } from "./flac";
+import type { AudioMetadata, DecodedAudio } from "./types";
+import type { WavSampleFormat } from "./wav";
+import { downmixToMono, resample } from "./convert";
+import { encodeFlac } from "./flac";
+import { encodeWav } from "./wav";
+
+interface BaseExportOptions {
+  /** Resample to this rate, keeps the source rate when unset */
+  sampleRate?: number;
+  /** Mix all channels down to one */
+  mono?: boolean;
+  metadata?: AudioMetadata;
+}
+
+export type ExportOptions =
+  | (BaseExportOptions & { format: "wav"; sampleFormat?: WavSampleFormat })
+  | (BaseExportOptions & { format: "flac"; bitDepth?: FlacBitDepth });
+
+export interface ExportedAudio {
+  bytes: Uint8Array;
+  mimeType: string;
+  /** File extension without the dot */
+  extension: string;
+}
+
+/**
+ * Converts decoded audio to a downloadable file: optional mono downmix and
+ * resampling, then WAV or FLAC encoding with the given metadata
+ */
+export function exportAudio(
+  audio: DecodedAudio,
+  options: ExportOptions,
+): ExportedAudio {
+  let converted = options.mono ? downmixToMono(audio) : audio;
+  if (options.sampleRate) {
+    converted = resample(converted, options.sampleRate);
+  }
+
+  if (options.format === "flac") {
+    return {
+      bytes: encodeFlac(converted, {
+        bitDepth: options.bitDepth,
+        metadata: options.metadata,
+      }),
+      mimeType: "audio/flac",
+      extension: "flac",
+    };
+  }
+
+  return {
+    bytes: encodeWav(converted, {
+      sampleFormat: options.sampleFormat,
+      metadata: options.metadata,
+    }),
+    mimeType: "audio/wav",
+    extension: "wav",
+  };
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+
+import { fft, hannWindow } from "./fft";
+
+const magnitude = (re: Float32Array, im: Float32Array, bin: number) =>
+  Math.hypot(re[bin]!, im[bin]!);
+
+describe("fft", () => {
+  it("puts a cosine that fits the frame into its bin", () => {
+    const n = 64;
+    const re = Float32Array.from({ length: n }, (_, i) =>
+      Math.cos((2 * Math.PI * 5 * i) / n),
+    );
+    const im = new Float32Array(n);
+    fft(re, im);
+
+    // Half the energy in bin 5, the other half mirrored into bin n - 5
+    expect(magnitude(re, im, 5)).toBeCloseTo(n / 2, 3);
+    expect(magnitude(re, im, n - 5)).toBeCloseTo(n / 2, 3);
+    for (let bin = 0; bin < n; bin++) {
+      if (bin !== 5 && bin !== n - 5) {
+        expect(magnitude(re, im, bin)).toBeLessThan(1e-3);
+      }
+    }
+  });
+
+  it("puts an impulse into every bin equally", () => {
+    const re = new Float32Array(16);
+    const im = new Float32Array(16);
+    re[0] = 1;
+    fft(re, im);
+    re.forEach((_, bin) => expect(magnitude(re, im, bin)).toBeCloseTo(1));
+  });
+
+  it("is undone by the inverse transform", () => {
+    const original = Float32Array.from({ length: 256 }, (_, i) =>
+      Math.sin(i * 0.37),
+    );
+    const re = original.slice();
+    const im = new Float32Array(256);
+    fft(re, im);
+    fft(re, im, true);
+    re.forEach((x, i) => expect(x).toBeCloseTo(original[i]!, 5));
+    im.forEach((x) => expect(x).toBeCloseTo(0, 5));
+  });
+
+  it("rejects sizes that are not a power of two", () => {
+    expect(() => fft(new Float32Array(12), new Float32Array(12))).toThrow(
+      "power of two",
+    );
+  });
+});
+
+describe("hannWindow", () => {
+  it("overlap-adds to a constant at 50% overlap", () => {
+    const window = hannWindow(8);
+    expect(window[0]).toBe(0);
+    expect(window[4]).toBeCloseTo(1);
+    for (let i = 0; i < 4; i++) {
+      expect(window[i]! + window[i + 4]!).toBeCloseTo(1);
+    }
+  });
+});
@@ -0,0 +1,277 @@
+import { describe, expect, it } from "vitest";
+
+import { quantizeSample } from "./convert";
+import { encodeFlac } from "./flac";
+
+/**
+ * MSB-first bit reader, slow but simple enough to trust as a reference
+ */
+class BitReader {
+  position = 0; // in bits
+
+  constructor(private bytes: Uint8Array) {}
+
+  read(count: number) {
+    let value = 0;
+    for (let i = 0; i < count; i++) {
+      const byte = this.bytes[this.position >> 3]!;
+      value = value * 2 + ((byte >> (7 - (this.position & 7))) & 1);
+      this.position++;
+    }
+    return value;
+  }
+
+  readSigned(count: number) {
+    const value = this.read(count);
+    return value >= 2 ** (count - 1) ? value - 2 ** count : value;
+  }
+
+  readUnary() {
+    let zeros = 0;
+    while (this.read(1) === 0) zeros++;
+    return zeros;
+  }
+
+  align() {
+    this.position = Math.ceil(this.position / 8) * 8;
+  }
+
+  get bytePosition() {
+    return this.position >> 3;
+  }
+}
+
+const crc = (bytes: Uint8Array, polynomial: number, width: number) => {
+  const topBit = 1 << (width - 1);
+  const mask = (1 << width) - 1;
+  let value = 0;
+  for (const byte of bytes) {
+    value ^= byte << (width - 8);
+    for (let bit = 0; bit < 8; bit++) {
+      value = value & topBit ? ((value << 1) ^ polynomial) & mask : value << 1;
+    }
+    value &= mask;
+  }
+  return value;
+};
+
+/**
+ * Decodes the subset of FLAC `encodeFlac` writes: fixed block size,
+ * independent channels, CONSTANT, VERBATIM and FIXED subframes.
+ * Checks both CRCs of every frame.
+ */
+function decodeFlac(bytes: Uint8Array) {
+  const reader = new BitReader(bytes);
+  expect(new TextDecoder().decode(bytes.subarray(0, 4))).toBe("fLaC");
+  reader.position = 32;
+
+  let streamInfo = { sampleRate: 0, channelCount: 0, bitDepth: 0, total: 0 };
+  let vendor = "";
+  const comments: string[] = [];
+  for (let last = 0; !last; ) {
+    last = reader.read(1);
+    const type = reader.read(7);
+    const length = reader.read(24);
+    const start = reader.bytePosition;
+    if (type === 0) {
+      reader.read(16 + 16 + 24 + 24);
+      streamInfo = {
+        sampleRate: reader.read(20),
+        channelCount: reader.read(3) + 1,
+        bitDepth: reader.read(5) + 1,
+        total: reader.read(36),
+      };
+    } else if (type === 4) {
+      const view = new DataView(bytes.buffer, bytes.byteOffset + start);
+      const text = (offset: number, size: number) =>
+        new TextDecoder().decode(
+          bytes.subarray(start + offset, start + offset + size),
+        );
+      let offset = 0;
+      const vendorLength = view.getUint32(offset, true);
+      vendor = text(4, vendorLength);
+      offset = 4 + vendorLength;
+      const count = view.getUint32(offset, true);
+      offset += 4;
+      for (let i = 0; i < count; i++) {
+        const size = view.getUint32(offset, true);
+        comments.push(text(offset + 4, size));
+        offset += 4 + size;
+      }
+    }
+    reader.position = (start + length) * 8;
+  }
+
+  const { channelCount, bitDepth, total } = streamInfo;
+  const channels = Array.from(
+    { length: channelCount },
+    () => new Int32Array(total),
+  );
+  let decoded = 0;
+  let frameNumber = 0;
+  while (decoded < total) {
+    const frameStart = reader.bytePosition;
+    expect(reader.read(14)).toBe(0b11111111111110);
+    reader.read(2);
+    expect(reader.read(4)).toBe(0b0111);
+    reader.read(4);
+    expect(reader.read(4)).toBe(channelCount - 1);
+    reader.read(4);
+
+    // UTF-8 style frame number
+    const lead = reader.read(8);
+    let continuations = 0;
+    while (lead & (0x80 >> continuations)) continuations++;
+    let number =
+      continuations === 0 ? lead : lead & (0xff >> (continuations + 1));
+    for (let i = 1; i < continuations; i++) {
+      number = number * 64 + (reader.read(8) & 0x3f);
+    }
+    expect(number).toBe(frameNumber++);
+
+    const blockSize = reader.read(16) + 1;
+    const headerCrc = crc(
+      bytes.subarray(frameStart, reader.bytePosition),
+      0x07,
+      8,
+    );
+    expect(reader.read(8)).toBe(headerCrc);
+
+    for (const channel of channels) {
+      const samples = channel.subarray(decoded, decoded + blockSize);
+      reader.read(1);
+      const type = reader.read(6);
+      reader.read(1);
+      if (type === 0) {
+        samples.fill(reader.readSigned(bitDepth));
+      } else if (type === 1) {
+        for (let i = 0; i < blockSize; i++) {
+          samples[i] = reader.readSigned(bitDepth);
+        }
+      } else {
+        const order = type - 8;
+        expect(order).toBeGreaterThanOrEqual(0);
+        expect(order).toBeLessThanOrEqual(4);
+        for (let i = 0; i < order; i++) {
+          samples[i] = reader.readSigned(bitDepth);
+        }
+        const parameterBits = reader.read(2) === 0 ? 4 : 5;
+        const partitionOrder = reader.read(4);
+        const partitionSize = blockSize >> partitionOrder;
+        let i = order;
+        for (let p = 0; p < 1 << partitionOrder; p++) {
+          const parameter = reader.read(parameterBits);
+          const end = (p + 1) * partitionSize;
+          for (; i < end; i++) {
+            const zigzag = reader.readUnary() * 2 ** parameter;
+            const value = zigzag + reader.read(parameter);
+            const residual = value % 2 ? -(value + 1) / 2 : value / 2;
+            const s = (back: number) => samples[i - back]!;
+            const prediction = [
+              0,
+              s(1),
+              2 * s(1) - s(2),
+              3 * s(1) - 3 * s(2) + s(3),
+              4 * s(1) - 6 * s(2) + 4 * s(3) - s(4),
+            ][order]!;
+            samples[i] = prediction + residual;
+          }
+        }
+      }
+    }
+
+    reader.align();
+    const frameCrc = crc(
+      bytes.subarray(frameStart, reader.bytePosition),
+      0x8005,
+      16,
+    );
+    expect(reader.read(16)).toBe(frameCrc);
+    decoded += blockSize;
+  }
+  expect(reader.bytePosition).toBe(bytes.length);
+
+  return { ...streamInfo, channels, vendor, comments };
+}
+
+let seed = 1;
+const random = () => {
+  seed = (seed * 16807) % 2147483647;
+  return seed / 1073741823.5 - 1;
+};
+
+const signal = (length: number, fn: (i: number) => number) =>
+  Float32Array.from({ length }, (_, i) => fn(i));
+
+const quantized = (samples: Float32Array, bitDepth: number) =>
+  Int32Array.from(samples, (sample) => quantizeSample(sample, bitDepth));
+
+describe("encodeFlac", () => {
+  // A tone (FIXED subframes), silence (CONSTANT) and full-scale noise
+  // (VERBATIM), over several frames with a short last one
+  const channels = [
+    signal(10_000, (i) => 0.6 * Math.sin(i / 7) + 0.01 * random()),
+    signal(10_000, () => 0),
+    signal(10_000, () => random()),
+  ];
+
+  it.each([16, 24] as const)("is lossless at %i bits", (bitDepth) => {
+    const flac = decodeFlac(
+      encodeFlac({ sampleRate: 44100, channels }, { bitDepth }),
+    );
+
+    expect(flac).toMatchObject({
+      sampleRate: 44100,
+      channelCount: 3,
+      bitDepth,
+      total: 10_000,
+    });
+    flac.channels.forEach((channel, c) =>
+      expect(channel).toEqual(quantized(channels[c]!, bitDepth)),
+    );
+  });
+
+  it("compresses a tone well below PCM size", () => {
+    const tone = signal(10_000, (i) => 0.6 * Math.sin(i / 7));
+    const bytes = encodeFlac({ sampleRate: 44100, channels: [tone] });
+    expect(bytes.length).toBeLessThan(10_000 * 2 * 0.5);
+  });
+
+  it("numbers frames past the single byte range", () => {
+    const flac = decodeFlac(
+      encodeFlac({ sampleRate: 8000, channels: [new Float32Array(600_000)] }),
+    );
+    expect(flac.total).toBe(600_000);
+  });
+
+  it("writes metadata as Vorbis comments", () => {
+    const flac = decodeFlac(
+      encodeFlac(
+        { sampleRate: 8000, channels: [signal(100, () => 0)] },
+        {
+          metadata: {
+            title: " Standup ",
+            artist: "",
+            date: new Date(2024, 2, 5),
+            software: "vibespeak",
+          },
+        },
+      ),
+    );
+    expect(flac.vendor).toBe("@vibespeak/audio");
+    expect(flac.comments).toEqual([
+      "TITLE=Standup",
+      "DATE=2024-03-05",
+      "ENCODER=vibespeak",
+    ]);
+  });
+
+  it("rejects unsupported channel counts and sample rates", () => {
+    expect(() => encodeFlac({ sampleRate: 8000, channels: [] })).toThrow(
+      "1 to 8 channels",
+    );
+    expect(() =>
+      encodeFlac({ sampleRate: 2 ** 20, channels: [new Float32Array(1)] }),
+    ).toThrow("Sample rate not supported");
+  });
+});
@@ -0,0 +1,468 @@
+import type { AudioMetadata, DecodedAudio } from "./types";
+import { quantizeSample } from "./convert";
+import { metadataEntries } from "./metadata";
+
+export type FlacBitDepth = 16 | 24;
+
+export interface FlacEncodeOptions {
+  /** Defaults to 16 */
+  bitDepth?: FlacBitDepth;
+  /** Written as a Vorbis comment block */
+  metadata?: AudioMetadata;
+}
+
+// 4096 samples per frame is what the reference encoder uses at 44.1/48 kHz
+const BLOCK_SIZE = 4096;
+const MAX_FIXED_ORDER = 4;
+const MAX_PARTITION_ORDER = 8;
+const VENDOR = "@vibespeak/audio";
+
+const VORBIS_FIELDS: Record<keyof AudioMetadata, string> = {
+  title: "TITLE",
+  artist: "ARTIST",
+  album: "ALBUM",
+  genre: "GENRE",
+  comment: "COMMENT",
+  date: "DATE",
+  software: "ENCODER",
+};
+
+const METADATA_STREAMINFO = 0;
+const METADATA_VORBIS_COMMENT = 4;
+
+const textEncoder = new TextEncoder();
+
+const CRC8_TABLE = createCrcTable(0x07, 8);
+const CRC16_TABLE = createCrcTable(0x8005, 16);
+
+function createCrcTable(polynomial: number, width: 8 | 16) {
+  const topBit = 1 << (width - 1);
+  const mask = (1 << width) - 1;
+  const table = new Uint16Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i << (width - 8);
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & topBit ? (crc << 1) ^ polynomial : crc << 1;
+    }
+    table[i] = crc & mask;
+  }
+  return table;
+}
+
+function crc8(bytes: Uint8Array) {
+  let crc = 0;
+  for (const byte of bytes) crc = CRC8_TABLE[crc ^ byte]!;
+  return crc;
+}
+
+function crc16(bytes: Uint8Array) {
+  let crc = 0;
+  for (const byte of bytes) {
+    crc = ((crc << 8) ^ CRC16_TABLE[(crc >> 8) ^ byte]!) & 0xffff;
+  }
+  return crc;
+}
+
+/**
+ * MSB-first bit writer, FLAC's bit order
+ */
+class BitWriter {
+  private bytes = new Uint8Array(1024);
+  private length = 0;
+  private pending = 0;
+  private pendingBits = 0;
+
+  writeBits(value: number, count: number) {
+    if (count > 24) {
+      const high = Math.floor(value / 0x1000000);
+      this.writeBits(high, count - 24);
+      this.writeBits(value - high * 0x1000000, 24);
+      return;
+    }
+    if (count === 0) return;
+
+    this.pending = (this.pending << count) | (value & ((1 << count) - 1));
+    this.pendingBits += count;
+    while (this.pendingBits >= 8) {
+      this.pendingBits -= 8;
+      this.pushByte((this.pending >>> this.pendingBits) & 0xff);
+    }
+    this.pending &= (1 << this.pendingBits) - 1;
+  }
+
+  /** `count` zeros followed by a one */
+  writeUnary(count: number) {
+    while (count >= 24) {
+      this.writeBits(0, 24);
+      count -= 24;
+    }
+    this.writeBits(1, count + 1);
+  }
+
+  writeBytes(bytes: Uint8Array) {
+    for (const byte of bytes) this.writeBits(byte, 8);
+  }
+
+  /** Pads with zero bits to the next byte boundary */
+  align() {
+    if (this.pendingBits > 0) this.writeBits(0, 8 - this.pendingBits);
+  }
+
+  /** The bytes written so far, call `align` first */
+  toBytes() {
+    return this.bytes.subarray(0, this.length);
+  }
+
+  private pushByte(byte: number) {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.length++] = byte;
+  }
+}
+
+const zigzag = (value: number) => (value >= 0 ? value * 2 : -value * 2 - 1);
+
+/**
+ * Residual of the fixed polynomial predictor of the given order,
+ * zigzag-encoded for Rice coding
+ */
+function fixedResidual(samples: Int32Array, order: number) {
+  const residual = new Float64Array(samples.length - order);
+  for (let i = order; i < samples.length; i++) {
+    const s = samples;
+    let value: number;
+    switch (order) {
+      case 0:
+        value = s[i]!;
+        break;
+      case 1:
+        value = s[i]! - s[i - 1]!;
+        break;
+      case 2:
+        value = s[i]! - 2 * s[i - 1]! + s[i - 2]!;
+        break;
+      case 3:
+        value = s[i]! - 3 * s[i - 1]! + 3 * s[i - 2]! - s[i - 3]!;
+        break;
+      default:
+        value =
+          s[i]! - 4 * s[i - 1]! + 6 * s[i - 2]! - 4 * s[i - 3]! + s[i - 4]!;
+    }
+    residual[i - order] = zigzag(value);
+  }
+  return residual;
+}
+
+interface RicePlan {
+  bits: number;
+  partitionOrder: number;
+  parameters: number[];
+}
+
+/**
+ * Picks the partition order and per-partition Rice parameters that code the
+ * residual in the fewest bits
+ */
+function planRice(
+  residual: Float64Array,
+  blockSize: number,
+  predictorOrder: number,
+  parameterBits: number,
+): RicePlan {
+  const maxParameter = (1 << parameterBits) - 2; // all ones is the escape code
+  let best: RicePlan | null = null;
+
+  for (
+    let partitionOrder = 0;
+    partitionOrder <= MAX_PARTITION_ORDER;
+    partitionOrder++
+  ) {
+    const partitionCount = 1 << partitionOrder;
+    const partitionSize = blockSize >> partitionOrder;
+    if (partitionSize * partitionCount !== blockSize) break;
+    if (partitionSize <= predictorOrder) break;
+
+    let bits = 2 + 4; // coding method and partition order
+    const parameters: number[] = [];
+    let start = 0;
+    for (let partition = 0; partition < partitionCount; partition++) {
+      const end =
+        start + partitionSize - (partition === 0 ? predictorOrder : 0);
+
+      let sum = 0;
+      for (let i = start; i < end; i++) sum += residual[i]!;
+      const count = end - start;
+
+      // Near-optimal parameter from the mean, refined by the exact cost
+      const mean = count > 0 ? sum / count : 0;
+      const estimate = Math.min(
+        maxParameter,
+        mean > 1 ? Math.floor(Math.log2(mean * Math.LN2)) : 0,
+      );
+      let bestParameter = estimate;
+      let bestCost = Infinity;
+      for (let k = estimate - 1; k <= estimate + 1; k++) {
+        if (k < 0 || k > maxParameter) continue;
+        const divisor = 2 ** k;
+        let cost = count * (k + 1);
+        for (let i = start; i < end; i++) {
+          cost += Math.floor(residual[i]! / divisor);
+        }
+        if (cost < bestCost) {
+          bestCost = cost;
+          bestParameter = k;
+        }
+      }
+
+      bits += parameterBits + bestCost;
+      parameters.push(bestParameter);
+      start = end;
+    }
+
+    if (!best || bits < best.bits) {
+      best = { bits, partitionOrder, parameters };
+    }
+  }
+
+  return best!;
+}
+
+type Subframe =
+  | { type: "constant"; bits: number }
+  | { type: "verbatim"; bits: number }
+  | {
+      type: "fixed";
+      bits: number;
+      order: number;
+      residual: Float64Array;
+      rice: RicePlan;
+    };
+
+function planSubframe(
+  samples: Int32Array,
+  bitDepth: number,
+  parameterBits: number,
+): Subframe {
+  const header = 8;
+  if (samples.every((sample) => sample === samples[0])) {
+    return { type: "constant", bits: header + bitDepth };
+  }
+
+  let best: Subframe = {
+    type: "verbatim",
+    bits: header + samples.length * bitDepth,
+  };
+  const maxOrder = Math.min(MAX_FIXED_ORDER, samples.length - 1);
+  for (let order = 0; order <= maxOrder; order++) {
+    const residual = fixedResidual(samples, order);
+    const rice = planRice(residual, samples.length, order, parameterBits);
+    const bits = header + order * bitDepth + rice.bits;
+    if (bits < best.bits) {
+      best = { type: "fixed", bits, order, residual, rice };
+    }
+  }
+  return best;
+}
+
+function writeSubframe(
+  writer: BitWriter,
+  samples: Int32Array,
+  subframe: Subframe,
+  bitDepth: number,
+  parameterBits: number,
+) {
+  // Zero padding bit, 6-bit type, no wasted bits
+  switch (subframe.type) {
+    case "constant":
+      writer.writeBits(0b00000000, 8);
+      writer.writeBits(samples[0]!, bitDepth);
+      return;
+
+    case "verbatim":
+      writer.writeBits(0b00000010, 8);
+      for (const sample of samples) writer.writeBits(sample, bitDepth);
+      return;
+
+    case "fixed": {
+      const { order, residual, rice } = subframe;
+      writer.writeBits(0b00010000 | (order << 1), 8);
+      for (let i = 0; i < order; i++) writer.writeBits(samples[i]!, bitDepth);
+
+      writer.writeBits(parameterBits === 4 ? 0 : 1, 2);
+      writer.writeBits(rice.partitionOrder, 4);
+      const partitionSize = samples.length >> rice.partitionOrder;
+      let start = 0;
+      rice.parameters.forEach((parameter, partition) => {
+        const end = start + partitionSize - (partition === 0 ? order : 0);
+        writer.writeBits(parameter, parameterBits);
+        const divisor = 2 ** parameter;
+        for (let i = start; i < end; i++) {
+          const value = residual[i]!;
+          const quotient = Math.floor(value / divisor);
+          writer.writeUnary(quotient);
+          writer.writeBits(value - quotient * divisor, parameter);
+        }
+        start = end;
+      });
+      return;
+    }
+  }
+}
+
+// Frame numbers use the UTF-8 style variable length encoding
+function writeFrameNumber(writer: BitWriter, value: number) {
+  if (value < 0x80) {
+    writer.writeBits(value, 8);
+    return;
+  }
+
+  // The lead byte holds 6 - n value bits, each of the n continuations 6
+  let continuationBytes = 1;
+  while (value >= 2 ** (5 * continuationBytes + 6)) {
+    continuationBytes++;
+  }
+  const prefix = (0xff << (7 - continuationBytes)) & 0xff;
+  writer.writeBits(
+    prefix | Math.floor(value / 2 ** (6 * continuationBytes)),
+    8,
+  );
+  for (let i = continuationBytes - 1; i >= 0; i--) {
+    writer.writeBits(0x80 | (Math.floor(value / 2 ** (6 * i)) & 0x3f), 8);
+  }
+}
+
+function encodeFrame(
+  channels: Int32Array[],
+  frameNumber: number,
+  bitDepth: FlacBitDepth,
+) {
+  const blockSize = channels[0]!.length;
+  // 24-bit residuals can need Rice parameters above 14
+  const parameterBits = bitDepth > 16 ? 5 : 4;
+
+  const writer = new BitWriter();
+  writer.writeBits(0b11111111111110, 14); // sync code
+  writer.writeBits(0, 1); // reserved
+  writer.writeBits(0, 1); // fixed block size stream
+  writer.writeBits(0b0111, 4); // 16-bit block size follows the header
+  writer.writeBits(0b0000, 4); // sample rate from STREAMINFO
+  writer.writeBits(channels.length - 1, 4); // independent channels
+  writer.writeBits(bitDepth === 16 ? 0b100 : 0b110, 3);
+  writer.writeBits(0, 1); // reserved
+  writeFrameNumber(writer, frameNumber);
+  writer.writeBits(blockSize - 1, 16);
+  writer.writeBits(crc8(writer.toBytes()), 8);
+
+  for (const samples of channels) {
+    const subframe = planSubframe(samples, bitDepth, parameterBits);
+    writeSubframe(writer, samples, subframe, bitDepth, parameterBits);
+  }
+
+  writer.align();
+  writer.writeBits(crc16(writer.toBytes()), 16);
+  return writer.toBytes();
+}
+
+function encodeVorbisComment(metadata: AudioMetadata) {
+  const comments = metadataEntries(metadata).map(([field, text]) =>
+    textEncoder.encode(`${VORBIS_FIELDS[field]}=${text}`),
+  );
+  const vendor = textEncoder.encode(VENDOR);
+
+  // Unlike the rest of FLAC, Vorbis comments are little-endian
+  const size =
+    4 +
+    vendor.length +
+    4 +
+    comments.reduce((total, comment) => total + 4 + comment.length, 0);
+  const bytes = new Uint8Array(size);
+  const view = new DataView(bytes.buffer);
+
+  view.setUint32(0, vendor.length, true);
+  bytes.set(vendor, 4);
+  let offset = 4 + vendor.length;
+  view.setUint32(offset, comments.length, true);
+  offset += 4;
+  for (const comment of comments) {
+    view.setUint32(offset, comment.length, true);
+    bytes.set(comment, offset + 4);
+    offset += 4 + comment.length;
+  }
+
+  return bytes;
+}
+
+/**
+ * Encodes audio as FLAC. Frames use the fixed polynomial predictors with
+ * Rice-coded residuals, which gets close to `flac -5` on speech without an
+ * LPC search. Channels are coded independently and the STREAMINFO MD5 is
+ * left unset, which decoders treat as "not computed".
+ */
+export function encodeFlac(
+  audio: DecodedAudio,
+  options: FlacEncodeOptions = {},
+): Uint8Array {
+  const { bitDepth = 16, metadata = {} } = options;
+  const channelCount = audio.channels.length;
+  if (channelCount < 1 || channelCount > 8) {
+    throw new Error(`FLAC supports 1 to 8 channels, got ${channelCount}`);
+  }
+  if (audio.sampleRate < 1 || audio.sampleRate >= 2 ** 20) {
+    throw new Error(`Sample rate not supported by FLAC: ${audio.sampleRate}`);
+  }
+
+  const totalSamples = audio.channels[0]!.length;
+  const frames: Uint8Array[] = [];
+  for (let start = 0; start < totalSamples; start += BLOCK_SIZE) {
+    const end = Math.min(totalSamples, start + BLOCK_SIZE);
+    const blocks = audio.channels.map((channel) => {
+      const block = new Int32Array(end - start);
+      for (let i = start; i < end; i++) {
+        block[i - start] = quantizeSample(channel[i]!, bitDepth);
+      }
+      return block;
+    });
+    frames.push(encodeFrame(blocks, frames.length, bitDepth));
+  }
+
+  const frameSizes = frames.map((frame) => frame.length);
+  const writer = new BitWriter();
+  writer.writeBytes(textEncoder.encode("fLaC"));
+
+  // STREAMINFO
+  writer.writeBits(0, 1); // not the last metadata block
+  writer.writeBits(METADATA_STREAMINFO, 7);
+  writer.writeBits(34, 24);
+  writer.writeBits(BLOCK_SIZE, 16); // min block size
+  writer.writeBits(BLOCK_SIZE, 16); // max block size
+  writer.writeBits(frames.length ? Math.min(...frameSizes) : 0, 24);
+  writer.writeBits(frames.length ? Math.max(...frameSizes) : 0, 24);
+  writer.writeBits(audio.sampleRate, 20);
+  writer.writeBits(channelCount - 1, 3);
+  writer.writeBits(bitDepth - 1, 5);
+  writer.writeBits(totalSamples, 36);
+  writer.writeBytes(new Uint8Array(16)); // MD5 unset
+
+  // VORBIS_COMMENT, also carries the vendor string when there are no tags
+  const comment = encodeVorbisComment(metadata);
+  writer.writeBits(1, 1); // last metadata block
+  writer.writeBits(METADATA_VORBIS_COMMENT, 7);
+  writer.writeBits(comment.length, 24);
+  writer.writeBytes(comment);
+
+  const header = writer.toBytes();
+  const bytes = new Uint8Array(
+    header.length + frameSizes.reduce((total, size) => total + size, 0),
+  );
+  bytes.set(header);
+  let offset = header.length;
+  for (const frame of frames) {
+    bytes.set(frame, offset);
+    offset += frame.length;
+  }
+
+  return bytes;
+}
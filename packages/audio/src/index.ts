@@ -0,0 +1,55 @@
+export type { AudioMetadata, DecodedAudio } from "./types";
+export type { WavEncodeOptions, WavSampleFormat } from "./wav";
+export { decodeWav, encodeWav, isWav } from "./wav";
+export type { FlacBitDepth, FlacEncodeOptions } from "./flac";
+export { encodeFlac } from "./flac";
+export { downmixToMono, quantizeSample, resample } from "./convert";
+export type { ExportedAudio, ExportOptions } from "./export";
+export { exportAudio } from "./export";
+export type { WaveformLevel, WaveformPeaks } from "./peaks";
+export { computePeaks, peaksToBars, selectLevel } from "./peaks";
+export { fft, hannWindow } from "./fft";
+export type {
+  SpeechSegment,
+  VadDecision,
+  VadEvent,
+  VadFeatures,
+  VadOptions,
+  VoiceActivityDetector,
+} from "./vad";
+export {
+  createVoiceActivityDetector,
+  detectSpeechSegments,
+  extractVadFeatures,
+  VAD_FRAME_MS,
+} from "./vad";
+export type {
+  VoiceTrigger,
+  VoiceTriggerAction,
+  VoiceTriggerOptions,
+  VoiceTriggerState,
+} from "./voice-trigger";
+export {
+  createVoiceTrigger,
+  DEFAULT_VOICE_TRIGGER_OPTIONS,
+} from "./voice-trigger";
+export { measureIntegratedLoudness, measureTruePeak } from "./loudness";
+export type { SilenceOptions, SoundBounds } from "./silence";
+export {
+  DEFAULT_SILENCE_OPTIONS,
+  findSoundBounds,
+  sliceAudio,
+} from "./silence";
+export type { PostProcessOptions, RecordingAnalysis } from "./post-process";
+export { DEFAULT_POST_PROCESS_OPTIONS, postProcessAudio } from "./post-process";
+export type {
+  TranscriptPosition,
+  TranscriptSegment,
+  TranscriptWord,
+} from "./transcript";
+export {
+  editSegmentText,
+  findWordAt,
+  spreadWords,
+  tokenizeTranscript,
+} from "./transcript";
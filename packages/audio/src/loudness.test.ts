@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+
+import { measureIntegratedLoudness, measureTruePeak } from "./loudness";
+
+const sine = (
+  sampleRate: number,
+  amplitude: number,
+  seconds = 2,
+  frequency = 1000,
+  phase = 0,
+) =>
+  Float32Array.from(
+    { length: Math.round(sampleRate * seconds) },
+    (_, i) =>
+      amplitude * Math.sin((2 * Math.PI * frequency * i) / sampleRate + phase),
+  );
+
+describe("measureIntegratedLoudness", () => {
+  // BS.1770 calibration: a full-scale 1 kHz sine in one channel is -3.01 LKFS
+  it("reads the reference level for a 1 kHz sine", () => {
+    const loudness = measureIntegratedLoudness({
+      sampleRate: 48000,
+      channels: [sine(48000, 1)],
+    });
+    expect(loudness).toBeCloseTo(-3.01, 1);
+  });
+
+  it.each([16000, 44100])("is calibrated at %i Hz too", (sampleRate) => {
+    const loudness = measureIntegratedLoudness({
+      sampleRate,
+      channels: [sine(sampleRate, 0.1)],
+    });
+    expect(loudness).toBeCloseTo(-23.01, 1);
+  });
+
+  it("sums the channels", () => {
+    const loudness = measureIntegratedLoudness({
+      sampleRate: 48000,
+      channels: [sine(48000, 0.1), sine(48000, 0.1)],
+    });
+    expect(loudness).toBeCloseTo(-20, 1);
+  });
+
+  it("gates out passages far below the programme level", () => {
+    const loud = sine(48000, 0.1);
+    const quiet = sine(48000, 0.001, 4);
+    const channel = new Float32Array(loud.length + quiet.length);
+    channel.set(loud);
+    channel.set(quiet, loud.length);
+
+    const loudness = measureIntegratedLoudness({
+      sampleRate: 48000,
+      channels: [channel],
+    });
+    // Only the blocks overlapping the quieter passage's start pull it down
+    expect(loudness).toBeGreaterThan(-23.5);
+    expect(loudness).toBeLessThan(-22.9);
+  });
+
+  it("returns null when nothing can be measured", () => {
+    const short = { sampleRate: 48000, channels: [sine(48000, 0.5, 0.3)] };
+    const silent = { sampleRate: 48000, channels: [new Float32Array(48000)] };
+    expect(measureIntegratedLoudness(short)).toBeNull();
+    expect(measureIntegratedLoudness(silent)).toBeNull();
+  });
+});
+
+describe("measureTruePeak", () => {
+  it("finds peaks that fall between samples", () => {
+    // At a quarter of the sample rate, shifted by 45°, every sample lands
+    // at ±0.707 while the waveform itself reaches 1
+    const audio = {
+      sampleRate: 48000,
+      channels: [sine(48000, 1, 0.1, 12000, Math.PI / 4)],
+    };
+    const samplePeak = Math.max(...audio.channels[0]!.map(Math.abs));
+    expect(20 * Math.log10(samplePeak)).toBeCloseTo(-3.01, 1);
+    expect(measureTruePeak(audio)).toBeGreaterThan(-0.5);
+    expect(measureTruePeak(audio)).toBeLessThan(0.5);
+  });
+
+  it("matches the sample peak of slow signals", () => {
+    const audio = { sampleRate: 48000, channels: [sine(48000, 0.5, 0.1, 100)] };
+    expect(measureTruePeak(audio)).toBeCloseTo(-6.02, 1);
+  });
+
+  it("is -Infinity for silence", () => {
+    const audio = { sampleRate: 48000, channels: [new Float32Array(480)] };
+    expect(measureTruePeak(audio)).toBe(-Infinity);
+  });
+});
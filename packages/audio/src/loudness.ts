@@ -0,0 +1,163 @@
+import type { DecodedAudio } from "./types";
+
+// ITU-R BS.1770-4 gating block: 400 ms windows with 75% overlap
+const BLOCK_MS = 400;
+const STEP_MS = 100;
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+
+interface Biquad {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+/**
+ * The two K-weighting stages (head-related shelf, then high-pass) derived for
+ * any sample rate, so 16/44.1 kHz material is measured like 48 kHz
+ */
+function kWeightingFilters(sampleRate: number): [Biquad, Biquad] {
+  const shelfK = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  const shelfQ = 0.7071752369554196;
+  const vh = 10 ** (3.999843853973347 / 20);
+  const vb = vh ** 0.4996667741545416;
+  const shelfA0 = 1 + shelfK / shelfQ + shelfK * shelfK;
+
+  const highPassK = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  const highPassQ = 0.5003270373238773;
+  const highPassA0 = 1 + highPassK / highPassQ + highPassK * highPassK;
+
+  return [
+    {
+      b0: (vh + (vb * shelfK) / shelfQ + shelfK * shelfK) / shelfA0,
+      b1: (2 * (shelfK * shelfK - vh)) / shelfA0,
+      b2: (vh - (vb * shelfK) / shelfQ + shelfK * shelfK) / shelfA0,
+      a1: (2 * (shelfK * shelfK - 1)) / shelfA0,
+      a2: (1 - shelfK / shelfQ + shelfK * shelfK) / shelfA0,
+    },
+    {
+      b0: 1,
+      b1: -2,
+      b2: 1,
+      a1: (2 * (highPassK * highPassK - 1)) / highPassA0,
+      a2: (1 - highPassK / highPassQ + highPassK * highPassK) / highPassA0,
+    },
+  ];
+}
+
+function applyBiquad(input: Float64Array, { b0, b1, b2, a1, a2 }: Biquad) {
+  const output = new Float64Array(input.length);
+  let x1 = 0;
+  let x2 = 0;
+  let y1 = 0;
+  let y2 = 0;
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i]!;
+    const y = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+    output[i] = y;
+    x2 = x1;
+    x1 = x;
+    y2 = y1;
+    y1 = y;
+  }
+  return output;
+}
+
+const powerToLufs = (power: number) => -0.691 + 10 * Math.log10(power);
+
+/**
+ * Integrated loudness in LUFS per ITU-R BS.1770-4 / EBU R128, with every
+ * channel weighted equally (mono, stereo). Returns null when the audio is
+ * shorter than one gating block or entirely below the absolute gate.
+ */
+export function measureIntegratedLoudness(audio: DecodedAudio): number | null {
+  const length = audio.channels[0]?.length ?? 0;
+  const blockSize = Math.round((audio.sampleRate * BLOCK_MS) / 1000);
+  const stepSize = Math.round((audio.sampleRate * STEP_MS) / 1000);
+  if (length < blockSize) return null;
+
+  const [shelf, highPass] = kWeightingFilters(audio.sampleRate);
+  // Running sums of the squared, weighted signal make each block O(1)
+  const cumulative = new Float64Array(length + 1);
+  for (const channel of audio.channels) {
+    const weighted = applyBiquad(
+      applyBiquad(Float64Array.from(channel), shelf),
+      highPass,
+    );
+    let sum = 0;
+    for (let i = 0; i < length; i++) {
+      sum += weighted[i]! * weighted[i]!;
+      cumulative[i + 1] = cumulative[i + 1]! + sum;
+    }
+  }
+
+  const blockPowers: number[] = [];
+  for (let start = 0; start + blockSize <= length; start += stepSize) {
+    const power =
+      (cumulative[start + blockSize]! - cumulative[start]!) / blockSize;
+    if (powerToLufs(power) > ABSOLUTE_GATE_LUFS) blockPowers.push(power);
+  }
+  if (blockPowers.length === 0) return null;
+
+  const mean = (powers: number[]) =>
+    powers.reduce((total, power) => total + power, 0) / powers.length;
+  const relativeGate = powerToLufs(mean(blockPowers)) + RELATIVE_GATE_LU;
+  const gated = blockPowers.filter(
+    (power) => powerToLufs(power) > relativeGate,
+  );
+
+  return powerToLufs(mean(gated));
+}
+
+// True peak: 4x oversampling through a Hann-windowed sinc interpolator
+const OVERSAMPLING = 4;
+const INTERPOLATION_TAPS = 12;
+
+let interpolationPhases: Float64Array[] | null = null;
+
+function getInterpolationPhases() {
+  if (interpolationPhases) return interpolationPhases;
+
+  const half = INTERPOLATION_TAPS / 2;
+  interpolationPhases = Array.from({ length: OVERSAMPLING - 1 }, (_, p) => {
+    const fraction = (p + 1) / OVERSAMPLING;
+    const taps = new Float64Array(INTERPOLATION_TAPS);
+    for (let t = 0; t < INTERPOLATION_TAPS; t++) {
+      // Distance from the interpolated point to input sample (i - half + 1 + t)
+      const x = fraction + half - 1 - t;
+      const sinc = Math.sin(Math.PI * x) / (Math.PI * x);
+      const window = 0.5 + 0.5 * Math.cos((Math.PI * x) / half);
+      taps[t] = sinc * window;
+    }
+    return taps;
+  });
+  return interpolationPhases;
+}
+
+/**
+ * Estimated true peak (inter-sample peak) in dBTP, -Infinity for silence
+ */
+export function measureTruePeak(audio: DecodedAudio): number {
+  const phases = getInterpolationPhases();
+  const half = INTERPOLATION_TAPS / 2;
+  let peak = 0;
+
+  for (const channel of audio.channels) {
+    for (let i = 0; i < channel.length; i++) {
+      peak = Math.max(peak, Math.abs(channel[i]!));
+      if (i + half >= channel.length || i - half + 1 < 0) continue;
+
+      for (const taps of phases) {
+        let value = 0;
+        for (let t = 0; t < INTERPOLATION_TAPS; t++) {
+          value += channel[i - half + 1 + t]! * taps[t]!;
+        }
+        peak = Math.max(peak, Math.abs(value));
+      }
+    }
+  }
+
+  return peak > 0 ? 20 * Math.log10(peak) : -Infinity;
+}
@@ -0,0 +1,24 @@
+import type { AudioMetadata } from "./types";
+
+/**
+ * Metadata as [field, text] pairs, skipping empty values.
+ * The date becomes YYYY-MM-DD in local time.
+ */
+export function metadataEntries(
+  metadata: AudioMetadata,
+): [keyof AudioMetadata, string][] {
+  const entries: [keyof AudioMetadata, string][] = [];
+  for (const [field, value] of Object.entries(metadata)) {
+    if (value instanceof Date) {
+      entries.push([field as keyof AudioMetadata, formatDate(value)]);
+    } else if (typeof value === "string" && value.trim()) {
+      entries.push([field as keyof AudioMetadata, value.trim()]);
+    }
+  }
+  return entries;
+}
+
+function formatDate(date: Date) {
+  const pad = (value: number) => value.toString().padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
@@ -0,0 +1,137 @@
+import type { DecodedAudio } from "./types";
+
+/** Peaks are stored as signed 8-bit values to keep the payload small */
+const PEAK_SCALE = 127;
+
+export interface WaveformLevel {
+  /** Number of source frames summarised by each min/max pair */
+  samplesPerPeak: number;
+  min: number[];
+  max: number[];
+}
+
+export interface WaveformPeaks {
+  sampleRate: number;
+  /** Length of the source audio in frames */
+  length: number;
+  /** Finest level first, every following level halves the resolution */
+  levels: WaveformLevel[];
+}
+
+export interface ComputePeaksOptions {
+  /** Resolution of the finest level, doubled until `maxPeaks` fits */
+  samplesPerPeak?: number;
+  /** Upper bound on the number of peaks in the finest level */
+  maxPeaks?: number;
+  /** Stop adding coarser levels once a level has this many peaks or fewer */
+  minPeaks?: number;
+}
+
+const quantize = (value: number) =>
+  Math.round(Math.max(-1, Math.min(1, value)) * PEAK_SCALE);
+
+/**
+ * Computes multi-resolution min/max peaks for the given audio.
+ *
+ * All channels are folded into a single envelope (min of mins, max of maxes)
+ * so stereo files render the same way mono ones do.
+ */
+export function computePeaks(
+  audio: DecodedAudio,
+  {
+    samplesPerPeak = 256,
+    maxPeaks = 65_536,
+    minPeaks = 64,
+  }: ComputePeaksOptions = {},
+): WaveformPeaks {
+  const length = audio.channels[0]?.length ?? 0;
+
+  let spp = Math.max(1, Math.floor(samplesPerPeak));
+  while (Math.ceil(length / spp) > maxPeaks) spp *= 2;
+
+  const count = Math.ceil(length / spp);
+  const min = new Array<number>(count);
+  const max = new Array<number>(count);
+
+  for (let peak = 0; peak < count; peak++) {
+    const start = peak * spp;
+    const end = Math.min(start + spp, length);
+    let lo = 1;
+    let hi = -1;
+    for (const channel of audio.channels) {
+      for (let i = start; i < end; i++) {
+        const sample = channel[i]!;
+        if (sample < lo) lo = sample;
+        if (sample > hi) hi = sample;
+      }
+    }
+    min[peak] = quantize(lo);
+    max[peak] = quantize(hi);
+  }
+
+  const levels: WaveformLevel[] = [{ samplesPerPeak: spp, min, max }];
+
+  // Derive coarser levels from the previous one instead of re-reading samples
+  let previous = levels[0]!;
+  while (previous.min.length > minPeaks) {
+    const nextCount = Math.ceil(previous.min.length / 2);
+    const nextMin = new Array<number>(nextCount);
+    const nextMax = new Array<number>(nextCount);
+    for (let i = 0; i < nextCount; i++) {
+      const a = i * 2;
+      const b = Math.min(a + 1, previous.min.length - 1);
+      nextMin[i] = Math.min(previous.min[a]!, previous.min[b]!);
+      nextMax[i] = Math.max(previous.max[a]!, previous.max[b]!);
+    }
+    previous = {
+      samplesPerPeak: previous.samplesPerPeak * 2,
+      min: nextMin,
+      max: nextMax,
+    };
+    levels.push(previous);
+  }
+
+  return { sampleRate: audio.sampleRate, length, levels };
+}
+
+/**
+ * Picks the coarsest level that still has at least `targetPeaks` peaks,
+ * falling back to the finest level available.
+ */
+export function selectLevel(
+  peaks: WaveformPeaks,
+  targetPeaks: number,
+): WaveformLevel | null {
+  let selected: WaveformLevel | null = peaks.levels[0] ?? null;
+  for (const level of peaks.levels) {
+    if (level.min.length < targetPeaks) break;
+    selected = level;
+  }
+  return selected;
+}
+
+/**
+ * Reduces the peaks to `barCount` amplitudes in the 0..1 range, the shape the
+ * bar-based waveform components consume.
+ */
+export function peaksToBars(peaks: WaveformPeaks, barCount: number): number[] {
+  const level = selectLevel(peaks, barCount);
+  if (!level || barCount < 1) return [];
+
+  const count = level.min.length;
+  const bars = new Array<number>(barCount).fill(0);
+  for (let bar = 0; bar < barCount; bar++) {
+    const start = Math.floor((bar * count) / barCount);
+    const end = Math.max(start + 1, Math.floor(((bar + 1) * count) / barCount));
+    let amplitude = 0;
+    for (let i = start; i < Math.min(end, count); i++) {
+      amplitude = Math.max(
+        amplitude,
+        Math.abs(level.min[i]!),
+        Math.abs(level.max[i]!),
+      );
+    }
+    bars[bar] = amplitude / PEAK_SCALE;
+  }
+  return bars;
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+
+import { measureIntegratedLoudness } from "./loudness";
+import { postProcessAudio } from "./post-process";
+
+const SAMPLE_RATE = 16000;
+
+// A 1 kHz tone from 1 s to 3 s in four seconds of silence; amplitude 0.1
+// reads -23 LUFS
+const take = (amplitude = 0.1) => ({
+  sampleRate: SAMPLE_RATE,
+  channels: [
+    Float32Array.from({ length: 4 * SAMPLE_RATE }, (_, i) =>
+      i >= SAMPLE_RATE && i < 3 * SAMPLE_RATE
+        ? amplitude * Math.sin((2 * Math.PI * 1000 * i) / SAMPLE_RATE)
+        : 0,
+    ),
+  ],
+});
+
+describe("postProcessAudio", () => {
+  it("trims the silence and normalizes to the target", () => {
+    const { audio, analysis } = postProcessAudio(take());
+
+    // 150 ms of padding stays on either side of the tone
+    expect(analysis.trimStartMs).toBe(850);
+    expect(analysis.trimEndMs).toBe(3150);
+    expect(audio.channels[0]).toHaveLength(2.3 * SAMPLE_RATE);
+
+    expect(analysis.inputLoudnessLufs).toBeCloseTo(-23, 0);
+    expect(analysis.loudnessLufs).toBeCloseTo(-16, 5);
+    expect(analysis.gainDb).toBeCloseTo(7, 0);
+    expect(measureIntegratedLoudness(audio)).toBeCloseTo(-16, 1);
+  });
+
+  it("stops the gain at the true peak ceiling", () => {
+    // The tone peaks at -20 dBTP, so reaching -2 LUFS would need +21 dB
+    const { audio, analysis } = postProcessAudio(take(), { targetLufs: -2 });
+    expect(analysis.truePeakDb).toBeCloseTo(-1, 5);
+    expect(analysis.gainDb).toBeCloseTo(19, 1);
+    const peak = Math.max(...audio.channels[0]!.map(Math.abs));
+    expect(peak).toBeLessThan(1);
+  });
+
+  it("leaves the audio alone when both steps are off", () => {
+    const input = take();
+    const { audio, analysis } = postProcessAudio(input, {
+      trimSilence: false,
+      normalize: false,
+    });
+    expect(audio).toBe(input);
+    expect(analysis).toMatchObject({
+      trimStartMs: 0,
+      trimEndMs: 4000,
+      gainDb: 0,
+    });
+  });
+
+  it("doesn't amplify silence", () => {
+    const { audio, analysis } = postProcessAudio(take(0));
+    expect(audio.channels[0]).toHaveLength(4 * SAMPLE_RATE);
+    expect(analysis).toEqual({
+      trimStartMs: 0,
+      trimEndMs: 4000,
+      inputLoudnessLufs: null,
+      loudnessLufs: null,
+      truePeakDb: null,
+      gainDb: 0,
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import type { SilenceOptions } from "./silence";
+import type { DecodedAudio } from "./types";
+import { measureIntegratedLoudness, measureTruePeak } from "./loudness";
+import { findSoundBounds, sliceAudio } from "./silence";
+
+export interface PostProcessOptions {
+  /** Trim leading and trailing silence, defaults to true */
+  trimSilence?: boolean;
+  silence?: SilenceOptions;
+  /** Apply gain towards `targetLufs`, defaults to true */
+  normalize?: boolean;
+  /** Integrated loudness to aim for, -16 LUFS suits spoken word */
+  targetLufs?: number;
+  /** The gain is reduced if the result would peak above this (dBTP) */
+  truePeakCeilingDb?: number;
+}
+
+export const DEFAULT_POST_PROCESS_OPTIONS = {
+  trimSilence: true,
+  normalize: true,
+  targetLufs: -16,
+  truePeakCeilingDb: -1,
+};
+
+/**
+ * What post-processing measured and did. Offsets refer to the input audio.
+ */
+export interface RecordingAnalysis {
+  trimStartMs: number;
+  trimEndMs: number;
+  /** Integrated loudness of the trimmed audio before gain, null if unmeasurable */
+  inputLoudnessLufs: number | null;
+  /** Integrated loudness of the result */
+  loudnessLufs: number | null;
+  /** True peak of the result, null for silence */
+  truePeakDb: number | null;
+  gainDb: number;
+}
+
+const finiteOrNull = (value: number) => (Number.isFinite(value) ? value : null);
+
+/**
+ * Trims silence and normalizes loudness. Normalization is a single static
+ * gain; when reaching the target would push the true peak over the ceiling
+ * the gain stops at the ceiling instead, so nothing is limited or clipped.
+ */
+export function postProcessAudio(
+  audio: DecodedAudio,
+  options: PostProcessOptions = {},
+): { audio: DecodedAudio; analysis: RecordingAnalysis } {
+  const config = { ...DEFAULT_POST_PROCESS_OPTIONS, ...options };
+  const length = audio.channels[0]?.length ?? 0;
+
+  const bounds = config.trimSilence
+    ? findSoundBounds(audio, config.silence)
+    : { start: 0, end: length };
+  const trimmed =
+    bounds.start === 0 && bounds.end === length
+      ? audio
+      : sliceAudio(audio, bounds);
+
+  const inputLoudness = measureIntegratedLoudness(trimmed);
+  const inputPeak = measureTruePeak(trimmed);
+
+  let gainDb = 0;
+  if (config.normalize && inputLoudness !== null) {
+    gainDb = Math.min(
+      config.targetLufs - inputLoudness,
+      config.truePeakCeilingDb - inputPeak,
+    );
+  }
+
+  let result = trimmed;
+  if (gainDb !== 0) {
+    const gain = 10 ** (gainDb / 20);
+    result = {
+      sampleRate: trimmed.sampleRate,
+      channels: trimmed.channels.map((channel) =>
+        channel.map((sample) => sample * gain),
+      ),
+    };
+  }
+
+  const toMs = (sample: number) => (sample / audio.sampleRate) * 1000;
+  return {
+    audio: result,
+    analysis: {
+      trimStartMs: Math.round(toMs(bounds.start)),
+      trimEndMs: Math.round(toMs(bounds.end)),
+      inputLoudnessLufs: inputLoudness,
+      loudnessLufs: inputLoudness === null ? null : inputLoudness + gainDb,
+      truePeakDb: finiteOrNull(inputPeak + gainDb),
+      gainDb,
+    },
+  };
+}
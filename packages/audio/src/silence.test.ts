@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+
+import { findSoundBounds, sliceAudio } from "./silence";
+
+const SAMPLE_RATE = 16000;
+
+// Silence with a tone between `start` and `end` (in samples)
+const burst = (length: number, start: number, end: number) =>
+  Float32Array.from({ length }, (_, i) =>
+    i >= start && i < end ? 0.5 * Math.sin(i / 3) : 0,
+  );
+
+describe("findSoundBounds", () => {
+  // 10 ms windows are 160 samples, 150 ms of padding is 2400
+  it("keeps the sound plus padding", () => {
+    const audio = {
+      sampleRate: SAMPLE_RATE,
+      channels: [burst(32000, 8000, 24000)],
+    };
+    expect(findSoundBounds(audio)).toEqual({
+      start: 8000 - 2400,
+      end: 24000 + 2400,
+    });
+  });
+
+  it("clamps the padding to the audio", () => {
+    const audio = {
+      sampleRate: SAMPLE_RATE,
+      channels: [burst(16000, 800, 15200)],
+    };
+    expect(findSoundBounds(audio)).toEqual({ start: 0, end: 16000 });
+  });
+
+  it("returns silence whole instead of trimming it to nothing", () => {
+    const audio = {
+      sampleRate: SAMPLE_RATE,
+      channels: [new Float32Array(8000)],
+    };
+    expect(findSoundBounds(audio)).toEqual({ start: 0, end: 8000 });
+  });
+
+  it("treats sound below the threshold as silence", () => {
+    const quiet = burst(32000, 8000, 24000).map((x) => x * 0.001);
+    const audio = { sampleRate: SAMPLE_RATE, channels: [quiet] };
+    expect(findSoundBounds(audio)).toEqual({ start: 0, end: 32000 });
+    expect(findSoundBounds(audio, { thresholdDb: -80 })).toEqual({
+      start: 5600,
+      end: 26400,
+    });
+  });
+
+  it("lets the loudest channel decide", () => {
+    const audio = {
+      sampleRate: SAMPLE_RATE,
+      channels: [burst(32000, 8000, 16000), burst(32000, 16000, 24000)],
+    };
+    expect(findSoundBounds(audio, { paddingMs: 0 })).toEqual({
+      start: 8000,
+      end: 24000,
+    });
+  });
+});
+
+describe("sliceAudio", () => {
+  it("copies the range of every channel", () => {
+    const audio = {
+      sampleRate: 8000,
+      channels: [Float32Array.of(1, 2, 3, 4), Float32Array.of(5, 6, 7, 8)],
+    };
+    const sliced = sliceAudio(audio, { start: 1, end: 3 });
+    expect(sliced).toEqual({
+      sampleRate: 8000,
+      channels: [Float32Array.of(2, 3), Float32Array.of(6, 7)],
+    });
+    sliced.channels[0]![0] = 0;
+    expect(audio.channels[0]![1]).toBe(2);
+  });
+});
@@ -0,0 +1,93 @@
+import type { DecodedAudio } from "./types";
+
+export interface SilenceOptions {
+  /** Windows quieter than this (RMS, dBFS) count as silence */
+  thresholdDb?: number;
+  /** Audio kept around the detected sound so onsets and decays aren't cut */
+  paddingMs?: number;
+  /** Analysis window length */
+  windowMs?: number;
+}
+
+export const DEFAULT_SILENCE_OPTIONS: Required<SilenceOptions> = {
+  thresholdDb: -50,
+  paddingMs: 150,
+  windowMs: 10,
+};
+
+export interface SoundBounds {
+  /** First sample to keep */
+  start: number;
+  /** One past the last sample to keep */
+  end: number;
+}
+
+/**
+ * Finds the span between the leading and trailing silence. Audio that never
+ * rises above the threshold is returned whole rather than trimmed to nothing.
+ */
+export function findSoundBounds(
+  audio: DecodedAudio,
+  options: SilenceOptions = {},
+): SoundBounds {
+  const { thresholdDb, paddingMs, windowMs } = {
+    ...DEFAULT_SILENCE_OPTIONS,
+    ...options,
+  };
+  const length = audio.channels[0]?.length ?? 0;
+  const windowSize = Math.max(
+    1,
+    Math.round((audio.sampleRate * windowMs) / 1000),
+  );
+  const thresholdPower = 10 ** (thresholdDb / 10);
+
+  // The loudest channel decides, so a one-sided stereo take isn't cut
+  const isSound = (start: number) => {
+    const end = Math.min(length, start + windowSize);
+    return audio.channels.some((channel) => {
+      let sum = 0;
+      for (let i = start; i < end; i++) sum += channel[i]! * channel[i]!;
+      return sum / (end - start) > thresholdPower;
+    });
+  };
+
+  let first = -1;
+  for (let start = 0; start < length; start += windowSize) {
+    if (isSound(start)) {
+      first = start;
+      break;
+    }
+  }
+  if (first < 0) return { start: 0, end: length };
+
+  let last = first;
+  for (
+    let start = Math.floor((length - 1) / windowSize) * windowSize;
+    start > first;
+    start -= windowSize
+  ) {
+    if (isSound(start)) {
+      last = start;
+      break;
+    }
+  }
+
+  const padding = Math.round((audio.sampleRate * paddingMs) / 1000);
+  return {
+    start: Math.max(0, first - padding),
+    end: Math.min(length, last + windowSize + padding),
+  };
+}
+
+/**
+ * Copies the given sample range of every channel
+ */
+export function sliceAudio(
+  audio: DecodedAudio,
+  { start, end }: SoundBounds,
+): DecodedAudio {
+  return {
+    sampleRate: audio.sampleRate,
+    channels: audio.channels.map((channel) => channel.slice(start, end)),
+  };
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+
+import type { TranscriptSegment } from "./transcript";
+import { editSegmentText, findWordAt, spreadWords } from "./transcript";
+
+// "the quick brown fox" from 1 s to 3 s, half a second per word
+const segment = (): TranscriptSegment => ({
+  startMs: 1000,
+  endMs: 3000,
+  text: "the quick brown fox",
+  confidence: 0.8,
+  words: ["the", "quick", "brown", "fox"].map((text, i) => ({
+    text,
+    startMs: 1000 + i * 500,
+    endMs: 1500 + i * 500,
+    confidence: 0.8,
+  })),
+});
+
+describe("editSegmentText", () => {
+  it("keeps the timing of words that survive the edit", () => {
+    const edited = editSegmentText(segment(), "The quick, brown fox!");
+    expect(edited.text).toBe("The quick, brown fox!");
+    expect(edited.words.map((word) => [word.text, word.startMs])).toEqual([
+      ["The", 1000],
+      ["quick,", 1500],
+      ["brown", 2000],
+      ["fox!", 2500],
+    ]);
+    expect(edited.confidence).toBe(0.8);
+  });
+
+  it("times replacements over the words they replace", () => {
+    const edited = editSegmentText(segment(), "the quick red fox");
+    expect(edited.words[2]).toEqual({
+      text: "red",
+      startMs: 2000,
+      endMs: 2500,
+      confidence: 1,
+    });
+  });
+
+  it("fits insertions into the gap between their neighbours", () => {
+    const edited = editSegmentText(segment(), "the very quick brown fox");
+    expect(edited.words[1]).toMatchObject({ text: "very", confidence: 1 });
+    expect(edited.words[1]!.startMs).toBe(1500);
+    expect(edited.words[1]!.endMs).toBe(1500);
+    expect(edited.words[2]).toMatchObject({ text: "quick", startMs: 1500 });
+  });
+
+  it("drops deleted words", () => {
+    const edited = editSegmentText(segment(), "the fox");
+    expect(edited.words.map((word) => word.startMs)).toEqual([1000, 2500]);
+  });
+
+  it("spreads edits too long to align over the whole segment", () => {
+    const text = Array.from({ length: 300_000 }, (_, i) => `w${i}`).join(" ");
+    const edited = editSegmentText(segment(), text);
+    expect(edited.words).toHaveLength(300_000);
+    expect(edited.words[0]!.startMs).toBe(1000);
+    expect(edited.words.at(-1)!.endMs).toBe(3000);
+  });
+});
+
+describe("spreadWords", () => {
+  it("splits the span by word length", () => {
+    expect(spreadWords(["a", "bbb"], 0, 400, 1)).toEqual([
+      { text: "a", startMs: 0, endMs: 100, confidence: 1 },
+      { text: "bbb", startMs: 100, endMs: 400, confidence: 1 },
+    ]);
+  });
+});
+
+describe("findWordAt", () => {
+  const segments = [segment(), { ...segment(), startMs: 5000, endMs: 6000 }];
+
+  it("finds the word being spoken", () => {
+    expect(findWordAt(segments, 2100)).toEqual({
+      segmentIndex: 0,
+      wordIndex: 2,
+    });
+  });
+
+  it("returns null outside of words", () => {
+    expect(findWordAt(segments, 500)).toBeNull();
+    expect(findWordAt(segments, 4000)).toBeNull();
+  });
+});
@@ -0,0 +1,191 @@
+export interface TranscriptWord {
+  text: string;
+  startMs: number;
+  endMs: number;
+  /** 0 to 1, 1 for words typed in by a person */
+  confidence: number;
+}
+
+/**
+ * A run of speech. Words are the source of truth for timing; `text` is the
+ * words joined by spaces, kept for display and search.
+ */
+export interface TranscriptSegment {
+  startMs: number;
+  endMs: number;
+  text: string;
+  /** 0 to 1 */
+  confidence: number;
+  words: TranscriptWord[];
+}
+
+export interface TranscriptPosition {
+  segmentIndex: number;
+  wordIndex: number;
+}
+
+export const tokenizeTranscript = (text: string) =>
+  text.split(/\s+/).filter((token) => token.length > 0);
+
+// Case and punctuation don't make a different word
+const normalizeWord = (word: string) =>
+  word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, "");
+
+/**
+ * Times words over a span in proportion to their length, for engines that
+ * only time whole segments and for words added by an edit
+ */
+export function spreadWords(
+  tokens: string[],
+  startMs: number,
+  endMs: number,
+  confidence: number,
+): TranscriptWord[] {
+  const weights = tokens.map((token) => Math.max(1, token.length));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  const span = Math.max(0, endMs - startMs);
+
+  let elapsed = 0;
+  return tokens.map((text, i) => {
+    const wordStartMs = startMs + Math.round((span * elapsed) / total);
+    elapsed += weights[i]!;
+    const wordEndMs = startMs + Math.round((span * elapsed) / total);
+    return { text, startMs: wordStartMs, endMs: wordEndMs, confidence };
+  });
+}
+
+// The alignment table has a cell per old and new word pair
+const MAX_ALIGNMENT_CELLS = 1_000_000;
+
+/**
+ * Applies edited text to a segment without losing its timing. Words that
+ * survive the edit (matched ignoring case and punctuation) keep their times
+ * and confidence and take the new spelling. New words take over the span of
+ * the words they replace, or the gap between their neighbours when nothing
+ * was replaced, and get a confidence of 1.
+ *
+ * Edits too long to align are spread over the whole segment instead.
+ */
+export function editSegmentText(
+  segment: TranscriptSegment,
+  text: string,
+): TranscriptSegment {
+  const { words } = segment;
+  const tokens = tokenizeTranscript(text);
+  if ((words.length + 1) * (tokens.length + 1) > MAX_ALIGNMENT_CELLS) {
+    return {
+      startMs: segment.startMs,
+      endMs: segment.endMs,
+      text: tokens.join(" "),
+      confidence: 1,
+      words: spreadWords(tokens, segment.startMs, segment.endMs, 1),
+    };
+  }
+
+  const before = words.map((word) => normalizeWord(word.text));
+  const after = tokens.map(normalizeWord);
+  const isMatch = (i: number, j: number) =>
+    before[i] !== "" && before[i] === after[j];
+
+  // Longest common subsequence of the old and new words, filled from the end
+  const lengths = Array.from(
+    { length: words.length + 1 },
+    () => new Uint32Array(tokens.length + 1),
+  );
+  for (let i = words.length - 1; i >= 0; i--) {
+    for (let j = tokens.length - 1; j >= 0; j--) {
+      lengths[i]![j] = isMatch(i, j)
+        ? lengths[i + 1]![j + 1]! + 1
+        : Math.max(lengths[i + 1]![j]!, lengths[i]![j + 1]!);
+    }
+  }
+
+  const result: TranscriptWord[] = [];
+  let pending: string[] = [];
+  let replacedStart = 0;
+
+  // Times the pending new words over the old words [replacedStart, end)
+  const flush = (end: number) => {
+    if (pending.length > 0) {
+      const startMs =
+        replacedStart < end
+          ? words[replacedStart]!.startMs
+          : (result.at(-1)?.endMs ?? segment.startMs);
+      const endMs =
+        replacedStart < end
+          ? words[end - 1]!.endMs
+          : (words[end]?.startMs ?? segment.endMs);
+      result.push(...spreadWords(pending, startMs, endMs, 1));
+      pending = [];
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < words.length || j < tokens.length) {
+    if (i < words.length && j < tokens.length && isMatch(i, j)) {
+      flush(i);
+      result.push({ ...words[i]!, text: tokens[j]! });
+      i++;
+      j++;
+      replacedStart = i;
+    } else if (
+      j < tokens.length &&
+      (i === words.length || lengths[i]![j + 1]! >= lengths[i + 1]![j]!)
+    ) {
+      pending.push(tokens[j]!);
+      j++;
+    } else {
+      i++;
+    }
+  }
+  flush(words.length);
+
+  return {
+    startMs: segment.startMs,
+    endMs: segment.endMs,
+    text: tokens.join(" "),
+    confidence:
+      result.length > 0
+        ? result.reduce((sum, word) => sum + word.confidence, 0) / result.length
+        : segment.confidence,
+    words: result,
+  };
+}
+
+const findLastStarted = <T extends { startMs: number }>(
+  items: T[],
+  positionMs: number,
+) => {
+  let low = 0;
+  let high = items.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (items[mid]!.startMs <= positionMs) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+};
+
+/**
+ * The word being spoken at a playback position, null between words
+ */
+export function findWordAt(
+  segments: TranscriptSegment[],
+  positionMs: number,
+): TranscriptPosition | null {
+  const segmentIndex = findLastStarted(segments, positionMs);
+  const segment = segments[segmentIndex];
+  if (!segment || positionMs >= segment.endMs) return null;
+
+  const wordIndex = findLastStarted(segment.words, positionMs);
+  const word = segment.words[wordIndex];
+  if (!word || positionMs >= word.endMs) return null;
+
+  return { segmentIndex, wordIndex };
+}
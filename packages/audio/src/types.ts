@@ -0,0 +1,23 @@
+/**
+ * PCM audio decoded into one Float32Array per channel, samples in the -1..1 range
+ */
+export interface DecodedAudio {
+  sampleRate: number;
+  channels: Float32Array[];
+}
+
+/**
+ * Descriptive tags embedded on export, as LIST/INFO in WAV and Vorbis
+ * comments in FLAC
+ */
+export interface AudioMetadata {
+  title?: string;
+  artist?: string;
+  album?: string;
+  genre?: string;
+  comment?: string;
+  /** Creation date, written as YYYY-MM-DD */
+  date?: Date;
+  /** Name of the application that wrote the file */
+  software?: string;
+}
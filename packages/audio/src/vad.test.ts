@@ -0,0 +1,106 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+
+import {
+  createVoiceActivityDetector,
+  detectSpeechSegments,
+  extractVadFeatures,
+} from "./vad";
+import { decodeWav } from "./wav";
+
+// See fixtures/README.md for what each file holds
+const fixture = (name: string) =>
+  decodeWav(readFileSync(new URL(`../fixtures/${name}.wav`, import.meta.url)));
+
+describe("detectSpeechSegments", () => {
+  it("finds nothing in silence", () => {
+    expect(detectSpeechSegments(fixture("silence"))).toEqual([]);
+  });
+
+  it("finds nothing in loud broadband noise", () => {
+    expect(detectSpeechSegments(fixture("noise"))).toEqual([]);
+  });
+
+  it("finds each burst of speech", () => {
+    const segments = detectSpeechSegments(fixture("speech"));
+    expect(segments).toHaveLength(2);
+    const expected = [
+      { startMs: 500, endMs: 1300 },
+      { startMs: 1900, endMs: 2600 },
+    ];
+    segments.forEach((segment, i) => {
+      expect(Math.abs(segment.startMs - expected[i]!.startMs)).toBeLessThan(50);
+      expect(Math.abs(segment.endMs - expected[i]!.endMs)).toBeLessThan(50);
+    });
+  });
+
+  it("bridges pauses shorter than the hangover", () => {
+    const detector = createVoiceActivityDetector({ hangoverMs: 1000 });
+    expect(detectSpeechSegments(fixture("speech"), detector)).toHaveLength(1);
+  });
+});
+
+describe("extractVadFeatures", () => {
+  const rate = 16000;
+  const frame = (fn: (i: number) => number) =>
+    Float32Array.from({ length: 320 }, (_, i) => fn(i));
+
+  it("tells a tone from white noise", () => {
+    let seed = 1;
+    const noise = extractVadFeatures(
+      frame(() => {
+        seed = (seed * 16807) % 2147483647;
+        return seed / 1073741823.5 - 1;
+      }),
+    );
+    const tone = extractVadFeatures(
+      frame((i) => Math.sin((2 * Math.PI * 200 * i) / rate)),
+    );
+    expect(tone.spectralFlatness).toBeLessThan(0.1);
+    expect(noise.spectralFlatness).toBeGreaterThan(0.45);
+    expect(tone.zeroCrossingRate).toBeCloseTo((2 * 200) / rate, 2);
+    expect(noise.zeroCrossingRate).toBeGreaterThan(0.35);
+  });
+
+  it("measures the energy in dBFS", () => {
+    expect(extractVadFeatures(frame(() => 0.5)).energyDb).toBeCloseTo(-6.02);
+    expect(extractVadFeatures(frame(() => 0)).energyDb).toBe(-100);
+  });
+});
+
+describe("createVoiceActivityDetector", () => {
+  it("waits for minSpeechMs before starting and hangoverMs before ending", () => {
+    const detector = createVoiceActivityDetector({
+      minSpeechMs: 40,
+      hangoverMs: 100,
+    });
+    const events: { type: string; timeMs: number }[] = [];
+    const feed = (energyDb: number, fromMs: number, toMs: number) => {
+      for (let t = fromMs; t < toMs; t += 20) {
+        const { event } = detector.process({ energyDb }, t);
+        if (event) events.push(event);
+      }
+    };
+
+    feed(-70, 0, 200);
+    feed(-20, 200, 220);
+    feed(-70, 220, 400);
+    expect(events).toEqual([]);
+
+    feed(-20, 400, 600);
+    feed(-70, 600, 800);
+    expect(events).toEqual([
+      { type: "speech-start", timeMs: 400 },
+      { type: "speech-end", timeMs: 580 },
+    ]);
+  });
+
+  it("absorbs a steady noise source into the noise floor", () => {
+    const detector = createVoiceActivityDetector();
+    let isSpeech = false;
+    for (let t = 0; t < 20_000; t += 20) {
+      isSpeech = detector.process({ energyDb: -30 }, t).isSpeech;
+    }
+    expect(isSpeech).toBe(false);
+  });
+});
@@ -0,0 +1,252 @@
+import type { DecodedAudio } from "./types";
+import { fft, hannWindow } from "./fft";
+
+/**
+ * Per-frame measurements a detector decides on. Only the energy is required,
+ * so sources that just report a level (e.g. native recorder metering) can
+ * drive the same detector.
+ */
+export interface VadFeatures {
+  /** Frame energy in dBFS */
+  energyDb: number;
+  /** Geometric / arithmetic mean of the power spectrum, 0 (tonal) to 1 (white noise) */
+  spectralFlatness?: number;
+  /** Sign changes per sample, 0 to 1 */
+  zeroCrossingRate?: number;
+}
+
+export interface VadEvent {
+  type: "speech-start" | "speech-end";
+  /** Time of the onset / last speech frame, on the clock passed to `process` */
+  timeMs: number;
+}
+
+export interface VadDecision {
+  isSpeech: boolean;
+  /** Current noise floor estimate in dBFS, useful for meters and debugging */
+  noiseFloorDb: number;
+  /** Set on the frame where speech starts or ends */
+  event: VadEvent | null;
+}
+
+/**
+ * Anything that turns a stream of feature frames into speech decisions.
+ * Frames must be fed in chronological order.
+ */
+export interface VoiceActivityDetector {
+  process: (features: VadFeatures, timeMs: number) => VadDecision;
+  reset: () => void;
+}
+
+export interface VadOptions {
+  /** How far above the noise floor a frame must be to count as speech */
+  energyMarginDb?: number;
+  /** Frames quieter than this are never speech, whatever the noise floor */
+  minEnergyDb?: number;
+  /** Noise floor used before the first frames have been seen */
+  initialNoiseFloorDb?: number;
+  /** How fast the noise floor may rise towards louder background noise */
+  noiseFloorRiseDbPerSecond?: number;
+  /** Flatter spectra than this are treated as noise (fans, hiss, keyboard) */
+  maxSpectralFlatness?: number;
+  /** Higher zero-crossing rates than this are treated as noise */
+  maxZeroCrossingRate?: number;
+  /** Speech-like frames needed in a row before speech starts */
+  minSpeechMs?: number;
+  /** How long speech continues after the last speech-like frame */
+  hangoverMs?: number;
+}
+
+/** Shortest window the features are computed over */
+export const VAD_FRAME_MS = 20;
+
+const DEFAULT_VAD_OPTIONS: Required<VadOptions> = {
+  energyMarginDb: 9,
+  minEnergyDb: -60,
+  initialNoiseFloorDb: -60,
+  noiseFloorRiseDbPerSecond: 3,
+  maxSpectralFlatness: 0.45,
+  maxZeroCrossingRate: 0.35,
+  minSpeechMs: 80,
+  hangoverMs: 300,
+};
+
+const SILENCE_DB = -100;
+
+const toDb = (power: number) =>
+  power > 0 ? Math.max(SILENCE_DB, 10 * Math.log10(power)) : SILENCE_DB;
+
+/**
+ * Measures energy, spectral flatness and zero-crossing rate of one frame.
+ * The spectrum uses the largest power-of-two window that fits the frame.
+ */
+export function extractVadFeatures(samples: Float32Array): VadFeatures {
+  const length = samples.length;
+  if (length === 0) {
+    return { energyDb: SILENCE_DB, spectralFlatness: 1, zeroCrossingRate: 0 };
+  }
+
+  let sumSquares = 0;
+  let crossings = 0;
+  for (let i = 0; i < length; i++) {
+    const sample = samples[i]!;
+    sumSquares += sample * sample;
+    if (i > 0 && sample >= 0 !== samples[i - 1]! >= 0) crossings++;
+  }
+
+  let size = 1;
+  while (size * 2 <= length) size *= 2;
+  const window = hannWindow(size);
+  const re = new Float32Array(size);
+  const im = new Float32Array(size);
+  for (let i = 0; i < size; i++) re[i] = samples[i]! * window[i]!;
+  fft(re, im);
+
+  // Skip the DC bin, it says nothing about the signal's texture
+  let logSum = 0;
+  let linearSum = 0;
+  const bins = size / 2;
+  for (let bin = 1; bin <= bins; bin++) {
+    const power = re[bin]! * re[bin]! + im[bin]! * im[bin]! + 1e-12;
+    logSum += Math.log(power);
+    linearSum += power;
+  }
+  const spectralFlatness =
+    bins > 0 ? Math.exp(logSum / bins) / (linearSum / bins) : 1;
+
+  return {
+    energyDb: toDb(sumSquares / length),
+    spectralFlatness,
+    zeroCrossingRate: length > 1 ? crossings / (length - 1) : 0,
+  };
+}
+
+/**
+ * Default detector: a frame is speech-like when it stands out from an
+ * adaptive noise floor and, when the features are available, has a
+ * voiced-sounding spectrum. Speech starts after `minSpeechMs` of such frames
+ * and ends once `hangoverMs` pass without one.
+ */
+export function createVoiceActivityDetector(
+  options: VadOptions = {},
+): VoiceActivityDetector {
+  const config = { ...DEFAULT_VAD_OPTIONS, ...options };
+
+  let noiseFloorDb = config.initialNoiseFloorDb;
+  let isSpeech = false;
+  let lastTimeMs: number | null = null;
+  // Start of the current run of speech-like frames
+  let onsetMs: number | null = null;
+  let lastSpeechMs = 0;
+
+  const isSpeechLike = (features: VadFeatures) => {
+    if (features.energyDb < config.minEnergyDb) return false;
+    if (features.energyDb < noiseFloorDb + config.energyMarginDb) return false;
+    if (
+      features.spectralFlatness !== undefined &&
+      features.spectralFlatness > config.maxSpectralFlatness
+    ) {
+      return false;
+    }
+    if (
+      features.zeroCrossingRate !== undefined &&
+      features.zeroCrossingRate > config.maxZeroCrossingRate
+    ) {
+      return false;
+    }
+    return true;
+  };
+
+  return {
+    process(features, timeMs) {
+      const elapsedMs = lastTimeMs === null ? 0 : timeMs - lastTimeMs;
+      lastTimeMs = timeMs;
+
+      const speechLike = isSpeechLike(features);
+
+      // The floor drops to quieter frames at once but only creeps up, so the
+      // pauses between words pull it back down while a steady noise source
+      // (a fan switched on mid-take) is absorbed after a few seconds
+      noiseFloorDb = Math.min(
+        features.energyDb,
+        noiseFloorDb + (config.noiseFloorRiseDbPerSecond * elapsedMs) / 1000,
+      );
+
+      let event: VadEvent | null = null;
+      if (speechLike) {
+        onsetMs ??= timeMs;
+        lastSpeechMs = timeMs;
+        if (!isSpeech && timeMs - onsetMs >= config.minSpeechMs) {
+          isSpeech = true;
+          event = { type: "speech-start", timeMs: onsetMs };
+        }
+      } else {
+        onsetMs = null;
+        if (isSpeech && timeMs - lastSpeechMs >= config.hangoverMs) {
+          isSpeech = false;
+          event = { type: "speech-end", timeMs: lastSpeechMs };
+        }
+      }
+
+      return { isSpeech, noiseFloorDb, event };
+    },
+
+    reset() {
+      noiseFloorDb = config.initialNoiseFloorDb;
+      isSpeech = false;
+      lastTimeMs = null;
+      onsetMs = null;
+      lastSpeechMs = 0;
+    },
+  };
+}
+
+export interface SpeechSegment {
+  startMs: number;
+  endMs: number;
+}
+
+/**
+ * Runs a detector over a whole decoded file and returns the speech segments,
+ * e.g. to check detector settings against fixture recordings.
+ * Channels are mixed down to mono first.
+ */
+export function detectSpeechSegments(
+  audio: DecodedAudio,
+  detector: VoiceActivityDetector = createVoiceActivityDetector(),
+  frameMs = VAD_FRAME_MS,
+): SpeechSegment[] {
+  const length = audio.channels[0]?.length ?? 0;
+  const frameSize = Math.max(
+    1,
+    Math.round((audio.sampleRate * frameMs) / 1000),
+  );
+  const frame = new Float32Array(frameSize);
+  const segments: SpeechSegment[] = [];
+  let startMs: number | null = null;
+
+  detector.reset();
+  for (let offset = 0; offset + frameSize <= length; offset += frameSize) {
+    frame.fill(0);
+    for (const channel of audio.channels) {
+      for (let i = 0; i < frameSize; i++) {
+        frame[i] = frame[i]! + channel[offset + i]! / audio.channels.length;
+      }
+    }
+
+    const timeMs = (offset / audio.sampleRate) * 1000;
+    const { event } = detector.process(extractVadFeatures(frame), timeMs);
+    if (event?.type === "speech-start") startMs = event.timeMs;
+    if (event?.type === "speech-end" && startMs !== null) {
+      segments.push({ startMs, endMs: event.timeMs + frameMs });
+      startMs = null;
+    }
+  }
+
+  // Speech still running at the end of the file
+  if (startMs !== null) {
+    segments.push({ startMs, endMs: (length / audio.sampleRate) * 1000 });
+  }
+
+  return segments;
+}
@@ -0,0 +1,80 @@
+import type { VadDecision } from "./vad";
+
+export interface VoiceTriggerOptions {
+  /** Audio kept from before the detected onset, so the first word isn't clipped */
+  preRollMs?: number;
+  /** Silence after the last speech frame that ends the take */
+  silenceTimeoutMs?: number;
+}
+
+export const DEFAULT_VOICE_TRIGGER_OPTIONS: Required<VoiceTriggerOptions> = {
+  preRollMs: 500,
+  silenceTimeoutMs: 2000,
+};
+
+export type VoiceTriggerState = "armed" | "recording" | "stopped";
+
+export type VoiceTriggerAction =
+  /** Commit audio from `timeMs` on (the onset minus the pre-roll) */
+  | { type: "start"; timeMs: number }
+  /** The silence timeout elapsed, the take ends at `timeMs` */
+  | { type: "stop"; timeMs: number };
+
+export interface VoiceTrigger {
+  readonly state: VoiceTriggerState;
+  process: (decision: VadDecision, timeMs: number) => VoiceTriggerAction | null;
+  reset: () => void;
+}
+
+/**
+ * Hands-free recording on top of a voice activity detector. Starts armed,
+ * begins a take on the first speech onset and ends it once speech has been
+ * absent for the silence timeout. Times share the clock fed to the detector.
+ */
+export function createVoiceTrigger(
+  options: VoiceTriggerOptions = {},
+): VoiceTrigger {
+  const config = { ...DEFAULT_VOICE_TRIGGER_OPTIONS, ...options };
+
+  let state: VoiceTriggerState = "armed";
+  let lastSpeechMs = 0;
+
+  return {
+    get state() {
+      return state;
+    },
+
+    process(decision, timeMs) {
+      if (state === "armed") {
+        if (decision.event?.type !== "speech-start") return null;
+        state = "recording";
+        lastSpeechMs = timeMs;
+        return {
+          type: "start",
+          timeMs: Math.max(0, decision.event.timeMs - config.preRollMs),
+        };
+      }
+
+      if (state === "recording") {
+        if (decision.isSpeech) {
+          lastSpeechMs = timeMs;
+          return null;
+        }
+        if (decision.event?.type === "speech-end") {
+          lastSpeechMs = decision.event.timeMs;
+        }
+        if (timeMs - lastSpeechMs >= config.silenceTimeoutMs) {
+          state = "stopped";
+          return { type: "stop", timeMs };
+        }
+      }
+
+      return null;
+    },
+
+    reset() {
+      state = "armed";
+      lastSpeechMs = 0;
+    },
+  };
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+
+import { decodeWav, encodeWav, isWav } from "./wav";
+
+const tone = (length: number) =>
+  Float32Array.from({ length }, (_, i) => Math.sin(i / 4) * 0.5);
+
+// A RIFF/WAVE header whose fmt chunk holds exactly `fmt`
+function wavWithFmt(fmt: Uint8Array) {
+  const bytes = new Uint8Array(12 + 8 + fmt.length + 8 + 4);
+  const view = new DataView(bytes.buffer);
+  const tag = (offset: number, text: string) =>
+    bytes.set(new TextEncoder().encode(text), offset);
+  tag(0, "RIFF");
+  view.setUint32(4, bytes.length - 8, true);
+  tag(8, "WAVE");
+  tag(12, "fmt ");
+  view.setUint32(16, fmt.length, true);
+  bytes.set(fmt, 20);
+  tag(20 + fmt.length, "data");
+  view.setUint32(24 + fmt.length, 4, true);
+  return bytes;
+}
+
+// A 16-byte PCM fmt body for mono 8 kHz audio
+function fmtBody({ sampleRate = 8000, bitsPerSample = 16 } = {}) {
+  const view = new DataView(new ArrayBuffer(16));
+  view.setUint16(0, 1, true);
+  view.setUint16(2, 1, true);
+  view.setUint32(4, sampleRate, true);
+  view.setUint32(8, (sampleRate * bitsPerSample) / 8, true);
+  view.setUint16(12, bitsPerSample / 8, true);
+  view.setUint16(14, bitsPerSample, true);
+  return new Uint8Array(view.buffer);
+}
+
+describe("decodeWav", () => {
+  it.each(["pcm16", "pcm24", "float32"] as const)(
+    "round-trips %s audio",
+    (sampleFormat) => {
+      const audio = { sampleRate: 22050, channels: [tone(100), tone(100)] };
+      const decoded = decodeWav(encodeWav(audio, { sampleFormat }));
+
+      expect(decoded.sampleRate).toBe(22050);
+      expect(decoded.channels).toHaveLength(2);
+      const tolerance = sampleFormat === "pcm16" ? 1e-4 : 1e-6;
+      decoded.channels[1]!.forEach((sample, i) => {
+        expect(Math.abs(sample - audio.channels[1]![i]!)).toBeLessThan(
+          tolerance,
+        );
+      });
+    },
+  );
+
+  it("skips a LIST chunk ahead of the data", () => {
+    const bytes = encodeWav(
+      { sampleRate: 8000, channels: [tone(10)] },
+      { metadata: { title: "Odd" } },
+    );
+    expect(decodeWav(bytes).channels[0]).toHaveLength(10);
+  });
+
+  it("rejects files that are not RIFF/WAVE", () => {
+    expect(isWav(new Uint8Array(4))).toBe(false);
+    expect(() => decodeWav(new TextEncoder().encode("RIFF....AVI "))).toThrow(
+      "Not a RIFF/WAVE file",
+    );
+  });
+
+  it("rejects a truncated fmt chunk", () => {
+    expect(() => decodeWav(wavWithFmt(fmtBody().slice(0, 8)))).toThrow(
+      "WAV fmt chunk is truncated",
+    );
+  });
+
+  it("rejects a zero sample size", () => {
+    expect(() => decodeWav(wavWithFmt(fmtBody({ bitsPerSample: 0 })))).toThrow(
+      "Unsupported WAV encoding",
+    );
+  });
+
+  it("rejects a missing sample rate", () => {
+    expect(() => decodeWav(wavWithFmt(fmtBody({ sampleRate: 0 })))).toThrow(
+      "WAV file has no sample rate",
+    );
+  });
+});
@@ -0,0 +1,283 @@
+import type { AudioMetadata, DecodedAudio } from "./types";
+import { quantizeSample } from "./convert";
+import { metadataEntries } from "./metadata";
+
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+const readTag = (view: DataView, offset: number) =>
+  String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3),
+  );
+
+/**
+ * Returns true if the bytes start with a RIFF/WAVE header
+ */
+export function isWav(bytes: Uint8Array) {
+  if (bytes.byteLength < 12) return false;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return readTag(view, 0) === "RIFF" && readTag(view, 8) === "WAVE";
+}
+
+/**
+ * Decodes a RIFF/WAVE file into de-interleaved float channels in the -1..1 range.
+ * Supports 8/16/24/32-bit integer PCM and 32/64-bit IEEE float, including
+ * WAVE_FORMAT_EXTENSIBLE headers.
+ */
+export function decodeWav(bytes: Uint8Array): DecodedAudio {
+  if (!isWav(bytes)) throw new Error("Not a RIFF/WAVE file");
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  let format: number | null = null;
+  let channelCount = 0;
+  let sampleRate = 0;
+  let bitsPerSample = 0;
+  let dataOffset = -1;
+  let dataLength = 0;
+
+  // Walk the chunk list; chunks are word aligned
+  let offset = 12;
+  while (offset + 8 <= view.byteLength) {
+    const id = readTag(view, offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === "fmt ") {
+      if (size < 16 || body + 16 > view.byteLength) {
+        throw new Error("WAV fmt chunk is truncated");
+      }
+      format = view.getUint16(body, true);
+      channelCount = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+      bitsPerSample = view.getUint16(body + 14, true);
+      if (
+        format === WAVE_FORMAT_EXTENSIBLE &&
+        size >= 40 &&
+        body + 40 <= view.byteLength
+      ) {
+        // The first two bytes of the SubFormat GUID carry the actual format tag
+        format = view.getUint16(body + 24, true);
+      }
+    } else if (id === "data") {
+      dataOffset = body;
+      // Streaming writers may leave the size at 0 or 0xffffffff
+      dataLength =
+        size === 0 || body + size > view.byteLength
+          ? view.byteLength - body
+          : size;
+      break;
+    }
+
+    offset = body + size + (size % 2);
+  }
+
+  if (format === null) throw new Error("WAV file has no fmt chunk");
+  if (dataOffset < 0) throw new Error("WAV file has no data chunk");
+  if (channelCount < 1) throw new Error("WAV file has no channels");
+  if (sampleRate < 1) throw new Error("WAV file has no sample rate");
+
+  const bytesPerSample = bitsPerSample / 8;
+  const readSample = createSampleReader(view, format, bitsPerSample);
+
+  const frameSize = bytesPerSample * channelCount;
+  const frameCount = Math.floor(dataLength / frameSize);
+  const channels = Array.from(
+    { length: channelCount },
+    () => new Float32Array(frameCount),
+  );
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    const frameOffset = dataOffset + frame * frameSize;
+    for (let c = 0; c < channelCount; c++) {
+      channels[c]![frame] = readSample(frameOffset + c * bytesPerSample);
+    }
+  }
+
+  return { sampleRate, channels };
+}
+
+function createSampleReader(
+  view: DataView,
+  format: number,
+  bitsPerSample: number,
+): (offset: number) => number {
+  if (format === WAVE_FORMAT_IEEE_FLOAT) {
+    if (bitsPerSample === 32) return (o) => view.getFloat32(o, true);
+    if (bitsPerSample === 64) return (o) => view.getFloat64(o, true);
+  }
+
+  if (format === WAVE_FORMAT_PCM) {
+    switch (bitsPerSample) {
+      case 8:
+        // 8-bit WAV is unsigned
+        return (o) => (view.getUint8(o) - 128) / 128;
+      case 16:
+        return (o) => view.getInt16(o, true) / 32768;
+      case 24:
+        return (o) => {
+          const value =
+            view.getUint8(o) |
+            (view.getUint8(o + 1) << 8) |
+            (view.getInt8(o + 2) << 16);
+          return value / 8388608;
+        };
+      case 32:
+        return (o) => view.getInt32(o, true) / 2147483648;
+    }
+  }
+
+  throw new Error(
+    `Unsupported WAV encoding (format ${format}, ${bitsPerSample}-bit)`,
+  );
+}
+
+export type WavSampleFormat = "pcm16" | "pcm24" | "float32";
+
+export interface WavEncodeOptions {
+  /** Defaults to 16-bit PCM */
+  sampleFormat?: WavSampleFormat;
+  /** Written as a LIST/INFO chunk */
+  metadata?: AudioMetadata;
+}
+
+const INFO_TAGS: Record<keyof AudioMetadata, string> = {
+  title: "INAM",
+  artist: "IART",
+  album: "IPRD",
+  genre: "IGNR",
+  comment: "ICMT",
+  date: "ICRD",
+  software: "ISFT",
+};
+
+const textEncoder = new TextEncoder();
+
+// LIST/INFO body: the "INFO" tag followed by NUL-terminated, word aligned
+// text chunks
+function encodeInfoChunk(metadata: AudioMetadata) {
+  const entries = metadataEntries(metadata).map(
+    ([field, text]) => [INFO_TAGS[field], textEncoder.encode(text)] as const,
+  );
+  if (entries.length === 0) return null;
+
+  const size = entries.reduce(
+    (total, [, text]) => total + 8 + text.length + 1 + ((text.length + 1) % 2),
+    4,
+  );
+  const bytes = new Uint8Array(size);
+  const view = new DataView(bytes.buffer);
+  writeTag(view, 0, "INFO");
+
+  let offset = 4;
+  for (const [tag, text] of entries) {
+    writeTag(view, offset, tag);
+    view.setUint32(offset + 4, text.length + 1, true);
+    bytes.set(text, offset + 8);
+    // The terminator and padding are already zero
+    offset += 8 + text.length + 1 + ((text.length + 1) % 2);
+  }
+
+  return bytes;
+}
+
+function writeTag(view: DataView, offset: number, tag: string) {
+  for (let i = 0; i < 4; i++) view.setUint8(offset + i, tag.charCodeAt(i));
+}
+
+/**
+ * Encodes audio as a RIFF/WAVE file: 16 or 24-bit integer PCM, or 32-bit
+ * IEEE float (which keeps samples outside -1..1 intact).
+ */
+export function encodeWav(
+  audio: DecodedAudio,
+  options: WavEncodeOptions = {},
+): Uint8Array {
+  const { sampleFormat = "pcm16", metadata } = options;
+  const isFloat = sampleFormat === "float32";
+  const bitsPerSample =
+    sampleFormat === "pcm16" ? 16 : sampleFormat === "pcm24" ? 24 : 32;
+  const bytesPerSample = bitsPerSample / 8;
+
+  const channelCount = audio.channels.length;
+  if (channelCount < 1) throw new Error("Cannot encode audio without channels");
+  const frameCount = audio.channels[0]!.length;
+  const blockAlign = channelCount * bytesPerSample;
+  const dataSize = frameCount * blockAlign;
+
+  const info = metadata ? encodeInfoChunk(metadata) : null;
+
+  // Non-PCM formats carry a cbSize field and a fact chunk with the frame count
+  const fmtSize = isFloat ? 18 : 16;
+  const size =
+    12 +
+    (8 + fmtSize) +
+    (isFloat ? 12 : 0) +
+    (info ? 8 + info.length : 0) +
+    8 +
+    dataSize +
+    (dataSize % 2);
+
+  const bytes = new Uint8Array(size);
+  const view = new DataView(bytes.buffer);
+
+  writeTag(view, 0, "RIFF");
+  view.setUint32(4, size - 8, true);
+  writeTag(view, 8, "WAVE");
+
+  let offset = 12;
+  writeTag(view, offset, "fmt ");
+  view.setUint32(offset + 4, fmtSize, true);
+  view.setUint16(
+    offset + 8,
+    isFloat ? WAVE_FORMAT_IEEE_FLOAT : WAVE_FORMAT_PCM,
+    true,
+  );
+  view.setUint16(offset + 10, channelCount, true);
+  view.setUint32(offset + 12, audio.sampleRate, true);
+  view.setUint32(offset + 16, audio.sampleRate * blockAlign, true);
+  view.setUint16(offset + 20, blockAlign, true);
+  view.setUint16(offset + 22, bitsPerSample, true);
+  offset += 8 + fmtSize;
+
+  if (isFloat) {
+    writeTag(view, offset, "fact");
+    view.setUint32(offset + 4, 4, true);
+    view.setUint32(offset + 8, frameCount, true);
+    offset += 12;
+  }
+
+  if (info) {
+    writeTag(view, offset, "LIST");
+    view.setUint32(offset + 4, info.length, true);
+    bytes.set(info, offset + 8);
+    offset += 8 + info.length;
+  }
+
+  writeTag(view, offset, "data");
+  view.setUint32(offset + 4, dataSize, true);
+  offset += 8;
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    for (const channel of audio.channels) {
+      const sample = channel[frame]!;
+      if (isFloat) {
+        view.setFloat32(offset, sample, true);
+      } else if (bitsPerSample === 16) {
+        view.setInt16(offset, quantizeSample(sample, 16), true);
+      } else {
+        const value = quantizeSample(sample, 24);
+        view.setUint8(offset, value & 0xff);
+        view.setUint8(offset + 1, (value >> 8) & 0xff);
+        view.setUint8(offset + 2, (value >> 16) & 0xff);
+      }
+      offset += bytesPerSample;
+    }
+  }
+
+  return bytes;
+}
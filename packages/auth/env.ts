@@ -7,6 +7,19 @@ export const env = createEnv({
       process.env.NODE_ENV === "production"
         ? z.string().min(1)
         : z.string().min(1).optional(),
+    // OAuth providers are offered only when both their id and secret are set
+    AUTH_DISCORD_ID: z.string().min(1).optional(),
+    AUTH_DISCORD_SECRET: z.string().min(1).optional(),
+    AUTH_GITHUB_ID: z.string().min(1).optional(),
+    AUTH_GITHUB_SECRET: z.string().min(1).optional(),
+    AUTH_GOOGLE_ID: z.string().min(1).optional(),
+    AUTH_GOOGLE_SECRET: z.string().min(1).optional(),
+    /**
+     * Proxies in front of the app that append to `x-forwarded-for`. The
+     * client IP is the entry the outermost of them added; anything to its
+     * left was sent by the client and can't be trusted.
+     */
+    AUTH_TRUSTED_PROXY_HOPS: z.coerce.number().int().min(1).default(1),
     NODE_ENV: z.enum(["development", "production"]).optional(),
   },
   client: {},
@@ -3,13 +3,22 @@ import type {
   NextAuthConfig,
   Session as NextAuthSession,
 } from "next-auth";
+import { headers } from "next/headers";
 import { skipCSRFCheck } from "@auth/core";
 import { DrizzleAdapter } from "@auth/drizzle-adapter";
 
 import { db } from "@vibespeak/db/client";
-import { Account, Session, User } from "@vibespeak/db/schema";
+import {
+  Account,
+  AuditEvent,
+  Session,
+  User,
+  VerificationToken,
+} from "@vibespeak/db/schema";
+import { createLogger } from "@vibespeak/logger";
 
 import { env } from "../env";
+import { providers } from "./providers";
 
 declare module "next-auth" {
   interface Session {
@@ -24,11 +33,40 @@ const adapter = DrizzleAdapter(db, {
   usersTable: User,
   accountsTable: Account,
   sessionsTable: Session,
-  // Audio TODO.
+  verificationTokensTable: VerificationToken,
 });
 
 export const isSecureContext = env.NODE_ENV !== "development";
 
+const logger = createLogger();
+
+/**
+ * Adds a sign-in or sign-out to the audit log, like the API does for
+ * mutations. A failed write is logged, never blocking the sign-in.
+ */
+async function recordAuthEvent(
+  action: string,
+  userId: string | null,
+  metadata: Record<string, unknown> = {},
+) {
+  try {
+    // Events fired outside a request (there are none today) have no IP
+    const ipAddress = await headers()
+      .then((requestHeaders) => getClientIp(requestHeaders)?.slice(0, 45))
+      .catch(() => null);
+    await db.insert(AuditEvent).values({
+      actorId: userId,
+      action,
+      targetType: "user",
+      targetId: userId,
+      ipAddress,
+      metadata,
+    });
+  } catch (error) {
+    logger.error("Failed to record audit event", { action, userId, error });
+  }
+}
+
 export const authConfig = {
   adapter,
   // In development, we need to skip checks to allow Expo to work
@@ -39,7 +77,19 @@ export const authConfig = {
       }
     : {}),
   secret: env.AUTH_SECRET,
-  providers: [],
+  providers,
+  events: {
+    signIn: ({ user, account, isNewUser }) =>
+      recordAuthEvent("auth.signIn", user.id ?? null, {
+        provider: account?.provider ?? null,
+        isNewUser: isNewUser ?? false,
+      }),
+    signOut: (message) =>
+      recordAuthEvent(
+        "auth.signOut",
+        "session" in message ? (message.session?.userId ?? null) : null,
+      ),
+  },
   callbacks: {
     session: (opts) => {
       if (!("user" in opts))
@@ -71,6 +121,65 @@ export const validateToken = async (
     : null;
 };
 
+// Auth.js adds the __Secure- prefix when it sets the cookie over https
+const SESSION_COOKIE_NAMES = [
+  "__Secure-authjs.session-token",
+  "authjs.session-token",
+];
+
+/**
+ * The value of one cookie of a request. Only that cookie is decoded, and a
+ * value that isn't valid URI encoding counts as missing.
+ */
+export const readCookie = (headers: Headers, name: string) => {
+  for (const pair of headers.get("cookie")?.split(";") ?? []) {
+    const [key, ...value] = pair.trim().split("=");
+    if (key !== name) continue;
+    try {
+      return decodeURIComponent(value.join("="));
+    } catch {
+      return null;
+    }
+  }
+  return null;
+};
+
+/**
+ * The raw session token behind a request: the Bearer token the Expo app
+ * sends, or the session cookie of the web app
+ */
+export const getSessionToken = (headers: Headers) => {
+  const authorization = headers.get("Authorization");
+  if (authorization?.startsWith("Bearer ")) {
+    return authorization.slice("Bearer ".length);
+  }
+
+  for (const name of SESSION_COOKIE_NAMES) {
+    const token = readCookie(headers, name);
+    if (token) return token;
+  }
+  return null;
+};
+
+/**
+ * The client IP as seen by the outermost trusted proxy: the
+ * `AUTH_TRUSTED_PROXY_HOPS`-th entry of `x-forwarded-for` from the right.
+ * Entries left of it are whatever the client sent, so they're never used.
+ */
+export const getClientIp = (headers: Headers) => {
+  const forwardedFor = headers
+    .get("x-forwarded-for")
+    ?.split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  const hop = forwardedFor?.length
+    ? forwardedFor[
+        Math.max(0, forwardedFor.length - env.AUTH_TRUSTED_PROXY_HOPS)
+      ]
+    : undefined;
+  return hop ?? headers.get("x-real-ip");
+};
+
 export const invalidateSessionToken = async (token: string) => {
   const sessionToken = token.slice("Bearer ".length);
   await adapter.deleteSession?.(sessionToken);
@@ -16,6 +16,8 @@ const auth = cache(defaultAuth);
 export { handlers, auth, signIn, signOut };
 
 export {
+  getClientIp,
+  getSessionToken,
   invalidateSessionToken,
   validateToken,
   isSecureContext,
@@ -9,7 +9,10 @@ const { handlers, auth, signIn, signOut } = NextAuth(authConfig);
 export { handlers, auth, signIn, signOut };
 
 export {
+  getClientIp,
+  getSessionToken,
   invalidateSessionToken,
+  readCookie,
   validateToken,
   isSecureContext,
 } from "./config";
@@ -0,0 +1,69 @@
+import type { Provider } from "next-auth/providers";
+import Discord from "next-auth/providers/discord";
+import GitHub from "next-auth/providers/github";
+import Google from "next-auth/providers/google";
+
+import { sendMail } from "@vibespeak/mail";
+
+import { env } from "../env";
+
+/** How long an email sign-in link stays valid */
+const MAGIC_LINK_MAX_AGE_SECONDS = 15 * 60;
+
+/**
+ * Email sign-in: Auth.js stores a hashed one-time token in the
+ * `verification_token` table and we mail the link through the configured
+ * transport, which only logs it in development.
+ */
+const magicLink: Provider = {
+  id: "email",
+  type: "email",
+  name: "Email",
+  maxAge: MAGIC_LINK_MAX_AGE_SECONDS,
+  async sendVerificationRequest({ identifier, url }) {
+    const { host } = new URL(url);
+    await sendMail({
+      to: identifier,
+      subject: `Sign in to ${host}`,
+      text: [
+        `Use the link below to sign in to ${host}.`,
+        "",
+        url,
+        "",
+        `It expires in ${MAGIC_LINK_MAX_AGE_SECONDS / 60} minutes. If you didn't ask for it, you can ignore this email.`,
+      ].join("\n"),
+    });
+  },
+};
+
+/**
+ * The providers users can sign in with. OAuth providers are registered only
+ * when their credentials are configured; email links are always available.
+ */
+export const providers: Provider[] = [
+  ...(env.AUTH_DISCORD_ID && env.AUTH_DISCORD_SECRET
+    ? [
+        Discord({
+          clientId: env.AUTH_DISCORD_ID,
+          clientSecret: env.AUTH_DISCORD_SECRET,
+        }),
+      ]
+    : []),
+  ...(env.AUTH_GITHUB_ID && env.AUTH_GITHUB_SECRET
+    ? [
+        GitHub({
+          clientId: env.AUTH_GITHUB_ID,
+          clientSecret: env.AUTH_GITHUB_SECRET,
+        }),
+      ]
+    : []),
+  ...(env.AUTH_GOOGLE_ID && env.AUTH_GOOGLE_SECRET
+    ? [
+        Google({
+          clientId: env.AUTH_GOOGLE_ID,
+          clientSecret: env.AUTH_GOOGLE_SECRET,
+        }),
+      ]
+    : []),
+  magicLink,
+];
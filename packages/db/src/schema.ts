@@ -1,5 +1,32 @@
-import { relations } from "drizzle-orm";
-import { pgTable, primaryKey } from "drizzle-orm/pg-core";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
+import { relations, sql } from "drizzle-orm";
+import {
+  customType,
+  index,
+  pgTable,
+  primaryKey,
+  uniqueIndex,
+} from "drizzle-orm/pg-core";
+import { z } from "zod";
+
+import type {
+  PostProcessOptions,
+  TranscriptSegment,
+  WaveformLevel,
+} from "@vibespeak/audio";
+
+/**
+ * Full-text search document, generated by Postgres from other columns.
+ * Weights rank title over notes over transcript matches.
+ */
+const tsvector = customType<{ data: string }>({
+  dataType: () => "tsvector",
+});
+
+export const PlanSchema = z.enum(["free", "pro"]);
+
+/** Billing plan of a user or workspace, which sets its usage limits */
+export type Plan = z.infer<typeof PlanSchema>;
 
 export const User = pgTable("user", (t) => ({
   id: t.uuid().notNull().primaryKey().defaultRandom(),
@@ -7,10 +34,16 @@ export const User = pgTable("user", (t) => ({
   email: t.varchar({ length: 255 }).notNull(),
   emailVerified: t.timestamp({ mode: "date", withTimezone: true }),
   image: t.varchar({ length: 255 }),
+  plan: t.varchar({ length: 32 }).$type<Plan>().default("free").notNull(),
 }));
 
 export const UserRelations = relations(User, ({ many }) => ({
   accounts: many(Account),
+  apiKeys: many(ApiKey),
+  sessions: many(Session),
+  memberships: many(Membership),
+  recordings: many(Recording),
+  usageEvents: many(UsageEvent),
 }));
 
 export const Account = pgTable(
@@ -41,15 +74,806 @@ export const AccountRelations = relations(Account, ({ one }) => ({
   user: one(User, { fields: [Account.userId], references: [User.id] }),
 }));
 
-export const Session = pgTable("session", (t) => ({
-  sessionToken: t.varchar({ length: 255 }).notNull().primaryKey(),
+/**
+ * Signed-in devices. Auth.js owns the token and expiry; the device details
+ * are filled in by the API as requests come in, so users can tell their
+ * sessions apart without ever seeing a token.
+ */
+export const Session = pgTable(
+  "session",
+  (t) => ({
+    sessionToken: t.varchar({ length: 255 }).notNull().primaryKey(),
+    // Public handle for the session, the token must never leave the server
+    id: t.uuid().notNull().defaultRandom(),
+    userId: t
+      .uuid()
+      .notNull()
+      .references(() => User.id, { onDelete: "cascade" }),
+    expires: t.timestamp({ mode: "date", withTimezone: true }).notNull(),
+    userAgent: t.text(),
+    // The client's `x-trpc-source`, e.g. `expo-react`
+    platform: t.varchar({ length: 64 }),
+    ipAddress: t.varchar({ length: 45 }),
+    lastSeenAt: t.timestamp({ mode: "date", withTimezone: true }),
+    createdAt: t
+      .timestamp({ mode: "date", withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  }),
+  (t) => [uniqueIndex().on(t.id), index().on(t.userId)],
+);
+
+export const SessionRelations = relations(Session, ({ one }) => ({
+  user: one(User, { fields: [Session.userId], references: [User.id] }),
+}));
+
+/** One-time tokens behind email sign-in links, stored hashed by Auth.js */
+export const VerificationToken = pgTable(
+  "verification_token",
+  (t) => ({
+    identifier: t.varchar({ length: 255 }).notNull(),
+    token: t.varchar({ length: 255 }).notNull(),
+    expires: t.timestamp({ mode: "date", withTimezone: true }).notNull(),
+  }),
+  (t) => [primaryKey({ columns: [t.identifier, t.token] })],
+);
+
+export const Recording = pgTable(
+  "recording",
+  (t) => ({
+    id: t.uuid().notNull().primaryKey().defaultRandom(),
+    userId: t
+      .uuid()
+      .notNull()
+      .references(() => User.id, { onDelete: "cascade" }),
+    // Set for recordings owned by a workspace; `userId` is then the creator
+    workspaceId: t
+      .uuid()
+      .references(() => Workspace.id, { onDelete: "cascade" }),
+    title: t.varchar({ length: 255 }).notNull(),
+    notes: t.text(),
+    // null = the root folder
+    folderId: t.uuid().references(() => Folder.id, { onDelete: "set null" }),
+    durationMs: t.integer().notNull(),
+    mimeType: t.varchar({ length: 255 }).notNull(),
+    sampleRate: t.integer(),
+    channelCount: t.integer(),
+    byteSize: t.integer().notNull(),
+    storageKey: t.varchar({ length: 1024 }),
+    // Post-processing (silence trim + loudness normalization). The processed
+    // WAV is stored separately so the upload can be processed again.
+    processedStorageKey: t.varchar({ length: 1024 }),
+    trimStartMs: t.integer(),
+    trimEndMs: t.integer(),
+    loudnessLufs: t.real(),
+    truePeakDb: t.real(),
+    gainDb: t.real(),
+    searchVector: tsvector().generatedAlwaysAs(
+      sql`setweight(to_tsvector('english', coalesce(title, '')), 'A') || setweight(to_tsvector('english', coalesce(notes, '')), 'B')`,
+    ),
+    createdAt: t
+      .timestamp({ mode: "date", withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: t
+      .timestamp({ mode: "date", withTimezone: true })
+      .defaultNow()
+      .notNull()
+      .$onUpdateFn(() => new Date()),
+  }),
+  (t) => [
+    index().on(t.userId, t.createdAt, t.id),
+    index().on(t.workspaceId, t.createdAt, t.id),
+    index().on(t.folderId),
+    index().using("gin", t.searchVector),
+  ],
+);
+
+export const RecordingRelations = relations(Recording, ({ one, many }) => ({
+  user: one(User, { fields: [Recording.userId], references: [User.id] }),
+  workspace: one(Workspace, {
+    fields: [Recording.workspaceId],
+    references: [Workspace.id],
+  }),
+  folder: one(Folder, {
+    fields: [Recording.folderId],
+    references: [Folder.id],
+  }),
+  tags: many(RecordingTag),
+  shares: many(RecordingShare),
+  waveform: one(RecordingWaveform),
+  transcript: one(RecordingTranscript),
+  transcriptionJobs: many(TranscriptionJob),
+  postProcessJobs: many(PostProcessJob),
+}));
+
+/**
+ * Multi-resolution min/max peaks, kept out of `recording` so list queries
+ * don't drag the arrays along.
+ */
+export const RecordingWaveform = pgTable("recording_waveform", (t) => ({
+  recordingId: t
+    .uuid()
+    .notNull()
+    .primaryKey()
+    .references(() => Recording.id, { onDelete: "cascade" }),
+  sampleRate: t.integer().notNull(),
+  length: t.integer().notNull(),
+  levels: t.jsonb().$type<WaveformLevel[]>().notNull(),
+  createdAt: t
+    .timestamp({ mode: "date", withTimezone: true })
+    .defaultNow()
+    .notNull(),
+}));
+
+export const RecordingWaveformRelations = relations(
+  RecordingWaveform,
+  ({ one }) => ({
+    recording: one(Recording, {
+      fields: [RecordingWaveform.recordingId],
+      references: [Recording.id],
+    }),
+  }),
+);
+
+/** Measurements of a recording that was post-processed on the client */
+export const RecordingAnalysisSchema = z.object({
+  trimStartMs: z.number().int().nonnegative().nullish(),
+  trimEndMs: z.number().int().nonnegative().nullish(),
+  loudnessLufs: z.number().nullish(),
+  truePeakDb: z.number().nullish(),
+  gainDb: z.number().nullish(),
+});
+
+export const CreateRecordingSchema = z
+  .object({
+    title: z.string().min(1).max(255),
+    notes: z.string().max(10_000).nullish(),
+    folderId: z.string().uuid().nullish(),
+    // Creates the recording in a workspace, which needs the editor role
+    workspaceId: z.string().uuid().nullish(),
+    durationMs: z.number().int().nonnegative(),
+    mimeType: z.string().min(1).max(255),
+    sampleRate: z.number().int().positive().nullish(),
+    channelCount: z.number().int().positive().nullish(),
+  })
+  .merge(RecordingAnalysisSchema);
+
+export const UpdateRecordingSchema = z.object({
+  id: z.string().uuid(),
+  title: z.string().min(1).max(255).optional(),
+  notes: z.string().max(10_000).nullish(),
+});
+
+/**
+ * A resumable, chunked upload. Chunks live in storage until the upload is
+ * finalized into a `recording` or aborted.
+ */
+export const RecordingUpload = pgTable("recording_upload", (t) => ({
+  id: t.uuid().notNull().primaryKey().defaultRandom(),
   userId: t
     .uuid()
     .notNull()
     .references(() => User.id, { onDelete: "cascade" }),
-  expires: t.timestamp({ mode: "date", withTimezone: true }).notNull(),
+  status: t
+    .varchar({ length: 32 })
+    // `finalizing` while a finalize assembles the chunks
+    .$type<"pending" | "finalizing" | "completed" | "aborted">()
+    .default("pending")
+    .notNull(),
+  title: t.varchar({ length: 255 }).notNull(),
+  notes: t.text(),
+  workspaceId: t.uuid().references(() => Workspace.id, { onDelete: "cascade" }),
+  folderId: t.uuid().references(() => Folder.id, { onDelete: "set null" }),
+  mimeType: t.varchar({ length: 255 }).notNull(),
+  durationMs: t.integer().notNull(),
+  sampleRate: t.integer(),
+  channelCount: t.integer(),
+  totalBytes: t.integer().notNull(),
+  chunkSize: t.integer().notNull(),
+  recordingId: t
+    .uuid()
+    .references(() => Recording.id, { onDelete: "set null" }),
+  expiresAt: t.timestamp({ mode: "date", withTimezone: true }).notNull(),
+  createdAt: t
+    .timestamp({ mode: "date", withTimezone: true })
+    .defaultNow()
+    .notNull(),
+  updatedAt: t
+    .timestamp({ mode: "date", withTimezone: true })
+    .defaultNow()
+    .notNull()
+    .$onUpdateFn(() => new Date()),
 }));
 
-export const SessionRelations = relations(Session, ({ one }) => ({
-  user: one(User, { fields: [Session.userId], references: [User.id] }),
+// Uploads are measured on the server when they are finalized
+export const InitiateUploadSchema = CreateRecordingSchema.omit({
+  trimStartMs: true,
+  trimEndMs: true,
+  loudnessLufs: true,
+  truePeakDb: true,
+  gainDb: true,
+}).extend({
+  totalBytes: z
+    .number()
+    .int()
+    .positive()
+    .max(1024 * 1024 * 1024),
+  chunkSize: z
+    .number()
+    .int()
+    .min(64 * 1024)
+    .max(16 * 1024 * 1024),
+});
+
+export type TranscriptionJobStatus =
+  | "queued"
+  | "processing"
+  | "completed"
+  | "failed";
+
+/**
+ * A request to transcribe a recording with a speech-to-text engine.
+ * Clients poll the job until it is completed or failed. At most one job per
+ * recording is queued or processing at a time.
+ */
+export const TranscriptionJob = pgTable(
+  "transcription_job",
+  (t) => ({
+    id: t.uuid().notNull().primaryKey().defaultRandom(),
+    recordingId: t
+      .uuid()
+      .notNull()
+      .references(() => Recording.id, { onDelete: "cascade" }),
+    userId: t
+      .uuid()
+      .notNull()
+      .references(() => User.id, { onDelete: "cascade" }),
+    status: t
+      .varchar({ length: 32 })
+      .$type<TranscriptionJobStatus>()
+      .default("queued")
+      .notNull(),
+    engine: t.varchar({ length: 64 }).notNull(),
+    // BCP 47 tag, null lets the engine detect the language
+    language: t.varchar({ length: 16 }),
+    // What the request charged, given back if the job fails
+    transcriptionMs: t.integer().default(0).notNull(),
+    error: t.text(),
+    startedAt: t.timestamp({ mode: "date", withTimezone: true }),
+    completedAt: t.timestamp({ mode: "date", withTimezone: true }),
+    createdAt: t
+      .timestamp({ mode: "date", withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: t
+      .timestamp({ mode: "date", withTimezone: true })
+      .defaultNow()
+      .notNull()
+      .$onUpdateFn(() => new Date()),
+  }),
+  (t) => [
+    index().on(t.recordingId, t.createdAt),
+    uniqueIndex()
+      .on(t.recordingId)
+      .where(sql`status in ('queued', 'processing')`),
+  ],
+);
+
+export const TranscriptionJobRelations = relations(
+  TranscriptionJob,
+  ({ one }) => ({
+    recording: one(Recording, {
+      fields: [TranscriptionJob.recordingId],
+      references: [Recording.id],
+    }),
+  }),
+);
+
+export type PostProcessJobStatus = TranscriptionJobStatus;
+
+/**
+ * A run of silence trimming and loudness normalization over a recording's
+ * upload. At most one job per recording is queued or processing at a time.
+ */
+export const PostProcessJob = pgTable(
+  "post_process_job",
+  (t) => ({
+    id: t.uuid().notNull().primaryKey().defaultRandom(),
+    recordingId: t
+      .uuid()
+      .notNull()
+      .references(() => Recording.id, { onDelete: "cascade" }),
+    userId: t
+      .uuid()
+      .notNull()
+      .references(() => User.id, { onDelete: "cascade" }),
+    status: t
+      .varchar({ length: 32 })
+      .$type<PostProcessJobStatus>()
+      .default("queued")
+      .notNull(),
+    options: t.jsonb().$type<PostProcessOptions>().notNull(),
+    error: t.text(),
+    startedAt: t.timestamp({ mode: "date", withTimezone: true }),
+    completedAt: t.timestamp({ mode: "date", withTimezone: true }),
+    createdAt: t
+      .timestamp({ mode: "date", withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: t
+      .timestamp({ mode: "date", withTimezone: true })
+      .defaultNow()
+      .notNull()
+      .$onUpdateFn(() => new Date()),
+  }),
+  (t) => [
+    index().on(t.recordingId, t.createdAt),
+    uniqueIndex()
+      .on(t.recordingId)
+      .where(sql`status in ('queued', 'processing')`),
+  ],
+);
+
+export const PostProcessJobRelations = relations(PostProcessJob, ({ one }) => ({
+  recording: one(Recording, {
+    fields: [PostProcessJob.recordingId],
+    references: [Recording.id],
+  }),
+}));
+
+/**
+ * The latest transcript of a recording, replaced by each completed job.
+ * Segments carry word-level timing, which edits preserve.
+ */
+export const RecordingTranscript = pgTable(
+  "recording_transcript",
+  (t) => ({
+    recordingId: t
+      .uuid()
+      .notNull()
+      .primaryKey()
+      .references(() => Recording.id, { onDelete: "cascade" }),
+    jobId: t
+      .uuid()
+      .references(() => TranscriptionJob.id, { onDelete: "set null" }),
+    engine: t.varchar({ length: 64 }).notNull(),
+    language: t.varchar({ length: 16 }),
+    text: t.text().notNull(),
+    segments: t.jsonb().$type<TranscriptSegment[]>().notNull(),
+    editedAt: t.timestamp({ mode: "date", withTimezone: true }),
+    searchVector: tsvector().generatedAlwaysAs(
+      sql`setweight(to_tsvector('english', text), 'C')`,
+    ),
+    createdAt: t
+      .timestamp({ mode: "date", withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  }),
+  (t) => [index().using("gin", t.searchVector)],
+);
+
+export const RecordingTranscriptRelations = relations(
+  RecordingTranscript,
+  ({ one }) => ({
+    recording: one(Recording, {
+      fields: [RecordingTranscript.recordingId],
+      references: [Recording.id],
+    }),
+  }),
+);
+
+/**
+ * Nested folders. Every recording is in at most one folder; deleting a
+ * folder either deletes its contents or moves them up to its parent.
+ */
+export const Folder = pgTable(
+  "folder",
+  (t) => ({
+    id: t.uuid().notNull().primaryKey().defaultRandom(),
+    userId: t
+      .uuid()
+      .notNull()
+      .references(() => User.id, { onDelete: "cascade" }),
+    // null = top level
+    parentId: t
+      .uuid()
+      .references((): AnyPgColumn => Folder.id, { onDelete: "cascade" }),
+    name: t.varchar({ length: 255 }).notNull(),
+    createdAt: t
+      .timestamp({ mode: "date", withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: t
+      .timestamp({ mode: "date", withTimezone: true })
+      .defaultNow()
+      .notNull()
+      .$onUpdateFn(() => new Date()),
+  }),
+  (t) => [index().on(t.userId, t.parentId)],
+);
+
+export const FolderRelations = relations(Folder, ({ one, many }) => ({
+  parent: one(Folder, {
+    fields: [Folder.parentId],
+    references: [Folder.id],
+    relationName: "subfolders",
+  }),
+  subfolders: many(Folder, { relationName: "subfolders" }),
+  recordings: many(Recording),
+}));
+
+export const CreateFolderSchema = z.object({
+  name: z.string().trim().min(1).max(255),
+  parentId: z.string().uuid().nullish(),
+});
+
+export const UpdateFolderSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string().trim().min(1).max(255).optional(),
+  parentId: z.string().uuid().nullish(),
+});
+
+export const Tag = pgTable(
+  "tag",
+  (t) => ({
+    id: t.uuid().notNull().primaryKey().defaultRandom(),
+    userId: t
+      .uuid()
+      .notNull()
+      .references(() => User.id, { onDelete: "cascade" }),
+    name: t.varchar({ length: 64 }).notNull(),
+    // Hex color, e.g. #a855f7
+    color: t.varchar({ length: 7 }),
+    createdAt: t
+      .timestamp({ mode: "date", withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  }),
+  (t) => [uniqueIndex().on(t.userId, t.name)],
+);
+
+export const TagRelations = relations(Tag, ({ many }) => ({
+  recordings: many(RecordingTag),
+}));
+
+export const RecordingTag = pgTable(
+  "recording_tag",
+  (t) => ({
+    recordingId: t
+      .uuid()
+      .notNull()
+      .references(() => Recording.id, { onDelete: "cascade" }),
+    tagId: t
+      .uuid()
+      .notNull()
+      .references(() => Tag.id, { onDelete: "cascade" }),
+    createdAt: t
+      .timestamp({ mode: "date", withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  }),
+  (t) => [
+    primaryKey({ columns: [t.recordingId, t.tagId] }),
+    index().on(t.tagId),
+  ],
+);
+
+export const RecordingTagRelations = relations(RecordingTag, ({ one }) => ({
+  recording: one(Recording, {
+    fields: [RecordingTag.recordingId],
+    references: [Recording.id],
+  }),
+  tag: one(Tag, { fields: [RecordingTag.tagId], references: [Tag.id] }),
+}));
+
+export const CreateTagSchema = z.object({
+  name: z.string().trim().min(1).max(64),
+  color: z
+    .string()
+    .regex(/^#[0-9a-f]{6}$/i)
+    .nullish(),
+});
+
+export const UpdateTagSchema = CreateTagSchema.partial().extend({
+  id: z.string().uuid(),
+});
+
+/**
+ * A public link to a recording. Links are never deleted by their owner, only
+ * revoked, so view counts survive; revoked and expired links resolve to 404.
+ */
+export const RecordingShare = pgTable(
+  "recording_share",
+  (t) => ({
+    id: t.uuid().notNull().primaryKey().defaultRandom(),
+    recordingId: t
+      .uuid()
+      .notNull()
+      .references(() => Recording.id, { onDelete: "cascade" }),
+    userId: t
+      .uuid()
+      .notNull()
+      .references(() => User.id, { onDelete: "cascade" }),
+    slug: t.varchar({ length: 32 }).notNull(),
+    // scrypt, null for links that don't need a password
+    passwordHash: t.text(),
+    expiresAt: t.timestamp({ mode: "date", withTimezone: true }),
+    allowDownload: t.boolean().default(false).notNull(),
+    viewCount: t.integer().default(0).notNull(),
+    lastViewedAt: t.timestamp({ mode: "date", withTimezone: true }),
+    revokedAt: t.timestamp({ mode: "date", withTimezone: true }),
+    createdAt: t
+      .timestamp({ mode: "date", withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  }),
+  (t) => [uniqueIndex().on(t.slug), index().on(t.recordingId)],
+);
+
+export const RecordingShareRelations = relations(RecordingShare, ({ one }) => ({
+  recording: one(Recording, {
+    fields: [RecordingShare.recordingId],
+    references: [Recording.id],
+  }),
+}));
+
+export const CreateShareSchema = z.object({
+  recordingId: z.string().uuid(),
+  password: z.string().min(4).max(128).nullish(),
+  expiresAt: z
+    .date()
+    .refine((date) => date > new Date(), "Expiry must be in the future")
+    .nullish(),
+  allowDownload: z.boolean().default(false),
+});
+
+/** What an API key may do; signed-in users implicitly have every scope */
+export const ApiKeyScopeSchema = z.enum([
+  "recordings:read",
+  "recordings:write",
+]);
+
+export type ApiKeyScope = z.infer<typeof ApiKeyScopeSchema>;
+
+/**
+ * Long-lived credential for scripts and CI. Only a SHA-256 of the key is
+ * stored; `prefix` is its first characters so users can tell keys apart.
+ */
+export const ApiKey = pgTable(
+  "api_key",
+  (t) => ({
+    id: t.uuid().notNull().primaryKey().defaultRandom(),
+    userId: t
+      .uuid()
+      .notNull()
+      .references(() => User.id, { onDelete: "cascade" }),
+    name: t.varchar({ length: 255 }).notNull(),
+    prefix: t.varchar({ length: 16 }).notNull(),
+    keyHash: t.varchar({ length: 64 }).notNull(),
+    scopes: t.varchar({ length: 64 }).array().$type<ApiKeyScope[]>().notNull(),
+    lastUsedAt: t.timestamp({ mode: "date", withTimezone: true }),
+    expiresAt: t.timestamp({ mode: "date", withTimezone: true }),
+    revokedAt: t.timestamp({ mode: "date", withTimezone: true }),
+    createdAt: t
+      .timestamp({ mode: "date", withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  }),
+  (t) => [uniqueIndex().on(t.keyHash), index().on(t.userId)],
+);
+
+export const ApiKeyRelations = relations(ApiKey, ({ one }) => ({
+  user: one(User, { fields: [ApiKey.userId], references: [User.id] }),
+}));
+
+export const CreateApiKeySchema = z.object({
+  name: z.string().min(1).max(255),
+  scopes: z.array(ApiKeyScopeSchema).min(1),
+  expiresAt: z
+    .date()
+    .refine((date) => date > new Date(), "Expiry must be in the future")
+    .nullish(),
+});
+
+export const WorkspaceRoleSchema = z.enum(["owner", "editor", "viewer"]);
+
+/** Owners manage the workspace, editors change recordings, viewers read */
+export type WorkspaceRole = z.infer<typeof WorkspaceRoleSchema>;
+
+/** A team space; its recordings are shared by every member */
+export const Workspace = pgTable("workspace", (t) => ({
+  id: t.uuid().notNull().primaryKey().defaultRandom(),
+  name: t.varchar({ length: 255 }).notNull(),
+  plan: t.varchar({ length: 32 }).$type<Plan>().default("free").notNull(),
+  createdAt: t
+    .timestamp({ mode: "date", withTimezone: true })
+    .defaultNow()
+    .notNull(),
+}));
+
+export const WorkspaceRelations = relations(Workspace, ({ many }) => ({
+  memberships: many(Membership),
+  invitations: many(WorkspaceInvitation),
+  recordings: many(Recording),
+  usageEvents: many(UsageEvent),
+}));
+
+export const Membership = pgTable(
+  "membership",
+  (t) => ({
+    workspaceId: t
+      .uuid()
+      .notNull()
+      .references(() => Workspace.id, { onDelete: "cascade" }),
+    userId: t
+      .uuid()
+      .notNull()
+      .references(() => User.id, { onDelete: "cascade" }),
+    role: t.varchar({ length: 16 }).$type<WorkspaceRole>().notNull(),
+    createdAt: t
+      .timestamp({ mode: "date", withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  }),
+  (t) => [
+    primaryKey({ columns: [t.workspaceId, t.userId] }),
+    index().on(t.userId),
+  ],
+);
+
+export const MembershipRelations = relations(Membership, ({ one }) => ({
+  workspace: one(Workspace, {
+    fields: [Membership.workspaceId],
+    references: [Workspace.id],
+  }),
+  user: one(User, { fields: [Membership.userId], references: [User.id] }),
+}));
+
+/**
+ * An emailed invitation to join a workspace. Only a SHA-256 of the token in
+ * the link is stored.
+ */
+export const WorkspaceInvitation = pgTable(
+  "workspace_invitation",
+  (t) => ({
+    id: t.uuid().notNull().primaryKey().defaultRandom(),
+    workspaceId: t
+      .uuid()
+      .notNull()
+      .references(() => Workspace.id, { onDelete: "cascade" }),
+    email: t.varchar({ length: 255 }).notNull(),
+    role: t.varchar({ length: 16 }).$type<WorkspaceRole>().notNull(),
+    tokenHash: t.varchar({ length: 64 }).notNull(),
+    invitedById: t.uuid().references(() => User.id, { onDelete: "set null" }),
+    expiresAt: t.timestamp({ mode: "date", withTimezone: true }).notNull(),
+    acceptedAt: t.timestamp({ mode: "date", withTimezone: true }),
+    revokedAt: t.timestamp({ mode: "date", withTimezone: true }),
+    createdAt: t
+      .timestamp({ mode: "date", withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  }),
+  (t) => [uniqueIndex().on(t.tokenHash), index().on(t.workspaceId)],
+);
+
+export const WorkspaceInvitationRelations = relations(
+  WorkspaceInvitation,
+  ({ one }) => ({
+    workspace: one(Workspace, {
+      fields: [WorkspaceInvitation.workspaceId],
+      references: [Workspace.id],
+    }),
+  }),
+);
+
+export const CreateWorkspaceSchema = z.object({
+  name: z.string().min(1).max(255),
+});
+
+export const InviteMemberSchema = z.object({
+  email: z.string().email().max(255),
+  role: WorkspaceRoleSchema,
+});
+
+export const UsageMetricSchema = z.enum([
+  "storageBytes",
+  "recordedMs",
+  "transcriptionMs",
+]);
+
+/** What usage is measured in; storage is a running total, the rest monthly */
+export type UsageMetric = z.infer<typeof UsageMetricSchema>;
+
+/**
+ * Usage ledger. Consumption is the sum of `amount` per metric, so entries
+ * are never updated: negative amounts give usage back, e.g. when a
+ * recording is deleted or a transcription fails.
+ */
+export const UsageEvent = pgTable(
+  "usage_event",
+  (t) => ({
+    id: t.uuid().notNull().primaryKey().defaultRandom(),
+    // Personal usage when `workspaceId` is null, otherwise who caused it
+    userId: t.uuid().references(() => User.id, { onDelete: "set null" }),
+    workspaceId: t
+      .uuid()
+      .references(() => Workspace.id, { onDelete: "cascade" }),
+    metric: t.varchar({ length: 32 }).$type<UsageMetric>().notNull(),
+    amount: t.bigint({ mode: "number" }).notNull(),
+    recordingId: t
+      .uuid()
+      .references(() => Recording.id, { onDelete: "set null" }),
+    createdAt: t
+      .timestamp({ mode: "date", withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  }),
+  (t) => [
+    index().on(t.userId, t.metric, t.createdAt),
+    index().on(t.workspaceId, t.metric, t.createdAt),
+  ],
+);
+
+export const UsageEventRelations = relations(UsageEvent, ({ one }) => ({
+  user: one(User, { fields: [UsageEvent.userId], references: [User.id] }),
+  workspace: one(Workspace, {
+    fields: [UsageEvent.workspaceId],
+    references: [Workspace.id],
+  }),
+  recording: one(Recording, {
+    fields: [UsageEvent.recordingId],
+    references: [Recording.id],
+  }),
+}));
+
+// Token buckets of the Postgres rate limit store, keyed by limited subject
+export const RateLimitBucket = pgTable(
+  "rate_limit_bucket",
+  (t) => ({
+    key: t.varchar({ length: 255 }).notNull().primaryKey(),
+    tokens: t.doublePrecision().notNull(),
+    updatedAt: t.timestamp({ mode: "date", withTimezone: true }).notNull(),
+  }),
+  (t) => [index().on(t.updatedAt)],
+);
+
+/**
+ * Append-only log of security-relevant and destructive actions: every
+ * mutation that went through, and sign-ins and sign-outs. Rows are never
+ * updated, and outlive the actors and workspaces they mention.
+ */
+export const AuditEvent = pgTable(
+  "audit_event",
+  (t) => ({
+    id: t.uuid().notNull().primaryKey().defaultRandom(),
+    // null for anonymous calls, e.g. unlocking a share
+    actorId: t.uuid().references(() => User.id, { onDelete: "set null" }),
+    apiKeyId: t.uuid().references(() => ApiKey.id, { onDelete: "set null" }),
+    workspaceId: t
+      .uuid()
+      .references(() => Workspace.id, { onDelete: "set null" }),
+    // The procedure path, e.g. `recording.delete`, or `auth.signIn`
+    action: t.varchar({ length: 128 }).notNull(),
+    targetType: t.varchar({ length: 64 }),
+    targetId: t.varchar({ length: 255 }),
+    ipAddress: t.varchar({ length: 45 }),
+    metadata: t.jsonb().$type<Record<string, unknown>>().notNull(),
+    createdAt: t
+      .timestamp({ mode: "date", withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  }),
+  (t) => [
+    index().on(t.workspaceId, t.createdAt, t.id),
+    index().on(t.actorId, t.createdAt),
+  ],
+);
+
+export const AuditEventRelations = relations(AuditEvent, ({ one }) => ({
+  actor: one(User, { fields: [AuditEvent.actorId], references: [User.id] }),
+  workspace: one(Workspace, {
+    fields: [AuditEvent.workspaceId],
+    references: [Workspace.id],
+  }),
 }));
@@ -0,0 +1,10 @@
+import baseConfig, { restrictEnvAccess } from "@vibespeak/eslint-config/base";
+
+/** @type {import('typescript-eslint').Config} */
+export default [
+  {
+    ignores: ["dist/**"],
+  },
+  ...baseConfig,
+  ...restrictEnvAccess,
+];
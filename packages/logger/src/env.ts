@@ -0,0 +1,12 @@
+import { createEnv } from "@t3-oss/env-nextjs";
+import { z } from "zod";
+
+export const env = createEnv({
+  server: {
+    LOG_LEVEL: z.enum(["debug", "info", "warn", "error"]).default("info"),
+  },
+  client: {},
+  experimental__runtimeEnv: {},
+  skipValidation:
+    !!process.env.CI || process.env.npm_lifecycle_event === "lint",
+});
@@ -0,0 +1,60 @@
+import { env } from "./env";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug: (msg: string, fields?: LogFields) => void;
+  info: (msg: string, fields?: LogFields) => void;
+  warn: (msg: string, fields?: LogFields) => void;
+  error: (msg: string, fields?: LogFields) => void;
+  /** A logger that adds `bindings` to every line */
+  child: (bindings: LogFields) => Logger;
+}
+
+const LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+// Errors have no enumerable properties, so they would serialize as {}
+const replacer = (_key: string, value: unknown) => {
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: value.message,
+      stack: value.stack,
+      ...(value.cause !== undefined && { cause: value.cause }),
+    };
+  }
+  if (typeof value === "bigint") return value.toString();
+  return value;
+};
+
+/**
+ * Writes one JSON object per line: `level`, `time` and `msg`, then the
+ * bindings and the fields of the call. Warnings and errors go to stderr.
+ * Lines below `LOG_LEVEL` are dropped.
+ */
+export function createLogger(bindings: LogFields = {}): Logger {
+  const write = (level: LogLevel, msg: string, fields?: LogFields) => {
+    if (LEVELS[level] < LEVELS[env.LOG_LEVEL]) return;
+
+    const line = JSON.stringify(
+      { level, time: new Date().toISOString(), msg, ...bindings, ...fields },
+      replacer,
+    );
+    if (LEVELS[level] >= LEVELS.warn) console.error(line);
+    else console.log(line);
+  };
+
+  return {
+    debug: (msg, fields) => write("debug", msg, fields),
+    info: (msg, fields) => write("info", msg, fields),
+    warn: (msg, fields) => write("warn", msg, fields),
+    error: (msg, fields) => write("error", msg, fields),
+    child: (childBindings) => createLogger({ ...bindings, ...childBindings }),
+  };
+}
@@ -0,0 +1,23 @@
+import type { MailTransport } from "./types";
+
+/**
+ * Prints every message to the server log instead of sending it, so sign-in
+ * links can be copied from the terminal during development.
+ */
+export function createConsoleTransport(): MailTransport {
+  return {
+    send(message) {
+      console.log(
+        [
+          ">>> Mail",
+          `From: ${message.from}`,
+          `To: ${message.to}`,
+          `Subject: ${message.subject}`,
+          "",
+          message.text,
+        ].join("\n"),
+      );
+      return Promise.resolve();
+    },
+  };
+}
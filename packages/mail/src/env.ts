@@ -0,0 +1,15 @@
+import { createEnv } from "@t3-oss/env-nextjs";
+import { z } from "zod";
+
+export const env = createEnv({
+  server: {
+    MAIL_TRANSPORT: z.enum(["console", "file"]).default("console"),
+    /** Where the file transport drops messages, one JSON file each */
+    MAIL_FILE_DIR: z.string().min(1).default(".mail"),
+    MAIL_FROM: z.string().min(1).default("VibeSpeak <noreply@localhost>"),
+  },
+  client: {},
+  experimental__runtimeEnv: {},
+  skipValidation:
+    !!process.env.CI || process.env.npm_lifecycle_event === "lint",
+});
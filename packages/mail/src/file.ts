@@ -0,0 +1,29 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import type { MailTransport } from "./types";
+
+/**
+ * Writes every message as a JSON file below `dir`, named so that a directory
+ * listing sorts oldest first. Meant for tests that need to read back what
+ * was sent, e.g. to follow a magic link.
+ */
+export function createFileTransport(dir: string): MailTransport {
+  const root = path.resolve(dir);
+
+  return {
+    async send(message) {
+      await mkdir(root, { recursive: true });
+      const sentAt = new Date();
+      const file = path.join(
+        root,
+        `${sentAt.toISOString().replaceAll(":", "-")}-${randomUUID()}.json`,
+      );
+      await writeFile(
+        file,
+        JSON.stringify({ ...message, sentAt: sentAt.toISOString() }, null, 2),
+      );
+    },
+  };
+}
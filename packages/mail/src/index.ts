@@ -0,0 +1,24 @@
+import type { MailMessage, MailTransport } from "./types";
+import { createConsoleTransport } from "./console";
+import { env } from "./env";
+import { createFileTransport } from "./file";
+
+export type { MailMessage, MailTransport } from "./types";
+export { createConsoleTransport } from "./console";
+export { createFileTransport } from "./file";
+
+/** Add new transports here and to `MAIL_TRANSPORT` in `env.ts` */
+const transports: Record<typeof env.MAIL_TRANSPORT, () => MailTransport> = {
+  console: createConsoleTransport,
+  file: () => createFileTransport(env.MAIL_FILE_DIR),
+};
+
+let instance: MailTransport | undefined;
+
+/** The configured transport, created on first use */
+export const getMailTransport = () =>
+  (instance ??= transports[env.MAIL_TRANSPORT]());
+
+/** Sends a message through the configured transport */
+export const sendMail = (message: MailMessage) =>
+  getMailTransport().send({ ...message, from: message.from ?? env.MAIL_FROM });
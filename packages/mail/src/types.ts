@@ -0,0 +1,16 @@
+export interface MailMessage {
+  to: string;
+  /** Defaults to `MAIL_FROM` */
+  from?: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Delivers outgoing mail, with the sender already filled in. Implementations
+ * resolve once the message has been handed off and reject when it can't be.
+ */
+export interface MailTransport {
+  send: (message: MailMessage & { from: string }) => Promise<void>;
+}
@@ -6,3 +6,20 @@ export const unused = z.string().describe(
    with back and frontend, you can put them in here
   `,
 );
+
+/**
+ * Post-processing settings a client can send along with a recording,
+ * mirroring `PostProcessOptions` from @vibespeak/audio
+ */
+export const PostProcessOptionsSchema = z.object({
+  trimSilence: z.boolean().optional(),
+  silence: z
+    .object({
+      thresholdDb: z.number().min(-96).max(-6).optional(),
+      paddingMs: z.number().int().min(0).max(5_000).optional(),
+    })
+    .optional(),
+  normalize: z.boolean().optional(),
+  targetLufs: z.number().min(-40).max(-5).optional(),
+  truePeakCeilingDb: z.number().min(-12).max(0).optional(),
+});